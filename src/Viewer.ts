@@ -2,13 +2,62 @@ import {
     LineBasicMaterial, WebGLRenderer, Vector3, Color, Scene, PerspectiveCamera,
     OrthographicCamera, GridHelper, AxesHelper, AmbientLight,
     DirectionalLight, Line, BufferGeometry, Raycaster, Vector2,
-    BoxGeometry, MeshStandardMaterial, Mesh, TextureLoader, DoubleSide,
-    Box2, Box3, Object3D, Plane
+    MeshStandardMaterial, Mesh, TextureLoader, DoubleSide,
+    Box2, Box3, Object3D, Plane, Shape, ShapeGeometry, ExtrudeGeometry,
+    Group, LineSegments, MeshBasicMaterial, RepeatWrapping, type Texture
 } from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { UndoHistory } from './history/UndoHistory';
+import { type ModelSnapshot, createSnapshot, snapshotsEqual } from './history/ModelSnapshot';
+import { type SnapSegment, type SnapSettings, type SnapType, defaultSnapSettings, findSnap } from './snapping/SnapEngine';
+import { SnapMarker } from './snapping/SnapMarker';
+import { type ConstraintSettings, constrainPoint, defaultConstraintSettings } from './snapping/DrawingConstraints';
+import { GuideLines } from './snapping/GuideLines';
+import { InputParseError, parseLengthAngle, startsLengthInput } from './input/LengthAngleInput';
+import {
+    type UnitSettings, DEFAULT_UNIT_SETTINGS, formatArea, formatLength, parseLength, validateUnitSettings
+} from './units/Units';
+import { type WallOutlines, resolveWallOutlines } from './geometry/WallJoins';
+import { type WallProperties, DEFAULT_WALL_PROPERTIES, validateWallProperties, wallFaceOffsets } from './model/WallProperties';
+import { PropertiesPanel } from './ui/PropertiesPanel';
+import { boxSelectionMode, wallsInBox } from './selection/BoxSelection';
+import type { ICommand } from './commands/ICommand';
+import { type PointTransform, translation } from './geometry/Transform2D';
+import { type Grip, GripHandles, findGrip, gripsForWalls } from './selection/GripHandles';
+import {
+    type Opening, type OpeningKind, type OpeningProperties,
+    DEFAULT_OPENING_PROPERTIES, openingSpan, validateOpeningProperties
+} from './model/Opening';
+import { openingSymbol, wallPieces } from './geometry/OpeningGeometry';
+import { distanceToSegment, pointAt, projectOntoSegment } from './geometry/Segment2D';
+import type { RoomTag } from './model/Room';
+import {
+    type Dimension, type DimensionAnchor, type DimensionKind, dimensionGraphics, formatDimensionValue, validateDimension
+} from './model/Dimension';
+import { type DetectedRoom, detectRooms, labelPoint, pointInPolygon } from './geometry/RoomDetection';
+import {
+    type Layer, BUILT_IN_LAYER_IDS, DIMENSIONS_LAYER_ID, GRID_LAYER_ID, ROOMS_LAYER_ID, UNDERLAY_LAYER_ID,
+    WALLS_LAYER_ID, createDefaultLayers, validateLayer
+} from './model/Layer';
+import { type Level, DEFAULT_LEVEL, DEFAULT_LEVEL_HEIGHT, levelBelow, sortLevels, validateLevel } from './model/Level';
+
+// Screen distance within which the cursor picks a wall in plan
+const PICK_TOLERANCE_PX = 5;
 
-export interface Wall {
+// Mouse travel below which a selection drag counts as a click
+const CLICK_DRAG_THRESHOLD_PX = 4;
+
+// Floor slab under detected rooms in the 3D view
+const ROOM_SLAB_THICKNESS = 0.1;
+
+const BRICK_TEXTURE_URL = '/textures/brick.jpg';
+const ROOM_SLAB_COLOR = 0xd8cfc0;
+
+export interface Wall extends WallProperties {
     type: 'wall';
+    levelId: string;
+    layerId: string;
     start: Vector3;
     end: Vector3;
     angle: number;
@@ -18,6 +67,42 @@ export interface Wall {
     highlighted?: boolean;
 }
 
+// Edits accepted by Viewer.updateWall. Length and angle (radians) move the
+// end point along/around the start point.
+export type WallChanges = Partial<Pick<Wall, 'id' | 'levelId' | 'layerId' | 'start' | 'end' | 'length' | 'angle'> & WallProperties>;
+
+// Edits accepted by Viewer.updateOpening
+export type OpeningChanges = Partial<Pick<Opening, 'kind' | 'hostId' | 'offset' | 'layerId'> & OpeningProperties>;
+
+// A detected room with the name and label position from its tag
+export interface Room extends DetectedRoom {
+    id: string;
+    name: string;
+    levelId: string;
+    position: Vector3;
+}
+
+// Edits accepted by Viewer.updateLayer
+export type LayerChanges = Partial<Omit<Layer, 'type' | 'id'>>;
+
+// Edits accepted by Viewer.updateLevel
+export type LevelChanges = Partial<Pick<Level, 'name' | 'elevation'>>;
+
+// A wall for Viewer.addWalls: its axis, and any properties, level or layer
+// of its own that override the ones shared by the batch
+export type NewWall = { start: Vector3, end: Vector3 } & Partial<WallProperties & Pick<Wall, 'levelId' | 'layerId'>>;
+
+// Edits accepted by Viewer.updateDimension
+export type DimensionChanges = Partial<Pick<Dimension, 'offset' | 'anchors'>>;
+
+export interface TransformOptions {
+    label?: string;
+    copy?: boolean;              // transform copies and leave the originals
+    mirrored?: boolean;          // the transform is a reflection
+    stretchConnected?: boolean;  // drag along ends of unselected walls joined to moved ones
+    levelId?: string;            // level for copies, instead of the originals' level
+}
+
 export class Viewer {
     private container: HTMLElement;
     private renderer: WebGLRenderer;
@@ -28,12 +113,37 @@ export class Viewer {
     private controls2D: OrbitControls;
     private controls3D: OrbitControls;
     private is2D: boolean = true;
+    private levels: Level[] = [{ ...DEFAULT_LEVEL }];
+    private levelCounter: number = 1;
+    private activeLevelId: string = DEFAULT_LEVEL.id;
+    private units: UnitSettings = { ...DEFAULT_UNIT_SETTINGS };
+    private layers: Layer[] = createDefaultLayers();
+    private layerCounter: number = 0;
+    private currentLayerId: string = WALLS_LAYER_ID; // layer of newly drawn walls
     private walls: Wall[] = [];
     private wallCounter: number = 0;
+    private openings: Opening[] = [];
+    private openingCounter: number = 0;
+    private roomTags: RoomTag[] = [];
+    private roomCounter: number = 0;
+    private dimensions: Dimension[] = [];
+    private dimensionCounter: number = 0;
+    private rooms: Room[] = [];
     private modeIndicator: HTMLDivElement;
 
     private wallMeshes: Map<string, Object3D> = new Map();
+    private wallMeshes3D: Map<string, Object3D> = new Map();
+    private wallLines: Map<string, Line> = new Map();
     private dimensionLines: Map<string, { line: Line, label: HTMLDivElement }> = new Map();
+    private openingSymbols: Map<string, Object3D> = new Map();
+    private roomLabels: Map<string, HTMLDivElement> = new Map();
+    private dimensionObjects: Map<string, {
+        lines: LineSegments,
+        labels: { element: HTMLDivElement, position: Vector3, rotation: number }[]
+    }> = new Map();
+    private roomSlabs: Object3D[] = [];
+    private levelUnderlay: LineSegments | null = null;
+    private gridObjects: Object3D[] = [];
     private raycaster: Raycaster = new Raycaster();
     private mouse: Vector2 = new Vector2();
     private textureLoader: TextureLoader = new TextureLoader();
@@ -43,14 +153,49 @@ export class Viewer {
     private isDrawing: boolean = false;
     private startPoint: Vector3 | null = null;
     private previewLine: Line | null = null;
+    private lastDrawingPoint: Vector3 | null = null;
+
+    // Typed length<angle entry shown next to the cursor while drawing
+    private lengthInput: HTMLInputElement;
 
     // New property for wall list element
     private wallListElement: HTMLUListElement | null = null;
-    private selectedWall: string | null = null;
+    private propertiesPanel: PropertiesPanel | null = null;
+
+    // Interactive edit command (move, rotate...) receiving mouse input in 2D
+    private activeCommand: ICommand | null = null;
+    private commandPrompt: string | null = null;
+    private stretchConnectedWalls: boolean = true;
+
+    // Grip editing of selected walls in selection mode
+    private gripHandles: GripHandles = new GripHandles();
+    private gripDrag: { grip: Grip, last: Vector3, anchor: Vector3, excludeIds: Set<string> } | null = null;
+
+    // Rubber-band selection in selection mode
+    private selectionBox: { clientX: number, clientY: number, additive: boolean } | null = null;
+    private selectionBoxElement: HTMLDivElement;
 
     // New property to track if we're in drawing mode
     private isDrawingMode: boolean = true;
 
+    // Properties given to newly drawn walls
+    private defaultWallProperties: WallProperties = { ...DEFAULT_WALL_PROPERTIES };
+
+    // Undo/redo history of model snapshots
+    private history: UndoHistory<ModelSnapshot> = new UndoHistory(snapshotsEqual);
+    private changeListeners: Array<() => void> = [];
+
+    // Object snapping while drawing
+    private snapSettings: SnapSettings = defaultSnapSettings();
+    private snapMarker: SnapMarker = new SnapMarker();
+
+    // Ortho, polar tracking and alignment while drawing
+    private constraintSettings: ConstraintSettings = defaultConstraintSettings();
+    private guideLines: GuideLines = new GuideLines();
+
+    // Locked reference lines to trace over, e.g. an imported DXF. Not part of the model.
+    private underlay: { segments: SnapSegment[], object: LineSegments } | null = null;
+
     constructor(container: HTMLElement) {
         this.container = container;
         this.intersectionPlane = new Plane(new Vector3(0, 0, 1), 0);
@@ -60,6 +205,14 @@ export class Viewer {
         this.container.appendChild(this.modeIndicator);
         this.updateModeIndicator();
 
+        this.lengthInput = this.createLengthInput();
+        this.container.appendChild(this.lengthInput);
+
+        this.selectionBoxElement = document.createElement('div');
+        this.selectionBoxElement.className = 'selection-box';
+        this.selectionBoxElement.style.display = 'none';
+        this.container.appendChild(this.selectionBoxElement);
+
         this.renderer = this.createRenderer();
         this.renderer.setSize(container.clientWidth, container.clientHeight);
         this.renderer.setPixelRatio(window.devicePixelRatio);
@@ -80,14 +233,19 @@ export class Viewer {
 
     private setup() {
         // Add event listeners
-        window.addEventListener('mousedown', this.onMouseDown.bind(this));
+        // Listen on the container so clicks on toolbars and panels don't reach the editor
+        this.container.addEventListener('mousedown', this.onMouseDown.bind(this));
         window.addEventListener('mousemove', this.onMouseMove.bind(this));
         window.addEventListener('mouseup', this.onMouseUp.bind(this));
+        window.addEventListener('keydown', this.onKeyDown.bind(this));
         window.addEventListener('contextmenu', (e) => e.preventDefault()); // Prevent right-click menu
 
         // Add grid and lights to both scenes
         this.addGridAndLights(this.scene2D);
         this.addGridAndLights(this.scene3D);
+        this.scene2D.add(this.snapMarker.object);
+        this.scene2D.add(this.guideLines.object);
+        this.scene2D.add(this.gripHandles.object);
 
         // Get wall list element and set up event listeners
         this.wallListElement = document.getElementById('wall-list') as HTMLUListElement;
@@ -97,6 +255,12 @@ export class Viewer {
             this.wallListElement.addEventListener('click', this.onWallListItemClick.bind(this));
         }
 
+        // Properties panel for the selected wall
+        const propertiesElement = document.getElementById('properties-panel');
+        if (propertiesElement) {
+            this.propertiesPanel = new PropertiesPanel(propertiesElement, (id, changes) => this.updateWall(id, changes));
+        }
+
         // Fit the view to the grid or walls on startup
         this.zoomExtend();
     }
@@ -169,6 +333,7 @@ export class Viewer {
              grid.rotation.x = Math.PI / 2; // Rotate 90 degrees around X to get XY plane
         }
         scene.add(grid);
+        this.gridObjects.push(grid);
 
         // Add axes helper
         const axesHelper = new AxesHelper(2);
@@ -178,6 +343,7 @@ export class Viewer {
         }
 
         scene.add(axesHelper);
+        this.gridObjects.push(axesHelper);
 
         // Add lights
         const ambientLight = new AmbientLight('white', 0.5);
@@ -192,37 +358,102 @@ export class Viewer {
         this.is2D = is2D;
         if (is2D) {
             this.controls2D.update();
-            // Show dimension lines in 2D
+            // Show dimension lines and room labels in 2D, unless their layers are hidden
+            const showDimensions = this.isLayerVisible(DIMENSIONS_LAYER_ID);
             this.dimensionLines.forEach((dimension) => {
-                dimension.line.visible = true;
-                dimension.label.style.display = 'block';
+                dimension.line.visible = showDimensions;
+                dimension.label.style.display = showDimensions ? 'block' : 'none';
+            });
+            const showRooms = this.isLayerVisible(ROOMS_LAYER_ID);
+            this.roomLabels.forEach(label => label.style.display = showRooms ? 'block' : 'none');
+            // Placed dimensions only exist while their layer is visible
+            this.dimensionObjects.forEach(object => {
+                object.lines.visible = true;
+                object.labels.forEach(label => label.element.style.display = 'block');
             });
         } else {
             this.controls3D.update();
             this.update3DView();
-            // Hide dimension lines in 3D
+            // Hide dimension lines and room labels in 3D
             this.dimensionLines.forEach((dimension) => {
                 dimension.line.visible = false;
                 dimension.label.style.display = 'none';
             });
+            this.roomLabels.forEach(label => label.style.display = 'none');
+            this.dimensionObjects.forEach(object => {
+                object.lines.visible = false;
+                object.labels.forEach(label => label.element.style.display = 'none');
+            });
         }
     }
 
     private update3DView() {
-        this.wallMeshes.forEach(mesh => this.scene3D.remove(mesh));
-        this.wallMeshes.clear();
-        this.walls.forEach(wall => this.createWallMesh3D(wall));
+        this.wallMeshes3D.forEach(mesh => {
+            this.scene3D.remove(mesh);
+            this.disposeObject(mesh);
+        });
+        this.wallMeshes3D.clear();
+        const outlines = this.computeWallOutlines();
+        this.walls.forEach(wall => this.createWallMesh3D(wall, outlines.get(wall.id) ?? []));
+        this.updateRoomSlabs();
+    }
+
+    // Plan outlines of all walls with L/T/X joins resolved. Walls only join
+    // walls on their own level.
+    private computeWallOutlines(): WallOutlines {
+        const outlines: WallOutlines = new Map();
+        this.levels.forEach(level => {
+            resolveWallOutlines(this.levelWalls(level.id).map(wall => ({
+                id: wall.id,
+                start: wall.start,
+                end: wall.end,
+                ...wallFaceOffsets(wall)
+            }))).forEach((polygons, id) => outlines.set(id, polygons));
+        });
+        return outlines;
+    }
+
+    // Convert outline polygons to shapes. The 3D view maps plan Y to world Z,
+    // so its shapes are mirrored before being stood up with rotateX.
+    private createShapes(polygons: Vector3[][], mirrorY: boolean = false): Shape[] {
+        return polygons.map(polygon =>
+            new Shape(polygon.map(p => new Vector2(p.x, mirrorY ? -p.y : p.y)))
+        );
+    }
+
+    // Wall solid in world coordinates, Y up, without its base offset
+    private createWallGeometry3D(wall: Wall, polygons: Vector3[][]): BufferGeometry {
+        // Openings are cut out by extruding the solid parts around them separately
+        const cuts = this.openings.filter(opening => opening.hostId === wall.id).map(opening => {
+            const { from, to } = openingSpan(opening, wall.length);
+            return { from, to, bottom: opening.sillHeight, top: opening.sillHeight + opening.height };
+        });
+        const pieces = wallPieces(wall, polygons, wall.height, cuts).map(piece => {
+            const pieceGeometry = new ExtrudeGeometry(this.createShapes(piece.polygons, true), {
+                depth: piece.top - piece.bottom,
+                bevelEnabled: false
+            });
+            pieceGeometry.rotateX(-Math.PI / 2); // Extrusion direction becomes world up
+            pieceGeometry.translate(0, piece.bottom, 0);
+            return pieceGeometry;
+        });
+        const geometry = pieces.length === 1 ? pieces[0] : pieces.length > 0 ? mergeGeometries(pieces) : new BufferGeometry();
+        pieces.forEach(piece => {
+            if (piece !== geometry) piece.dispose();
+        });
+        return geometry;
     }
 
-    private createWallMesh3D(wall: Wall) {
-        const wallHeight = 3;
-        const wallThickness = 0.2;
-        const wallLength = wall.length;
+    // Extruded UVs are in world units, one brick tile every 2m
+    private setBrickTextureRepeat(texture: Texture) {
+        texture.wrapS = texture.wrapT = RepeatWrapping;
+        texture.repeat.set(0.5, 0.5);
+    }
 
-        const geometry = new BoxGeometry(wallLength, wallHeight, wallThickness);
-        const texture = this.textureLoader.load('/textures/brick.jpg');
-        texture.wrapS = texture.wrapT = 1000;
-        texture.repeat.set(wallLength / 2, wallHeight / 2);
+    private createWallMesh3D(wall: Wall, polygons: Vector3[][]) {
+        const geometry = this.createWallGeometry3D(wall, polygons);
+        const texture = this.textureLoader.load(BRICK_TEXTURE_URL);
+        this.setBrickTextureRepeat(texture);
 
         const material = new MeshStandardMaterial({
             map: texture,
@@ -231,42 +462,1013 @@ export class Viewer {
             metalness: 0.1
         });
 
-        const mesh = new Mesh(geometry, material);
-        const midPoint = new Vector3().addVectors(wall.start, wall.end).multiplyScalar(0.5);
-        mesh.position.set(midPoint.x, wallHeight / 2, midPoint.y);
-        mesh.rotation.y = -wall.angle;
+        material.color.set(this.wallColor(wall, 0xffffff));
+
+        const mesh = new Mesh(geometry, material);
+        mesh.visible = this.isLayerVisible(wall.layerId);
+        mesh.position.y = this.levelElevation(wall.levelId) + wall.baseOffset;
+        mesh.userData.wallId = wall.id;
+        this.scene3D.add(mesh);
+        this.wallMeshes3D.set(wall.id, mesh);
+    }
+
+    public addWall(
+        start: Vector3,
+        end: Vector3,
+        properties: Partial<WallProperties> = {},
+        placement: Partial<Pick<Wall, 'levelId' | 'layerId'>> = {}
+    ): Wall {
+        return this.addWalls([{ start, end }], properties, placement, 'Add wall')[0];
+    }
+
+    // Add many walls, e.g. from an imported drawing or a copy. The plan is
+    // rebuilt once after all of them are in.
+    public addWalls(
+        segments: NewWall[],
+        properties: Partial<WallProperties> = {},
+        { levelId = this.activeLevelId, layerId = this.currentLayerId }: Partial<Pick<Wall, 'levelId' | 'layerId'>> = {},
+        label: string = 'Add walls'
+    ): Wall[] {
+        const placed = segments.map(segment => ({ levelId, layerId, ...segment }));
+        const unknownLevel = placed.find(wall => !this.levels.some(level => level.id === wall.levelId));
+        if (unknownLevel) {
+            throw new Error(`Level "${unknownLevel.levelId}" not found`);
+        }
+        const unknownLayer = placed.find(wall => !this.layers.some(layer => layer.id === wall.layerId));
+        if (unknownLayer) {
+            throw new Error(`Layer "${unknownLayer.layerId}" not found`);
+        }
+        return this.transaction(label, () => {
+            const walls = placed.map(({ start, end, ...own }): Wall => ({
+                type: 'wall',
+                ...this.defaultWallProperties,
+                ...properties,
+                ...own,
+                start: start.clone(),
+                end: end.clone(),
+                angle: Math.atan2(end.y - start.y, end.x - start.x),
+                length: start.distanceTo(end),
+                id: `wall_${this.wallCounter++}`,
+                selected: false,
+                highlighted: false
+            }));
+            this.walls.push(...walls);
+            // Neighbouring joins change too, so rebuild every wall
+            this.rebuildWallObjects();
+            return walls;
+        });
+    }
+
+    // Edit one wall's geometry or properties and rebuild everything that
+    // depends on it. Throws if the changes are invalid; nothing is applied then.
+    public updateWall(id: string, changes: WallChanges): Wall {
+        const wall = this.walls.find(w => w.id === id);
+        if (!wall) {
+            throw new Error(`Wall "${id}" not found`);
+        }
+
+        const errors = validateWallProperties(changes);
+        if (changes.id !== undefined) {
+            if (changes.id.length === 0) {
+                errors.push('Id must not be empty');
+            } else if (changes.id !== id && this.walls.some(w => w.id === changes.id)) {
+                errors.push(`Id "${changes.id}" is already used`);
+            }
+        }
+        if (changes.levelId !== undefined && !this.levels.some(level => level.id === changes.levelId)) {
+            errors.push(`Level "${changes.levelId}" not found`);
+        }
+        if (changes.layerId !== undefined && !this.layers.some(layer => layer.id === changes.layerId)) {
+            errors.push(`Layer "${changes.layerId}" not found`);
+        }
+        if (changes.length !== undefined && !(Number.isFinite(changes.length) && changes.length > 0)) {
+            errors.push('Length must be a positive number');
+        }
+        if (changes.angle !== undefined && !Number.isFinite(changes.angle)) {
+            errors.push('Angle must be a finite number');
+        }
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+
+        this.transaction('Edit wall', () => {
+            this.removeWallObjects(wall.id);
+            const oldStart = wall.start.clone();
+            const oldEnd = wall.end.clone();
+
+            // Openings stay with their host when it is renamed
+            if (changes.id !== undefined && changes.id !== id) {
+                this.openings.forEach(opening => {
+                    if (opening.hostId === id) opening.hostId = changes.id!;
+                });
+                this.dimensions.forEach(dimension => dimension.anchors.forEach(anchor => {
+                    if (anchor.wallId === id) anchor.wallId = changes.id!;
+                }));
+            }
+
+            // Dimensions only measure walls on their own level
+            if (changes.levelId !== undefined && changes.levelId !== wall.levelId) {
+                this.dimensions = this.dimensions.filter(dimension =>
+                    !dimension.anchors.some(anchor => anchor.wallId === wall.id));
+            }
+
+            const { start, end, length, angle, ...properties } = changes;
+            Object.assign(wall, properties);
+            if (start) wall.start.copy(start);
+            if (end) wall.end.copy(end);
+
+            if (length !== undefined || angle !== undefined) {
+                // Keep the start point and move the end along the (new) direction
+                const newAngle = angle ?? wall.angle;
+                const newLength = length ?? wall.length;
+                wall.end.set(
+                    wall.start.x + Math.cos(newAngle) * newLength,
+                    wall.start.y + Math.sin(newAngle) * newLength,
+                    wall.end.z
+                );
+            }
+            wall.length = wall.start.distanceTo(wall.end);
+            wall.angle = Math.atan2(wall.end.y - wall.start.y, wall.end.x - wall.start.x);
+            this.keepOpeningsInPlace(wall, oldStart, oldEnd);
+
+            this.rebuildWallObjects();
+        });
+        return wall;
+    }
+
+    public getOpenings(): Opening[] {
+        return this.openings;
+    }
+
+    // Add a door or window to a wall, centred offset metres from its start
+    public addOpening(
+        hostId: string, kind: OpeningKind, offset: number, properties: Partial<OpeningProperties> = {},
+        layerId: string | null = null
+    ): Opening {
+        const host = this.walls.find(wall => wall.id === hostId);
+        if (!host) {
+            throw new Error(`Wall "${hostId}" not found`);
+        }
+        if (layerId !== null && !this.layers.some(layer => layer.id === layerId)) {
+            throw new Error(`Layer "${layerId}" not found`);
+        }
+        const errors = validateOpeningProperties(properties);
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+
+        return this.transaction(kind === 'door' ? 'Add door' : 'Add window', () => {
+            const opening: Opening = {
+                type: 'opening',
+                ...DEFAULT_OPENING_PROPERTIES[kind],
+                ...properties,
+                kind,
+                id: `opening_${this.openingCounter++}`,
+                hostId,
+                layerId: layerId ?? host.layerId, // On its host's layer unless given
+                offset,
+                selected: false
+            };
+            this.openings.push(opening);
+            this.rebuildWallObjects();
+            return opening;
+        });
+    }
+
+    // Edit an opening, or move it to another host. Throws if the changes are invalid.
+    public updateOpening(id: string, changes: OpeningChanges): Opening {
+        const opening = this.openings.find(o => o.id === id);
+        if (!opening) {
+            throw new Error(`Opening "${id}" not found`);
+        }
+        const errors = validateOpeningProperties(changes);
+        if (changes.hostId !== undefined && !this.walls.some(wall => wall.id === changes.hostId)) {
+            errors.push(`Wall "${changes.hostId}" not found`);
+        }
+        if (changes.offset !== undefined && !Number.isFinite(changes.offset)) {
+            errors.push('offset must be a finite number');
+        }
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+
+        this.transaction('Edit opening', () => {
+            Object.assign(opening, changes);
+            this.rebuildWallObjects();
+        });
+        return opening;
+    }
+
+    public removeOpenings(ids: string[], label: string = 'Delete openings') {
+        const idSet = new Set(ids);
+        this.transaction(label, () => {
+            this.openings = this.openings.filter(opening => !idSet.has(opening.id));
+            this.rebuildWallObjects();
+        });
+    }
+
+    // Dimensions placed on the active level
+    public getDimensions(): Dimension[] {
+        return this.dimensions.filter(dimension => dimension.levelId === this.activeLevelId);
+    }
+
+    // Add a dimension between wall ends. It goes on the level of its walls
+    // and is redrawn from them whenever they change.
+    public addDimension(kind: DimensionKind, anchors: DimensionAnchor[], offset: number): Dimension {
+        const errors = validateDimension({ kind, anchors, offset });
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        const walls = anchors.map(anchor => this.walls.find(wall => wall.id === anchor.wallId));
+        const missing = anchors.find((_, i) => !walls[i]);
+        if (missing) {
+            throw new Error(`Wall "${missing.wallId}" not found`);
+        }
+        const levelId = walls[0]!.levelId;
+        if (walls.some(wall => wall!.levelId !== levelId)) {
+            throw new Error('Dimensioned walls must be on the same level');
+        }
+
+        return this.transaction('Add dimension', () => {
+            const dimension: Dimension = {
+                type: 'dimension',
+                id: `dimension_${this.dimensionCounter++}`,
+                levelId,
+                kind,
+                anchors: anchors.map(anchor => ({ ...anchor })),
+                offset,
+                selected: false
+            };
+            this.dimensions.push(dimension);
+            this.rebuildDimensionObjects();
+            return dimension;
+        });
+    }
+
+    // Move a dimension line, resize an angle's arc or tie the dimension to
+    // other wall ends on its level. Throws if the changes are invalid.
+    public updateDimension(id: string, changes: DimensionChanges): Dimension {
+        const dimension = this.dimensions.find(d => d.id === id);
+        if (!dimension) {
+            throw new Error(`Dimension "${id}" not found`);
+        }
+        const errors = validateDimension({ ...dimension, ...changes });
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        const missing = changes.anchors?.find(anchor =>
+            !this.walls.some(wall => wall.id === anchor.wallId && wall.levelId === dimension.levelId));
+        if (missing) {
+            throw new Error(`Wall "${missing.wallId}" not found on the dimension's level`);
+        }
+
+        this.transaction('Edit dimension', () => {
+            const { anchors, ...rest } = changes;
+            Object.assign(dimension, rest);
+            if (anchors) dimension.anchors = anchors.map(anchor => ({ ...anchor }));
+            this.rebuildDimensionObjects();
+        });
+        return dimension;
+    }
+
+    public removeDimensions(ids: string[], label: string = 'Delete dimensions') {
+        const idSet = new Set(ids);
+        this.transaction(label, () => {
+            this.dimensions = this.dimensions.filter(dimension => !idSet.has(dimension.id));
+            this.rebuildDimensionObjects();
+        });
+    }
+
+    // Opening offsets are measured from the host's start point. When that
+    // point moves, keep the openings where they were on the plan.
+    private keepOpeningsInPlace(wall: Wall, oldStart: Vector3, oldEnd: Vector3) {
+        const oldLength = oldStart.distanceTo(oldEnd);
+        if (wall.start.equals(oldStart) || oldLength === 0) return;
+        this.openings.filter(opening => opening.hostId === wall.id).forEach(opening => {
+            const center = pointAt(oldStart, oldEnd, opening.offset / oldLength);
+            opening.offset = projectOntoSegment(center, wall.start, wall.end) * wall.length;
+        });
+    }
+
+    public getDefaultWallProperties(): WallProperties {
+        return { ...this.defaultWallProperties };
+    }
+
+    public setDefaultWallProperties(properties: Partial<WallProperties>) {
+        this.defaultWallProperties = { ...this.defaultWallProperties, ...properties };
+    }
+
+    // Run a model edit as one undoable step. Nested calls join the outer
+    // transaction, so composite operations undo in a single step.
+    public transaction<T>(label: string, action: () => T): T {
+        return this.history.transaction(label, () => this.takeSnapshot(), action, () => this.notifyChange());
+    }
+
+    // Open/close a transaction spanning several events, e.g. a grip drag
+    private beginTransaction(label: string) {
+        this.history.begin(label, this.takeSnapshot());
+    }
+
+    private commitTransaction() {
+        if (this.history.commit(this.takeSnapshot())) {
+            this.notifyChange();
+        }
+    }
+
+    public undo(): boolean {
+        const snapshot = this.history.undo();
+        if (!snapshot) return false;
+        this.restoreSnapshot(snapshot);
+        this.notifyChange();
+        return true;
+    }
+
+    public redo(): boolean {
+        const snapshot = this.history.redo();
+        if (!snapshot) return false;
+        this.restoreSnapshot(snapshot);
+        this.notifyChange();
+        return true;
+    }
+
+    // Register a callback fired after every change to the model (edits, undo, redo)
+    public onChange(listener: () => void) {
+        this.changeListeners.push(listener);
+    }
+
+    private notifyChange() {
+        this.changeListeners.forEach(listener => listener());
+    }
+
+    public canUndo(): boolean {
+        return this.history.canUndo();
+    }
+
+    public canRedo(): boolean {
+        return this.history.canRedo();
+    }
+
+    // Copy of the current model, e.g. for saving to a project file
+    public getModel(): ModelSnapshot {
+        return this.takeSnapshot();
+    }
+
+    // Replace the current model, e.g. after opening a project file. Undoable.
+    public loadModel(snapshot: ModelSnapshot) {
+        this.transaction('Load project', () => this.restoreSnapshot(snapshot));
+        this.zoomExtend();
+    }
+
+    private takeSnapshot(): ModelSnapshot {
+        return createSnapshot({
+            units: this.units,
+            layers: this.layers,
+            layerCounter: this.layerCounter,
+            levels: this.levels,
+            levelCounter: this.levelCounter,
+            walls: this.walls,
+            wallCounter: this.wallCounter,
+            openings: this.openings,
+            openingCounter: this.openingCounter,
+            roomTags: this.roomTags,
+            roomCounter: this.roomCounter,
+            dimensions: this.dimensions,
+            dimensionCounter: this.dimensionCounter
+        });
+    }
+
+    // Replace the whole model with a snapshot and rebuild every view of it
+    private restoreSnapshot(snapshot: ModelSnapshot) {
+        this.cleanupDrawing();
+        this.walls.forEach(wall => this.removeWallObjects(wall.id));
+        const model = createSnapshot(snapshot);
+        this.units = model.units;
+        this.layers = model.layers;
+        this.layerCounter = model.layerCounter;
+        if (!this.layers.some(layer => layer.id === this.currentLayerId)) {
+            this.currentLayerId = WALLS_LAYER_ID;
+        }
+        this.levels = model.levels;
+        this.levelCounter = model.levelCounter;
+        if (!this.levels.some(level => level.id === this.activeLevelId)) {
+            this.activeLevelId = sortLevels(this.levels)[0].id;
+        }
+        this.walls = model.walls;
+        this.wallCounter = model.wallCounter;
+        this.openings = model.openings;
+        this.openingCounter = model.openingCounter;
+        this.roomTags = model.roomTags;
+        this.roomCounter = model.roomCounter;
+        this.dimensions = model.dimensions;
+        this.dimensionCounter = model.dimensionCounter;
+        this.rebuildWallObjects();
+    }
+
+    // Recreate 2D meshes, dimension lines, 3D meshes, opening symbols,
+    // placed dimensions and the wall list from the model. The plan shows the
+    // active level over the level below it; 3D shows every level.
+    // Room detection can create room tags, so outside a transaction pass
+    // redetectRooms = false to only relabel the rooms already found.
+    private rebuildWallObjects(redetectRooms: boolean = true) {
+        const outlines = this.computeWallOutlines();
+        this.walls.forEach(wall => {
+            this.removeWallObjects(wall.id);
+            if (wall.levelId === this.activeLevelId) {
+                this.createWallMesh2D(wall, outlines.get(wall.id) ?? []);
+            }
+            if (!this.is2D) {
+                this.createWallMesh3D(wall, outlines.get(wall.id) ?? []);
+            }
+        });
+        this.updateLevelUnderlay(outlines);
+        this.updateBuiltInLayers();
+        this.rebuildOpeningSymbols();
+        this.rebuildDimensionObjects();
+        if (redetectRooms) {
+            this.updateRooms();
+        } else {
+            this.updateRoomLabels();
+        }
+        this.updateWallList();
+    }
+
+    // Levels from the lowest to the highest
+    public getLevels(): Level[] {
+        return sortLevels(this.levels);
+    }
+
+    public getActiveLevel(): Level {
+        return this.levels.find(level => level.id === this.activeLevelId)!;
+    }
+
+    // Show another level in the plan and draw on it. A view change, so it is
+    // not recorded in the undo history.
+    public setActiveLevel(id: string) {
+        if (!this.levels.some(level => level.id === id)) {
+            throw new Error(`Level "${id}" not found`);
+        }
+        if (id === this.activeLevelId) return;
+        this.cancelCommand();
+        this.cleanupDrawing();
+        this.clearWallStates();
+        this.activeLevelId = id;
+        // Only the view changes, so the rooms found for every level still hold
+        this.rebuildWallObjects(false);
+    }
+
+    // New level, by default one storey above the top level
+    public addLevel(name: string, elevation?: number): Level {
+        const levels = sortLevels(this.levels);
+        const level: Level = {
+            type: 'level',
+            id: `level_${this.levelCounter}`,
+            name: name.trim(),
+            elevation: elevation ?? levels[levels.length - 1].elevation + DEFAULT_LEVEL_HEIGHT
+        };
+        const errors = validateLevel(level);
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        return this.transaction('Add level', () => {
+            this.levelCounter++;
+            this.levels.push(level);
+            this.rebuildWallObjects();
+            return level;
+        });
+    }
+
+    public updateLevel(id: string, changes: LevelChanges): Level {
+        const level = this.levels.find(l => l.id === id);
+        if (!level) {
+            throw new Error(`Level "${id}" not found`);
+        }
+        const errors = validateLevel(changes);
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        this.transaction('Edit level', () => {
+            if (changes.name !== undefined) level.name = changes.name.trim();
+            if (changes.elevation !== undefined) level.elevation = changes.elevation;
+            this.rebuildWallObjects();
+        });
+        return level;
+    }
+
+    // Delete a level with everything on it. The last level can't be deleted.
+    public removeLevel(id: string) {
+        if (!this.levels.some(level => level.id === id)) {
+            throw new Error(`Level "${id}" not found`);
+        }
+        if (this.levels.length === 1) {
+            throw new Error('The only level cannot be deleted');
+        }
+        this.transaction('Delete level', () => {
+            this.removeWalls(this.levelWalls(id).map(wall => wall.id));
+            this.levels = this.levels.filter(level => level.id !== id);
+            this.roomTags = this.roomTags.filter(tag => tag.levelId !== id);
+            if (this.activeLevelId === id) {
+                this.clearWallStates();
+                this.activeLevelId = sortLevels(this.levels)[0].id;
+            }
+            this.rebuildWallObjects();
+        });
+    }
+
+    // Copy walls and their openings to the same plan position on another
+    // level. The selection stays on the originals.
+    public copyWallsToLevel(ids: string[], levelId: string): Wall[] {
+        if (!this.levels.some(level => level.id === levelId)) {
+            throw new Error(`Level "${levelId}" not found`);
+        }
+        const selected = this.getSelectedWalls().map(wall => wall.id);
+        const copies = this.transformWalls(ids, point => point.clone(), { label: 'Copy to level', copy: true, levelId });
+        this.setSelection(selected);
+        return copies;
+    }
+
+    public getUnits(): UnitSettings {
+        return { ...this.units };
+    }
+
+    // Units lengths are shown and typed in, for the whole project
+    public setUnits(units: UnitSettings) {
+        const errors = validateUnitSettings(units);
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        this.transaction('Change units', () => {
+            this.units = { ...units };
+            this.rebuildWallObjects();
+        });
+    }
+
+    public getLayers(): Layer[] {
+        return this.layers;
+    }
+
+    public getCurrentLayer(): Layer {
+        return this.layers.find(layer => layer.id === this.currentLayerId)!;
+    }
+
+    // Layer new walls are drawn on. Not recorded in the undo history.
+    public setCurrentLayer(id: string) {
+        const layer = this.layers.find(l => l.id === id);
+        if (!layer) {
+            throw new Error(`Layer "${id}" not found`);
+        }
+        if (BUILT_IN_LAYER_IDS.includes(id) && id !== WALLS_LAYER_ID) {
+            throw new Error(`Walls can't be drawn on the ${layer.name} layer`);
+        }
+        this.currentLayerId = id;
+    }
+
+    public addLayer(name: string): Layer {
+        const layer: Layer = {
+            type: 'layer',
+            id: `layer_${this.layerCounter}`,
+            name: name.trim(),
+            visible: true,
+            locked: false,
+            color: null,
+            lineWeight: null
+        };
+        const errors = validateLayer(layer);
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        return this.transaction('Add layer', () => {
+            this.layerCounter++;
+            this.layers.push(layer);
+            return layer;
+        });
+    }
+
+    // Hiding or locking a layer drops its elements from the selection
+    public updateLayer(id: string, changes: LayerChanges): Layer {
+        const layer = this.layers.find(l => l.id === id);
+        if (!layer) {
+            throw new Error(`Layer "${id}" not found`);
+        }
+        const errors = validateLayer(changes);
+        if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+        }
+        this.transaction('Edit layer', () => {
+            if (changes.name !== undefined) layer.name = changes.name.trim();
+            if (changes.visible !== undefined) layer.visible = changes.visible;
+            if (changes.locked !== undefined) layer.locked = changes.locked;
+            if (changes.color !== undefined) layer.color = changes.color;
+            if (changes.lineWeight !== undefined) layer.lineWeight = changes.lineWeight;
+            if (!this.isLayerEditable(id)) {
+                this.walls.forEach(wall => {
+                    if (wall.layerId === id) wall.selected = wall.highlighted = false;
+                });
+                this.openings.forEach(opening => {
+                    if (opening.layerId === id) opening.selected = false;
+                });
+                if (id === DIMENSIONS_LAYER_ID) {
+                    this.dimensions.forEach(dimension => dimension.selected = false);
+                }
+            }
+            this.rebuildWallObjects();
+        });
+        return layer;
+    }
+
+    // Delete a layer. Its walls and openings move to the Walls layer.
+    public removeLayer(id: string) {
+        if (!this.layers.some(layer => layer.id === id)) {
+            throw new Error(`Layer "${id}" not found`);
+        }
+        if (BUILT_IN_LAYER_IDS.includes(id)) {
+            throw new Error('Built-in layers cannot be deleted');
+        }
+        this.transaction('Delete layer', () => {
+            this.walls.forEach(wall => {
+                if (wall.layerId === id) wall.layerId = WALLS_LAYER_ID;
+            });
+            this.openings.forEach(opening => {
+                if (opening.layerId === id) opening.layerId = WALLS_LAYER_ID;
+            });
+            this.layers = this.layers.filter(layer => layer.id !== id);
+            if (this.currentLayerId === id) {
+                this.currentLayerId = WALLS_LAYER_ID;
+            }
+            this.rebuildWallObjects();
+        });
+    }
+
+    // Move walls and openings to another layer
+    public assignLayer(wallIds: string[], openingIds: string[], layerId: string) {
+        if (!this.layers.some(layer => layer.id === layerId)) {
+            throw new Error(`Layer "${layerId}" not found`);
+        }
+        this.transaction('Assign layer', () => {
+            this.walls.forEach(wall => {
+                if (wallIds.includes(wall.id)) wall.layerId = layerId;
+            });
+            this.openings.forEach(opening => {
+                if (openingIds.includes(opening.id)) opening.layerId = layerId;
+            });
+            if (!this.isLayerEditable(layerId)) {
+                this.clearWallStates();
+            }
+            this.rebuildWallObjects();
+        });
+    }
+
+    private isLayerVisible(layerId: string): boolean {
+        return this.layers.find(layer => layer.id === layerId)?.visible ?? true;
+    }
+
+    private isLayerEditable(layerId: string): boolean {
+        const layer = this.layers.find(l => l.id === layerId);
+        return !layer || (layer.visible && !layer.locked);
+    }
+
+    private isWallEditable(wallId: string): boolean {
+        const wall = this.walls.find(w => w.id === wallId);
+        return wall !== undefined && this.isLayerEditable(wall.layerId);
+    }
+
+    // Colour override of a layer, or the given default
+    private layerColor(layerId: string, defaultColor: number): string | number {
+        return this.layers.find(layer => layer.id === layerId)?.color ?? defaultColor;
+    }
+
+    // Selection and hover colours win over the layer colour
+    private wallColor(wall: Wall, defaultColor: number): string | number {
+        if (wall.selected) return 0xff0000;
+        if (wall.highlighted) return 0x00ff00;
+        return this.layerColor(wall.layerId, defaultColor);
+    }
+
+    // Grid and axes only exist once, so they are shown or hidden in place
+    private updateBuiltInLayers() {
+        const showGrid = this.isLayerVisible(GRID_LAYER_ID);
+        this.gridObjects.forEach(object => object.visible = showGrid);
+    }
+
+    private levelWalls(levelId: string = this.activeLevelId): Wall[] {
+        return this.walls.filter(wall => wall.levelId === levelId);
+    }
+
+    private levelElevation(levelId: string): number {
+        return this.levels.find(level => level.id === levelId)?.elevation ?? 0;
+    }
+
+    private levelName(levelId: string): string {
+        return this.levels.find(level => level.id === levelId)?.name ?? levelId;
+    }
+
+    // Faded outlines of the level below the active one, drawn under the plan
+    // for reference. They can't be picked or snapped to.
+    private updateLevelUnderlay(outlines: WallOutlines) {
+        if (this.levelUnderlay) {
+            this.scene2D.remove(this.levelUnderlay);
+            this.disposeObject(this.levelUnderlay);
+            this.levelUnderlay = null;
+        }
+        const below = levelBelow(this.levels, this.activeLevelId);
+        if (!below) return;
+        const points: Vector3[] = [];
+        this.levelWalls(below.id).forEach(wall => {
+            (outlines.get(wall.id) ?? []).forEach(polygon => polygon.forEach((point, i) => {
+                points.push(point, polygon[(i + 1) % polygon.length]);
+            }));
+        });
+        if (points.length === 0) return;
+        this.levelUnderlay = new LineSegments(
+            new BufferGeometry().setFromPoints(points),
+            new LineBasicMaterial({ color: this.layerColor(UNDERLAY_LAYER_ID, 0xc8c8c8) })
+        );
+        this.levelUnderlay.visible = this.isLayerVisible(UNDERLAY_LAYER_ID);
+        this.levelUnderlay.position.z = -0.004; // Below the walls, above the DXF underlay
+        this.scene2D.add(this.levelUnderlay);
+    }
+
+    // Rooms on one level, or on every level without levelId
+    public getRooms(levelId: string | null = null): Room[] {
+        return levelId === null ? this.rooms : this.rooms.filter(room => room.levelId === levelId);
+    }
+
+    public renameRoom(id: string, name: string) {
+        const tag = this.roomTags.find(t => t.id === id);
+        if (!tag) {
+            throw new Error(`Room "${id}" not found`);
+        }
+        this.transaction('Rename room', () => {
+            tag.name = name;
+            this.updateRooms();
+        });
+    }
+
+    // Detect rooms from the walls of each level and give each exactly one
+    // tag. A room keeps the tag inside it, or failing that the nearest unused
+    // one so names survive walls being moved; otherwise it gets a new tag.
+    // Tags left without a room are dropped.
+    private updateRooms() {
+        const tags: RoomTag[] = [];
+        this.rooms = this.levels.flatMap(level => {
+            const { rooms, levelTags } = this.updateLevelRooms(level.id);
+            tags.push(...levelTags);
+            return rooms;
+        });
+        this.roomTags = tags;
+
+        this.updateRoomLabels();
+        if (!this.is2D) {
+            this.updateRoomSlabs();
+        }
+    }
+
+    private updateLevelRooms(levelId: string): { rooms: Room[], levelTags: RoomTag[] } {
+        const detected = detectRooms(this.levelWalls(levelId).map(wall => ({
+            id: wall.id,
+            start: wall.start,
+            end: wall.end,
+            ...wallFaceOffsets(wall)
+        })));
+
+        const unused = new Set(this.roomTags.filter(tag => tag.levelId === levelId));
+        const claim = (tag: RoomTag) => {
+            unused.delete(tag);
+            return tag;
+        };
+        const tagsInside = detected.map(room => {
+            const inside = [...unused].find(tag => pointInPolygon(tag.position, room.boundary));
+            return inside && claim(inside);
+        });
+
+        const newTags: RoomTag[] = [];
+        const rooms = detected.map((room, i): Room => {
+            let tag = tagsInside[i];
+            if (!tag) {
+                const center = labelPoint(room.polygon);
+                const nearest = [...unused].sort((a, b) =>
+                    a.position.distanceTo(center) - b.position.distanceTo(center)
+                )[0];
+                if (nearest) {
+                    tag = claim(nearest);
+                    tag.position.copy(center);
+                } else {
+                    const number = this.roomCounter++;
+                    tag = { type: 'room', id: `room_${number}`, name: `Room ${number + 1}`, levelId, position: center };
+                    newTags.push(tag);
+                }
+            }
+            return { ...room, id: tag.id, name: tag.name, levelId, position: tag.position.clone() };
+        });
+        const levelTags = [
+            ...this.roomTags.filter(tag => tag.levelId === levelId && !unused.has(tag)),
+            ...newTags
+        ];
+        return { rooms, levelTags };
+    }
+
+    // Name and area tags of the rooms in the 2D view. Double-click to rename.
+    private updateRoomLabels() {
+        this.roomLabels.forEach(label => label.remove());
+        this.roomLabels.clear();
+
+        this.getRooms(this.activeLevelId).forEach(room => {
+            const label = document.createElement('div');
+            label.className = 'room-label';
+            label.style.display = this.is2D && this.isLayerVisible(ROOMS_LAYER_ID) ? 'block' : 'none';
+            const name = document.createElement('strong');
+            name.textContent = room.name;
+            const area = document.createElement('span');
+            area.textContent = formatArea(room.area, this.units);
+            label.append(name, area);
+            label.title = `Perimeter ${formatLength(room.perimeter, this.units)}. Double-click to rename.`;
+            label.addEventListener('dblclick', () => {
+                const newName = prompt('Room name', room.name);
+                if (newName !== null && newName.trim() !== '') {
+                    this.renameRoom(room.id, newName.trim());
+                }
+            });
+            this.container.appendChild(label);
+            this.roomLabels.set(room.id, label);
+        });
+        this.updateRoomLabelPositions();
+    }
+
+    private updateRoomLabelPositions() {
+        this.roomTags.forEach(tag => {
+            const label = this.roomLabels.get(tag.id);
+            if (!label) return;
+            const screenPosition = tag.position.clone().project(this.camera2D);
+            label.style.left = `${(screenPosition.x + 1) * this.container.clientWidth / 2}px`;
+            label.style.top = `${(-screenPosition.y + 1) * this.container.clientHeight / 2}px`;
+        });
+    }
+
+    // Floor slabs filling the rooms in the 3D view, top at floor level
+    private updateRoomSlabs() {
+        this.roomSlabs.forEach(slab => {
+            this.scene3D.remove(slab);
+            this.disposeObject(slab);
+        });
+        this.roomSlabs = this.rooms.map(room => {
+            const slab = new Mesh(this.createRoomSlabGeometry(room), new MeshStandardMaterial({ color: ROOM_SLAB_COLOR, roughness: 0.9 }));
+            slab.position.y = this.levelElevation(room.levelId);
+            slab.visible = this.isLayerVisible(ROOMS_LAYER_ID);
+            slab.userData.roomId = room.id;
+            this.scene3D.add(slab);
+            return slab;
+        });
+    }
+
+    private createRoomSlabGeometry(room: Room): BufferGeometry {
+        const geometry = new ExtrudeGeometry(this.createShapes([room.polygon], true), {
+            depth: ROOM_SLAB_THICKNESS,
+            bevelEnabled: false
+        });
+        geometry.rotateX(-Math.PI / 2);
+        // Just above the grid so it doesn't flicker through the floor
+        geometry.translate(0, 0.005 - ROOM_SLAB_THICKNESS, 0);
+        return geometry;
+    }
+
+    // Walls and room slabs as they appear in the 3D view, for export. Leaves
+    // out the grid, axes, lights, selection colours and hidden layers. Walls
+    // and rooms carry their properties in userData, which glTF writes as
+    // extras. Dispose of it with disposeModel once exported.
+    public async createExportModel(): Promise<Group> {
+        const texture = await this.textureLoader.loadAsync(BRICK_TEXTURE_URL);
+        this.setBrickTextureRepeat(texture);
+        const wallMaterial = new MeshStandardMaterial({
+            name: 'brick',
+            map: texture,
+            side: DoubleSide,
+            roughness: 0.7,
+            metalness: 0.1
+        });
+        const slabMaterial = new MeshStandardMaterial({ name: 'floor', color: ROOM_SLAB_COLOR, roughness: 0.9 });
+
+        const model = new Group();
+        model.name = 'Model';
+        const outlines = this.computeWallOutlines();
+        this.walls.filter(wall => this.isLayerVisible(wall.layerId)).forEach(wall => {
+            const mesh = new Mesh(this.createWallGeometry3D(wall, outlines.get(wall.id) ?? []), wallMaterial);
+            mesh.name = wall.id;
+            mesh.position.y = this.levelElevation(wall.levelId) + wall.baseOffset;
+            mesh.userData = {
+                type: 'wall',
+                id: wall.id,
+                level: this.levelName(wall.levelId),
+                start: [wall.start.x, wall.start.y],
+                end: [wall.end.x, wall.end.y],
+                length: wall.length,
+                thickness: wall.thickness,
+                height: wall.height,
+                baseOffset: wall.baseOffset,
+                justification: wall.justification,
+                openings: this.openings.filter(opening => opening.hostId === wall.id).map(opening => ({
+                    id: opening.id,
+                    kind: opening.kind,
+                    offset: opening.offset,
+                    width: opening.width,
+                    height: opening.height,
+                    sillHeight: opening.sillHeight
+                }))
+            };
+            model.add(mesh);
+        });
+        const rooms = this.isLayerVisible(ROOMS_LAYER_ID) ? this.rooms : [];
+        rooms.forEach(room => {
+            const slab = new Mesh(this.createRoomSlabGeometry(room), slabMaterial);
+            slab.name = room.name;
+            slab.position.y = this.levelElevation(room.levelId);
+            slab.userData = {
+                type: 'room',
+                id: room.id,
+                name: room.name,
+                level: this.levelName(room.levelId),
+                area: room.area,
+                perimeter: room.perimeter
+            };
+            model.add(slab);
+        });
+        // Exporters that read world matrices need the elevations applied
+        model.updateMatrixWorld(true);
+        return model;
+    }
+
+    // Door and window symbols in the plan, drawn over their host walls
+    private rebuildOpeningSymbols() {
+        this.openingSymbols.forEach(symbol => {
+            this.scene2D.remove(symbol);
+            this.disposeObject(symbol);
+        });
+        this.openingSymbols.clear();
+
+        this.openings.forEach(opening => {
+            const host = this.walls.find(wall => wall.id === opening.hostId);
+            if (!host || host.length === 0 || host.levelId !== this.activeLevelId) return;
+            if (!this.isLayerVisible(opening.layerId)) return;
+            const { from, to } = openingSpan(opening, host.length);
+            const { mask, lines } = openingSymbol(host, wallFaceOffsets(host), from, to, opening.kind);
+
+            // The mask hides the wall fill and centre line across the gap
+            const maskMesh = new Mesh(
+                new ShapeGeometry(this.createShapes([mask])),
+                new MeshBasicMaterial({ color: 'white', side: DoubleSide })
+            );
+            maskMesh.position.z = 0.015;
+            const symbolLines = new LineSegments(
+                new BufferGeometry().setFromPoints(lines),
+                new LineBasicMaterial({ color: opening.selected ? 0xff0000 : this.layerColor(opening.layerId, 0x000000) })
+            );
+            symbolLines.position.z = 0.016;
+
+            const symbol = new Group();
+            symbol.add(maskMesh, symbolLines);
+            symbol.userData.openingId = opening.id;
+            this.scene2D.add(symbol);
+            this.openingSymbols.set(opening.id, symbol);
+        });
+    }
+
+    // Remove every scene object and label that belongs to a wall
+    private removeWallObjects(wallId: string) {
+        this.removeDimensionLine(wallId);
+
+        const line = this.wallLines.get(wallId);
+        if (line) {
+            this.scene2D.remove(line);
+            this.disposeObject(line);
+            this.wallLines.delete(wallId);
+        }
 
-        mesh.userData.wallId = wall.id;
-        this.scene3D.add(mesh);
-        this.wallMeshes.set(wall.id, mesh);
-    }
-
-    public addWall(start: Vector3, end: Vector3): Wall {
-        const length = start.distanceTo(end);
-        const angle = Math.atan2(end.y - start.y, end.x - start.x);
-        const wall: Wall = {
-            type: 'wall',
-            start: start.clone(),
-            end: end.clone(),
-            angle,
-            length,
-            id: `wall_${this.wallCounter++}`,
-            selected: false,
-            highlighted: false
-        };
-        this.walls.push(wall);
-        this.createWallMesh2D(wall);
-        if (!this.is2D) {
-            this.createWallMesh3D(wall);
+        const mesh = this.wallMeshes.get(wallId);
+        if (mesh) {
+            this.scene2D.remove(mesh);
+            this.disposeObject(mesh);
+            this.wallMeshes.delete(wallId);
         }
-        this.updateWallList(); // Update list when wall is added
-        return wall;
+
+        const mesh3D = this.wallMeshes3D.get(wallId);
+        if (mesh3D) {
+            this.scene3D.remove(mesh3D);
+            this.disposeObject(mesh3D);
+            this.wallMeshes3D.delete(wallId);
+        }
+    }
+
+    private disposeObject(object: Object3D) {
+        object.traverse(child => {
+            if (child instanceof Mesh || child instanceof Line) {
+                child.geometry.dispose();
+                (child.material as any).dispose(); // Dispose material(s)
+            }
+        });
     }
 
-    private createWallMesh2D(wall: Wall) {
+    private createWallMesh2D(wall: Wall, polygons: Vector3[][]) {
         // Create the wall line
         const material = new LineBasicMaterial({ 
-            color: wall.selected ? 0xff0000 : (wall.highlighted ? 0x00ff00 : 0x000000),
+            color: this.wallColor(wall, 0x000000),
             linewidth: 2 // Note: linewidth only works in WebGL 2
         });
         const points = [wall.start, wall.end];
@@ -274,30 +1476,30 @@ export class Viewer {
         const line = new Line(geometry, material);
         line.userData.wallId = wall.id;
 
-        // Create a thicker wall mesh for better interaction
-        const wallThickness = 0.5; // Increased thickness for better hover detection
-        const wallLength = wall.length;
-        const wallGeometry = new BoxGeometry(wallLength, wallThickness, 0.01);
+        // Create the wall fill from its joined outline
+        const wallGeometry = new ShapeGeometry(this.createShapes(polygons));
         const wallMaterial = new MeshStandardMaterial({ 
-            color: wall.selected ? 0xff0000 : (wall.highlighted ? 0x00ff00 : 0xcccccc),
+            color: this.wallColor(wall, 0xcccccc),
             side: DoubleSide,
             transparent: true,
             opacity: 0.6 // Semi-transparent to see the line underneath
         });
         const wallMesh = new Mesh(wallGeometry, wallMaterial);
 
-        // Position and rotate the wall mesh on the XY plane, slightly above Z=0
-        const midPoint = new Vector3().addVectors(wall.start, wall.end).multiplyScalar(0.5);
-        wallMesh.position.set(midPoint.x, midPoint.y, 0.01);
-        wallMesh.rotation.z = wall.angle;
+        // Outline points are already in plan coordinates, lift slightly above Z=0
+        wallMesh.position.set(0, 0, 0.01);
         wallMesh.userData.wallId = wall.id;
 
+        line.visible = wallMesh.visible = this.isLayerVisible(wall.layerId);
         this.scene2D.add(line);
         this.scene2D.add(wallMesh);
+        this.wallLines.set(wall.id, line);
         this.wallMeshes.set(wall.id, wallMesh);
         
         // Add dimension line
-        this.createDimensionLine(wall);
+        if (line.visible) {
+            this.createDimensionLine(wall);
+        }
     }
 
     private createDimensionLine(wall: Wall) {
@@ -323,7 +1525,8 @@ export class Viewer {
 
         // Create the dimension line
         const geometry = new BufferGeometry().setFromPoints([startPoint, endPoint]);
-        const material = new LineBasicMaterial({ color: 0x000000 });
+        const color = this.layerColor(DIMENSIONS_LAYER_ID, 0x000000);
+        const material = new LineBasicMaterial({ color });
         const line = new Line(geometry, material);
         this.scene2D.add(line);
 
@@ -331,12 +1534,16 @@ export class Viewer {
         const label = document.createElement('div');
         label.style.position = 'absolute';
         label.style.backgroundColor = 'white';
-        label.style.border = '1px solid black';
+        label.style.border = `1px solid #${new Color(color).getHexString()}`;
+        label.style.color = `#${new Color(color).getHexString()}`;
         label.style.padding = '2px 5px';
         label.style.borderRadius = '3px';
         label.style.fontSize = '12px';
         label.style.pointerEvents = 'none';
         label.style.fontFamily = 'Arial, sans-serif';
+        // Rebuilds can happen while the 3D view is shown
+        line.visible = this.is2D && this.isLayerVisible(DIMENSIONS_LAYER_ID);
+        label.style.display = line.visible ? 'block' : 'none';
         this.container.appendChild(label);
 
         // Store the dimension line and label
@@ -365,7 +1572,7 @@ export class Viewer {
         // Update label position and content
         dimension.label.style.left = `${x}px`;
         dimension.label.style.top = `${y}px`;
-        dimension.label.textContent = `${wall.length.toFixed(2)}m`;
+        dimension.label.textContent = formatLength(wall.length, this.units);
     }
 
     private removeDimensionLine(wallId: string) {
@@ -379,6 +1586,72 @@ export class Viewer {
         }
     }
 
+    // Placed dimensions of the active level. Each measured value gets a
+    // label; click one to select its dimension, double-click to move it.
+    private rebuildDimensionObjects() {
+        this.dimensionObjects.forEach(object => {
+            this.scene2D.remove(object.lines);
+            this.disposeObject(object.lines);
+            object.labels.forEach(label => label.element.remove());
+        });
+        this.dimensionObjects.clear();
+        if (!this.isLayerVisible(DIMENSIONS_LAYER_ID)) return;
+
+        this.getDimensions().forEach(dimension => {
+            const graphics = dimensionGraphics(dimension, this.walls);
+            if (!graphics) return;
+            const color = new Color(dimension.selected ? 0xff0000 : this.layerColor(DIMENSIONS_LAYER_ID, 0x000000));
+            const lines = new LineSegments(
+                new BufferGeometry().setFromPoints(graphics.lines),
+                new LineBasicMaterial({ color })
+            );
+            lines.position.z = 0.02;
+            lines.visible = this.is2D; // Rebuilds can happen while the 3D view is shown
+            this.scene2D.add(lines);
+
+            const labels = graphics.texts.map(text => {
+                const element = document.createElement('div');
+                element.className = 'dimension-label';
+                element.style.color = `#${color.getHexString()}`;
+                element.style.display = this.is2D ? 'block' : 'none';
+                element.textContent = formatDimensionValue(dimension.kind, text.value, this.units);
+                element.title = 'Click to select. Double-click to move the dimension line.';
+                element.addEventListener('click', e => this.selectDimension(dimension.id, this.isAdditiveClick(e)));
+                element.addEventListener('dblclick', () => this.promptDimensionOffset(dimension.id));
+                this.container.appendChild(element);
+                return { element, position: text.position, rotation: text.rotation };
+            });
+            this.dimensionObjects.set(dimension.id, { lines, labels });
+        });
+        this.updateDimensionLabelPositions();
+    }
+
+    // Labels sit on their text positions, turned along the dimension line.
+    // Screen y points down, so plan angles are mirrored.
+    private updateDimensionLabelPositions() {
+        this.dimensionObjects.forEach(object => object.labels.forEach(label => {
+            const screenPosition = label.position.clone().project(this.camera2D);
+            label.element.style.left = `${(screenPosition.x + 1) * this.container.clientWidth / 2}px`;
+            label.element.style.top = `${(-screenPosition.y + 1) * this.container.clientHeight / 2}px`;
+            label.element.style.transform = `translate(-50%, -50%) rotate(${-label.rotation}rad)`;
+        }));
+    }
+
+    private promptDimensionOffset(id: string) {
+        const dimension = this.dimensions.find(d => d.id === id);
+        if (!dimension || !this.isLayerEditable(DIMENSIONS_LAYER_ID)) return;
+        const input = prompt(
+            dimension.kind === 'angular' ? 'Arc radius' : 'Distance of the dimension line from the first point',
+            formatLength(dimension.offset, this.units)
+        );
+        if (input === null) return;
+        try {
+            this.updateDimension(id, { offset: parseLength(input, this.units) });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    }
+
     private updateMousePosition(e: MouseEvent) {
         const rect = this.container.getBoundingClientRect();
         this.mouse.x = ((e.clientX - rect.left) / this.container.clientWidth) * 2 - 1;
@@ -399,20 +1672,288 @@ export class Viewer {
         }
     }
 
+    // World units covered by one screen pixel in the 2D view
+    private getWorldPerPixel(): number {
+        return (this.camera2D.right - this.camera2D.left) / this.camera2D.zoom / this.container.clientWidth;
+    }
+
+    // Cursor position for drawing (2D only). An object snap in range wins,
+    // otherwise ortho/polar/alignment constraints are applied.
+    // excludeIds leaves walls being edited out of snapping and alignment.
+    private getDrawingPoint(
+        start: Vector3 | null = this.isDrawing ? this.startPoint : null,
+        excludeIds: Set<string> | null = null
+    ): Vector3 | null {
+        const point = this.getIntersectionPoint();
+        if (!point || !this.is2D) {
+            this.snapMarker.hide();
+            this.guideLines.hide();
+            return point;
+        }
+        const worldPerPixel = this.getWorldPerPixel();
+        // Hidden walls and underlays are not snapped to, locked ones are
+        const levelWalls = this.levelWalls().filter(wall => this.isLayerVisible(wall.layerId));
+        const walls = excludeIds ? levelWalls.filter(wall => !excludeIds.has(wall.id)) : levelWalls;
+        // Underlays can be large, so only lines near the cursor are snap candidates
+        const snapTolerance = this.snapSettings.tolerancePx * worldPerPixel;
+        const underlay = this.isLayerVisible(UNDERLAY_LAYER_ID) ? this.underlay?.segments ?? [] : [];
+        const nearbyUnderlay = underlay.filter(line => distanceToSegment(point, line.start, line.end) <= snapTolerance);
+        const snap = findSnap(point, [...walls, ...nearbyUnderlay], worldPerPixel, this.snapSettings);
+        this.snapMarker.update(snap, worldPerPixel);
+        if (snap) {
+            this.guideLines.hide();
+            return snap.point;
+        }
+
+        const constrained = constrainPoint(start, point, [...walls, ...underlay], worldPerPixel, this.constraintSettings);
+        this.guideLines.update(constrained.guides, worldPerPixel);
+        return constrained.point;
+    }
+
+    // Snapped and constrained plan point under the cursor, for commands.
+    // from is the point tracking and ortho are measured from.
+    public getCursorPoint(from: Vector3 | null = null): Vector3 | null {
+        return this.getDrawingPoint(from);
+    }
+
+    // Show reference lines under the plan that snapping and tracking can use
+    public setUnderlay(segments: SnapSegment[]) {
+        this.clearUnderlay();
+        const points = segments.flatMap(segment => [segment.start, segment.end]);
+        const object = new LineSegments(
+            new BufferGeometry().setFromPoints(points),
+            new LineBasicMaterial({ color: this.layerColor(UNDERLAY_LAYER_ID, 0x999999) })
+        );
+        object.position.z = -0.005; // Below the walls
+        object.visible = this.isLayerVisible(UNDERLAY_LAYER_ID);
+        this.scene2D.add(object);
+        this.underlay = { segments: segments.map(s => ({ start: s.start.clone(), end: s.end.clone() })), object };
+    }
+
+    public clearUnderlay() {
+        if (!this.underlay) return;
+        this.scene2D.remove(this.underlay.object);
+        this.disposeObject(this.underlay.object);
+        this.underlay = null;
+    }
+
+    public hasUnderlay(): boolean {
+        return this.underlay !== null;
+    }
+
+    // Walls of the active level, which plan tools work on
+    public getWalls(): Wall[] {
+        return this.levelWalls();
+    }
+
+    // Wall under the cursor in the plan, for commands that pick walls
+    public pickWall(): Wall | null {
+        if (!this.is2D) return null;
+        const intersects = this.getWallIntersection();
+        if (intersects.length === 0) return null;
+        const wallId = intersects[0].object.userData.wallId;
+        return this.walls.find(wall => wall.id === wallId) ?? null;
+    }
+
+    // Visible wall end of the active level nearest the snapped cursor, within
+    // the snap tolerance, for commands that dimension wall ends
+    public pickWallEnd(): DimensionAnchor | null {
+        if (!this.is2D) return null;
+        const point = this.getCursorPoint();
+        if (!point) return null;
+        let nearest: DimensionAnchor | null = null;
+        let nearestDistance = this.snapSettings.tolerancePx * this.getWorldPerPixel();
+        this.levelWalls().filter(wall => this.isLayerVisible(wall.layerId)).forEach(wall => {
+            (['start', 'end'] as const).forEach(end => {
+                const distance = Math.hypot(wall[end].x - point.x, wall[end].y - point.y);
+                if (distance <= nearestDistance) {
+                    nearest = { wallId: wall.id, end };
+                    nearestDistance = distance;
+                }
+            });
+        });
+        return nearest;
+    }
+
+    // Cursor position on the plan without snapping
+    public getPlanPoint(): Vector3 | null {
+        return this.getIntersectionPoint();
+    }
+
+    public addPreviewObject(object: Object3D) {
+        this.scene2D.add(object);
+    }
+
+    public removePreviewObject(object: Object3D) {
+        this.scene2D.remove(object);
+    }
+
+    // Hand mouse input in the 2D view to a command until it ends
+    public startCommand(command: ICommand, prompt: string | null = null) {
+        this.cancelCommand();
+        this.cleanupDrawing();
+        this.activeCommand = command;
+        this.setCommandPrompt(prompt);
+    }
+
+    public endCommand() {
+        const command = this.activeCommand;
+        this.activeCommand = null;
+        command?.dispose?.();
+        this.snapMarker.hide();
+        this.guideLines.hide();
+        this.setCommandPrompt(null);
+    }
+
+    public cancelCommand() {
+        if (this.activeCommand) {
+            this.endCommand();
+        }
+    }
+
+    public hasActiveCommand(): boolean {
+        return this.activeCommand !== null;
+    }
+
+    // Show an instruction for the active command in place of the mode name
+    public setCommandPrompt(prompt: string | null) {
+        this.commandPrompt = prompt;
+        this.updateModeIndicator();
+    }
+
+    public setStretchConnectedWalls(enabled: boolean) {
+        this.stretchConnectedWalls = enabled;
+    }
+
+    // Apply a plan transform to walls as one undoable step. With copy, new
+    // walls are created and selected instead. Returns the transformed walls.
+    public transformWalls(ids: string[], transform: PointTransform, options: TransformOptions = {}): Wall[] {
+        const { label = 'Transform walls', copy = false, mirrored = false } = options;
+        const stretchConnected = !copy && (options.stretchConnected ?? this.stretchConnectedWalls);
+        const idSet = new Set(ids);
+        const targets = this.walls.filter(wall => idSet.has(wall.id));
+        if (targets.length === 0) return [];
+
+        // Mirroring reverses the wall direction, so one-sided walls swap sides
+        const flipJustification = (wall: Wall) => mirrored
+            ? (wall.justification === 'left' ? 'right' : wall.justification === 'right' ? 'left' : 'center')
+            : wall.justification;
+
+        return this.transaction(label, () => {
+            if (copy) {
+                const copies = this.addWalls(targets.map(wall => ({
+                    start: transform(wall.start),
+                    end: transform(wall.end),
+                    thickness: wall.thickness,
+                    height: wall.height,
+                    baseOffset: wall.baseOffset,
+                    justification: flipJustification(wall),
+                    levelId: options.levelId ?? wall.levelId,
+                    layerId: wall.layerId
+                })));
+                // Copies get copies of the originals' openings
+                const openingCopies = targets.flatMap((wall, i) => this.openings
+                    .filter(opening => opening.hostId === wall.id)
+                    .map((opening): Opening => ({
+                        ...opening,
+                        id: `opening_${this.openingCounter++}`,
+                        hostId: copies[i].id,
+                        selected: false
+                    })));
+                if (openingCopies.length > 0) {
+                    this.openings.push(...openingCopies);
+                    this.rebuildWallObjects();
+                }
+                this.setSelection(copies.map(wall => wall.id));
+                return copies;
+            }
+
+            const movedEnds = targets.flatMap(wall => [wall.start.clone(), wall.end.clone()]);
+            targets.forEach(wall => {
+                wall.start.copy(transform(wall.start));
+                wall.end.copy(transform(wall.end));
+                wall.justification = flipJustification(wall);
+            });
+
+            // Walls on locked or hidden layers are not stretched
+            if (stretchConnected) {
+                const tolerance = 1e-6;
+                const levelIds = new Set(targets.map(wall => wall.levelId));
+                this.walls.filter(wall =>
+                    !idSet.has(wall.id) && levelIds.has(wall.levelId) && this.isWallEditable(wall.id)
+                ).forEach(wall => {
+                    [wall.start, wall.end].forEach(point => {
+                        if (movedEnds.some(end => end.distanceTo(point) < tolerance)) {
+                            point.copy(transform(point));
+                        }
+                    });
+                });
+            }
+
+            this.walls.forEach(wall => {
+                wall.length = wall.start.distanceTo(wall.end);
+                wall.angle = Math.atan2(wall.end.y - wall.start.y, wall.end.x - wall.start.x);
+            });
+            this.rebuildWallObjects();
+            return targets;
+        });
+    }
+
+    public getConstraintSettings(): ConstraintSettings {
+        return this.constraintSettings;
+    }
+
+    public setOrtho(enabled: boolean) {
+        this.constraintSettings.ortho = enabled;
+    }
+
+    public setPolarTracking(enabled: boolean, incrementDeg?: number) {
+        this.constraintSettings.polar = enabled;
+        if (incrementDeg !== undefined && incrementDeg > 0) {
+            this.constraintSettings.polarIncrementDeg = incrementDeg;
+        }
+    }
+
+    public setAlignmentTracking(enabled: boolean) {
+        this.constraintSettings.alignment = enabled;
+    }
+
+    public getSnapSettings(): SnapSettings {
+        return this.snapSettings;
+    }
+
+    public setSnapEnabled(type: SnapType, enabled: boolean) {
+        this.snapSettings.enabled[type] = enabled;
+    }
+
+    public setSnapTolerance(pixels: number) {
+        this.snapSettings.tolerancePx = Math.max(0, pixels);
+    }
+
     private getWallIntersection(): any[] {
         this.raycaster.setFromCamera(this.mouse, this.is2D ? this.camera2D : this.camera3D);
-        const wallObjects = Array.from(this.wallMeshes.values());
-        return this.raycaster.intersectObjects(wallObjects);
+        if (!this.is2D) {
+            return this.raycaster.intersectObjects(
+                Array.from(this.wallMeshes3D.values()).filter(object => this.isWallEditable(object.userData.wallId))
+            );
+        }
+        // Thin walls are hard to hit, so the centre lines also pick within a few pixels
+        this.raycaster.params.Line.threshold = PICK_TOLERANCE_PX * this.getWorldPerPixel();
+        const wallObjects = [...this.wallMeshes.values(), ...this.wallLines.values()];
+        return this.raycaster.intersectObjects(wallObjects.filter(object => this.isWallEditable(object.userData.wallId)));
     }
 
     private animate() {
         requestAnimationFrame(this.animate.bind(this));
         
-        // Update dimension labels if in 2D mode
+        // Update dimension labels and grip sizes if in 2D mode
         if (this.is2D) {
             this.walls.forEach(wall => {
                 this.updateDimensionLabel(wall);
             });
+            this.updateRoomLabelPositions();
+            this.updateDimensionLabelPositions();
+            this.gripHandles.setScale(this.getWorldPerPixel());
         }
         
         this.renderer.render(this.is2D ? this.scene2D : this.scene3D, this.is2D ? this.camera2D : this.camera3D);
@@ -448,10 +1989,12 @@ export class Viewer {
         if (this.is2D) {
             let targetBox: Box2;
 
-            if (this.walls.length > 0) {
-                // Calculate bounding box of all walls in 2D
+            const underlay = this.underlay?.segments ?? [];
+            const walls = this.levelWalls();
+            if (walls.length > 0 || underlay.length > 0) {
+                // Calculate bounding box of the level's walls and underlay lines in 2D
                 const positions: Vector3[] = [];
-                this.walls.forEach(wall => {
+                [...walls, ...underlay].forEach(wall => {
                     positions.push(wall.start, wall.end);
                 });
                 targetBox = new Box2().setFromPoints(positions.map(p => new Vector2(p.x, p.y)));
@@ -508,7 +2051,7 @@ export class Viewer {
 
         } else { // 3D view
             const positions: Vector3[] = [];
-            this.wallMeshes.forEach(mesh => {
+            this.wallMeshes3D.forEach(mesh => {
                 if (mesh instanceof Mesh) {
                     const geometry = mesh.geometry;
                     const position = geometry.attributes.position;
@@ -551,29 +2094,96 @@ export class Viewer {
         this.updateWallList(); // Always update the list to reflect highlight state changes
     }
 
-    private selectWall(id: string) {
-        // Clear current selection first
-        this.clearWallStates();
+    // Select a single wall, or with toggle add/remove it from the selection.
+    // Walls on locked or hidden layers can't be selected.
+    private selectWall(id: string, toggle: boolean = false) {
+        if (!this.isWallEditable(id)) return;
+        if (!toggle) {
+            this.setSelection([id]);
+            return;
+        }
+        const wall = this.walls.find(w => w.id === id);
+        if (!wall) return;
+        wall.selected = !wall.selected;
+        this.updateWallAppearance(id);
+        this.updateWallList(); // Always update the list to reflect select state changes
+    }
+
+    // Select a single opening, or with toggle add/remove it from the selection
+    private selectOpening(id: string, toggle: boolean = false) {
+        const opening = this.openings.find(o => o.id === id);
+        if (!opening || !this.isLayerEditable(opening.layerId)) return;
+        if (!toggle) {
+            this.setSelection([]);
+        }
+        opening.selected = toggle ? !opening.selected : true;
+        this.rebuildOpeningSymbols();
+        this.updateWallList();
+    }
 
+    public getSelectedOpenings(): Opening[] {
+        return this.openings.filter(opening => opening.selected);
+    }
+
+    // Select a single dimension, or with toggle add/remove it from the selection.
+    // Dimensions can't be selected while their layer is locked or hidden.
+    private selectDimension(id: string, toggle: boolean = false) {
+        const dimension = this.dimensions.find(d => d.id === id);
+        if (!dimension || this.activeCommand || !this.isLayerEditable(DIMENSIONS_LAYER_ID)) return;
+        if (!toggle) {
+            this.setSelection([]);
+        }
+        dimension.selected = toggle ? !dimension.selected : true;
+        this.rebuildDimensionObjects();
+    }
+
+    public getSelectedDimensions(): Dimension[] {
+        return this.dimensions.filter(dimension => dimension.selected);
+    }
+
+    private clearDimensionSelection() {
+        if (!this.dimensions.some(dimension => dimension.selected)) return;
+        this.dimensions.forEach(dimension => dimension.selected = false);
+        this.rebuildDimensionObjects();
+    }
+
+    private clearOpeningSelection() {
+        if (!this.openings.some(opening => opening.selected)) return;
+        this.openings.forEach(opening => opening.selected = false);
+        this.rebuildOpeningSymbols();
+    }
+
+    // Make the given walls the selection, or with additive add them to it
+    private setSelection(ids: string[], additive: boolean = false) {
+        if (!additive) {
+            this.clearOpeningSelection();
+            this.clearDimensionSelection();
+        }
+        const idSet = new Set(ids);
         this.walls.forEach(wall => {
-            if (wall.id === id) {
-                wall.selected = true;
-                this.selectedWall = id; // Keep track of the selected wall ID
-            } else {
-                wall.selected = false;
-            }
-             // Update appearance for all walls to reflect cleared state and new selection
+            wall.selected = idSet.has(wall.id) || (additive && !!wall.selected);
+            wall.highlighted = false;
+            // Update appearance for all walls to reflect cleared state and new selection
             this.updateWallAppearance(wall.id);
         });
         this.updateWallList(); // Always update the list to reflect select state changes
     }
 
+    public getSelectedWalls(): Wall[] {
+        return this.walls.filter(wall => wall.selected);
+    }
+
+    public selectAllWalls() {
+        this.setSelection(this.levelWalls().filter(wall => this.isWallEditable(wall.id)).map(wall => wall.id));
+    }
+
     private clearWallStates() {
         this.walls.forEach(wall => {
             wall.selected = false;
             wall.highlighted = false;
         });
-        this.selectedWall = null; // Clear selected wall ID
+        this.clearOpeningSelection();
+        this.clearDimensionSelection();
 
          // Update appearances for all walls
         this.walls.forEach(wall => this.updateWallAppearance(wall.id));
@@ -582,10 +2192,21 @@ export class Viewer {
 
     private updateWallAppearance(id: string) {
         const wall = this.walls.find(w => w.id === id);
+        if (!wall) return;
         const mesh = this.wallMeshes.get(id);
-        if (wall && mesh && mesh instanceof Mesh) {
+        if (mesh && mesh instanceof Mesh) {
             const material = mesh.material as MeshStandardMaterial;
-            material.color.setHex(wall.selected ? 0xff0000 : (wall.highlighted ? 0x00ff00 : 0xcccccc));
+            material.color.set(this.wallColor(wall, 0xcccccc));
+        }
+        const line = this.wallLines.get(id);
+        if (line) {
+            (line.material as LineBasicMaterial).color.set(this.wallColor(wall, 0x000000));
+        }
+        // The 3D mesh is textured, so white leaves the brick colours untouched
+        const mesh3D = this.wallMeshes3D.get(id);
+        if (mesh3D && mesh3D instanceof Mesh) {
+            const material = mesh3D.material as MeshStandardMaterial;
+            material.color.set(this.wallColor(wall, 0xffffff));
         }
     }
 
@@ -596,16 +2217,36 @@ export class Viewer {
         // Clear current list
         this.wallListElement.innerHTML = '';
 
-        // Populate list with walls
-        this.walls.forEach(wall => {
+        // Populate list with the walls of the active level
+        this.levelWalls().forEach(wall => {
             const listItem = document.createElement('li');
-            listItem.textContent = `Wall ${wall.id.split('_')[1]} (Length: ${wall.length.toFixed(2)}m)`;
+            listItem.textContent = `Wall ${wall.id.split('_')[1] ?? wall.id} (Length: ${formatLength(wall.length, this.units)})`;
             listItem.dataset.wallId = wall.id; // Store wall id in data attribute
              if (wall.selected) {
                 listItem.classList.add('selected');
             }
             this.wallListElement!.appendChild(listItem);
+
+            // Hosted openings are listed under their wall
+            this.openings.filter(opening => opening.hostId === wall.id).forEach(opening => {
+                const openingItem = document.createElement('li');
+                openingItem.className = 'opening-item';
+                const name = opening.kind === 'door' ? 'Door' : 'Window';
+                openingItem.textContent = `${name} ${opening.id.split('_')[1] ?? opening.id} ` +
+                    `(${formatLength(opening.width, this.units)} x ${formatLength(opening.height, this.units)})`;
+                openingItem.dataset.openingId = opening.id;
+                if (opening.selected) {
+                    openingItem.classList.add('selected');
+                }
+                this.wallListElement!.appendChild(openingItem);
+            });
         });
+
+        // Keep the properties panel and grips on the selection
+        if (this.propertiesPanel) {
+            this.propertiesPanel.show(this.getSelectedWalls(), this.units);
+        }
+        this.updateGrips();
     }
 
      private onWallListItemMouseOver(e: MouseEvent) {
@@ -618,9 +2259,10 @@ export class Viewer {
     private onWallListItemMouseOut(e: MouseEvent) {
          const target = e.target as HTMLElement;
         if (target.tagName === 'LI' && target.dataset.wallId) {
-             // Only clear highlight if it's not the selected wall
-            if (this.selectedWall !== target.dataset.wallId) {
-                 this.walls.find(wall => wall.id === target.dataset.wallId)!.highlighted = false;
+             // Only clear highlight if it's not a selected wall
+            const wall = this.walls.find(wall => wall.id === target.dataset.wallId);
+            if (wall && !wall.selected) {
+                 wall.highlighted = false;
                  this.updateWallAppearance(target.dataset.wallId);
                  this.updateWallList();
             }
@@ -630,19 +2272,24 @@ export class Viewer {
     private onWallListItemClick(e: MouseEvent) {
         const target = e.target as HTMLElement;
         if (target.tagName === 'LI' && target.dataset.wallId) {
-            this.selectWall(target.dataset.wallId);
+            this.selectWall(target.dataset.wallId, this.isAdditiveClick(e));
+        } else if (target.tagName === 'LI' && target.dataset.openingId) {
+            this.selectOpening(target.dataset.openingId, this.isAdditiveClick(e));
         }
     }
 
     private onMouseDown(e: MouseEvent) {
+        // Ignore clicks on overlays inside the container (e.g. the length input)
+        if (e.target !== this.renderer.domElement) return;
+
         if (!this.is2D) { // Handle interactions in 3D view
             this.updateMousePosition(e);
             const intersects = this.getWallIntersection();
 
             if (intersects.length > 0) {
                 const wallId = intersects[0].object.userData.wallId;
-                this.selectWall(wallId);
-            } else {
+                this.selectWall(wallId, this.isAdditiveClick(e));
+            } else if (!this.isAdditiveClick(e)) {
                 this.clearWallStates();
             }
             return;
@@ -651,12 +2298,18 @@ export class Viewer {
         // Update mouse position
         this.updateMousePosition(e);
 
+        // An active command takes all input
+        if (this.activeCommand) {
+            this.activeCommand.onMouseDown(e);
+            return;
+        }
+
         // Handle based on current mode
         if (this.isDrawingMode) {
             // Drawing mode behavior
             if (e.button !== 0) return; // Only handle left click for drawing
 
-            const intersection = this.getIntersectionPoint();
+            const intersection = this.getDrawingPoint();
             if (!intersection) return;
 
             if (!this.isDrawing) {
@@ -671,45 +2324,33 @@ export class Viewer {
                 this.scene2D.add(this.previewLine);
             } else {
                 // Second click: End drawing and create wall
-                const endPoint = intersection;
-                this.addWall(this.startPoint!, endPoint);
-
-                // Clean up preview line
-                if (this.previewLine) {
-                    this.scene2D.remove(this.previewLine);
-                    this.previewLine.geometry.dispose();
-                    (this.previewLine.material as LineBasicMaterial).dispose();
-                    this.previewLine = null;
-                }
-
-                // If Shift is held, start a new wall from the end of the last one
-                if (e.shiftKey) {
-                    this.startPoint = endPoint;
-                    const geometry = new BufferGeometry().setFromPoints([this.startPoint, this.startPoint]);
-                    const material = new LineBasicMaterial({ color: 0x0000ff });
-                    this.previewLine = new Line(geometry, material);
-                    this.scene2D.add(this.previewLine);
-                } else {
-                    this.isDrawing = false;
-                    this.startPoint = null;
-                }
+                this.placeWallEnd(intersection, e.shiftKey);
             }
         } else {
-            // Selection mode behavior
+            // Selection mode behavior: drag a grip of a selected wall, or
+            // click/drag a selection box, resolved on mouse up
             if (e.button === 0) { // Left click
-                const intersects = this.getWallIntersection();
-                if (intersects.length > 0) {
-                    const wallId = intersects[0].object.userData.wallId;
-                    this.selectWall(wallId);
-                } else {
-                    this.clearWallStates();
+                const cursor = this.is2D ? this.getIntersectionPoint() : null;
+                const grip = cursor && findGrip(
+                    this.gripHandles.getGrips(), cursor, this.gripHandles.hitTolerance(this.getWorldPerPixel())
+                );
+                if (grip) {
+                    this.startGripDrag(grip);
+                    return;
                 }
+                this.selectionBox = { clientX: e.clientX, clientY: e.clientY, additive: this.isAdditiveClick(e) };
             }
         }
     }
 
     private onMouseMove(e: MouseEvent) {
         this.updateMousePosition(e);
+        this.updateSelectionBox(e);
+
+        if (this.gripDrag) {
+            this.updateGripDrag();
+            return;
+        }
 
         // Handle wall highlighting in 2D view (always active)
         if (this.is2D) {
@@ -722,10 +2363,16 @@ export class Viewer {
             }
         }
 
-        // Handle preview line update during drawing
-        if (this.is2D && this.isDrawingMode && this.isDrawing && this.startPoint && this.previewLine) {
-            const intersection = this.getIntersectionPoint();
-            if (intersection) {
+        if (this.is2D && this.activeCommand) {
+            this.activeCommand.onMouseMove(e);
+            return;
+        }
+
+        // Handle snap marker and preview line update during drawing
+        if (this.is2D && this.isDrawingMode) {
+            const intersection = this.getDrawingPoint();
+            this.lastDrawingPoint = intersection;
+            if (intersection && this.isDrawing && this.startPoint && this.previewLine) {
                 const positions = (this.previewLine.geometry.attributes.position as any).array;
                 positions[3] = intersection.x;
                 positions[4] = intersection.y;
@@ -735,31 +2382,274 @@ export class Viewer {
         }
     }
 
+    // Finish the wall being drawn at endPoint. With chain set (Shift held),
+    // a new wall starts from the end of the last one.
+    private placeWallEnd(endPoint: Vector3, chain: boolean) {
+        if (!this.startPoint) return;
+        this.addWall(this.startPoint, endPoint);
+
+        // Clean up preview line
+        if (this.previewLine) {
+            this.scene2D.remove(this.previewLine);
+            this.previewLine.geometry.dispose();
+            (this.previewLine.material as LineBasicMaterial).dispose();
+            this.previewLine = null;
+        }
+
+        if (chain) {
+            this.startPoint = endPoint.clone();
+            const geometry = new BufferGeometry().setFromPoints([this.startPoint, this.startPoint]);
+            const material = new LineBasicMaterial({ color: 0x0000ff });
+            this.previewLine = new Line(geometry, material);
+            this.scene2D.add(this.previewLine);
+        } else {
+            this.isDrawing = false;
+            this.startPoint = null;
+        }
+    }
+
+    private onKeyDown(e: KeyboardEvent) {
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+        // Escape cancels the active command
+        if (e.key === 'Escape' && this.activeCommand) {
+            this.cancelCommand();
+            return;
+        }
+
+        // Typing a digit after the first click opens the length input
+        if (!this.is2D || !this.isDrawing || !startsLengthInput(e.key)) return;
+
+        e.preventDefault();
+        this.showLengthInput(e.key);
+    }
+
+    private createLengthInput(): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'length-input';
+        input.placeholder = 'length<angle';
+        input.style.display = 'none';
+        input.addEventListener('keydown', this.onLengthInputKeyDown.bind(this));
+        input.addEventListener('blur', () => this.hideLengthInput());
+        return input;
+    }
+
+    private showLengthInput(initialText: string) {
+        // Place the input just below and right of the cursor
+        const x = (this.mouse.x + 1) * this.container.clientWidth / 2;
+        const y = (-this.mouse.y + 1) * this.container.clientHeight / 2;
+        this.lengthInput.style.left = `${x + 16}px`;
+        this.lengthInput.style.top = `${y + 16}px`;
+        this.lengthInput.style.display = 'block';
+        this.lengthInput.classList.remove('invalid');
+        this.lengthInput.value = initialText;
+        this.lengthInput.focus();
+    }
+
+    private hideLengthInput() {
+        this.lengthInput.style.display = 'none';
+        this.lengthInput.value = '';
+    }
+
+    private onLengthInputKeyDown(e: KeyboardEvent) {
+        // Keep editor shortcuts (mode toggle, undo...) away from the text field
+        e.stopPropagation();
+
+        if (e.key === 'Escape') {
+            this.hideLengthInput();
+            return;
+        }
+        if (e.key !== 'Enter') {
+            this.lengthInput.classList.remove('invalid');
+            return;
+        }
+
+        e.preventDefault();
+        if (!this.isDrawing || !this.startPoint) {
+            this.hideLengthInput();
+            return;
+        }
+
+        try {
+            const { length, angleDeg } = parseLengthAngle(this.lengthInput.value, this.units);
+            const start = this.startPoint;
+
+            // Without an angle, follow the direction the preview line points in
+            let angle = 0;
+            if (angleDeg !== null) {
+                angle = angleDeg * Math.PI / 180;
+            } else if (this.lastDrawingPoint && this.lastDrawingPoint.distanceTo(start) > 1e-9) {
+                angle = Math.atan2(this.lastDrawingPoint.y - start.y, this.lastDrawingPoint.x - start.x);
+            }
+
+            const endPoint = new Vector3(
+                start.x + Math.cos(angle) * length,
+                start.y + Math.sin(angle) * length,
+                0
+            );
+            this.hideLengthInput();
+            // Shift+Enter keeps chaining walls, like Shift-click
+            this.placeWallEnd(endPoint, e.shiftKey);
+        } catch (error) {
+            if (!(error instanceof InputParseError)) throw error;
+            this.lengthInput.classList.add('invalid');
+            this.lengthInput.title = error.message;
+        }
+    }
+
     private onMouseUp(e: MouseEvent) {
         // Mouse up is not used for drawing in the two-click method
-        // Keep for potential other interactions like selection drag
+        if (this.is2D && this.activeCommand) {
+            this.activeCommand.onMouseUp(e);
+            return;
+        }
+        if (e.button === 0 && this.gripDrag) {
+            this.finishGripDrag();
+            return;
+        }
+        if (e.button === 0 && this.selectionBox) {
+            this.finishSelectionBox(e);
+        }
     }
 
-    // New method to clear all walls
-    public clearAllWalls() {
-        // Remove all dimension lines
-        this.dimensionLines.forEach((dimension, wallId) => {
-            this.removeDimensionLine(wallId);
+    // Show grips on the selected walls
+    private updateGrips() {
+        if (this.gripDrag) return; // Grips follow the drag via rebuilds
+        this.gripHandles.setGrips(gripsForWalls(this.getSelectedWalls()));
+        this.gripHandles.setScale(this.getWorldPerPixel());
+    }
+
+    // Walls with an end at point
+    private wallsEndingAt(point: Vector3, tolerance: number = 1e-6): Wall[] {
+        return this.levelWalls().filter(wall =>
+            wall.start.distanceTo(point) < tolerance || wall.end.distanceTo(point) < tolerance
+        );
+    }
+
+    private startGripDrag(grip: Grip) {
+        const wall = this.walls.find(w => w.id === grip.wallId);
+        if (!wall) return;
+
+        // An end grip reshapes every wall meeting at that point, a mid grip
+        // translates its wall. Ortho/tracking work from the fixed point.
+        // Walls on locked or hidden layers keep their ends
+        const edited = grip.kind === 'mid' ? [wall] : this.wallsEndingAt(grip.point).filter(w => this.isWallEditable(w.id));
+        const anchor = grip.kind === 'start' ? wall.end : grip.kind === 'end' ? wall.start : grip.point;
+        this.gripDrag = {
+            grip,
+            last: grip.point.clone(),
+            anchor: anchor.clone(),
+            excludeIds: new Set(edited.map(w => w.id))
+        };
+        this.beginTransaction(grip.kind === 'mid' ? 'Move wall' : 'Move wall end');
+    }
+
+    private updateGripDrag() {
+        const drag = this.gripDrag!;
+        const point = this.getDrawingPoint(drag.anchor, drag.excludeIds);
+        if (!point || point.distanceTo(drag.last) < 1e-9) return;
+
+        if (drag.grip.kind === 'mid') {
+            this.transformWalls([drag.grip.wallId], translation(drag.last, point));
+        } else {
+            this.moveWallEnds(drag.excludeIds, drag.last, point);
+        }
+        drag.last = point;
+    }
+
+    private finishGripDrag() {
+        this.gripDrag = null;
+        this.snapMarker.hide();
+        this.guideLines.hide();
+        this.commitTransaction();
+        this.updateGrips();
+    }
+
+    // Move the ends at from of the given walls to to, keeping them joined.
+    // Other walls that end there, e.g. after snapping onto them, stay put.
+    private moveWallEnds(ids: Set<string>, from: Vector3, to: Vector3) {
+        this.transaction('Move wall end', () => {
+            this.levelWalls().filter(wall => ids.has(wall.id) && this.isWallEditable(wall.id)).forEach(wall => {
+                const oldStart = wall.start.clone();
+                const oldEnd = wall.end.clone();
+                [wall.start, wall.end].forEach(point => {
+                    if (point.distanceTo(from) < 1e-6) {
+                        point.set(to.x, to.y, point.z);
+                    }
+                });
+                wall.length = wall.start.distanceTo(wall.end);
+                wall.angle = Math.atan2(wall.end.y - wall.start.y, wall.end.x - wall.start.x);
+                this.keepOpeningsInPlace(wall, oldStart, oldEnd);
+            });
+            this.rebuildWallObjects();
         });
-        
-        // Remove all wall meshes from both scenes
-        this.wallMeshes.forEach(mesh => {
-            this.scene2D.remove(mesh);
-            this.scene3D.remove(mesh);
-            if (mesh instanceof Mesh) {
-                 mesh.geometry.dispose();
-                 (mesh.material as any).dispose(); // Dispose material(s)
+    }
+
+    // Ctrl/Shift (Cmd on macOS) add to or toggle the selection
+    private isAdditiveClick(e: MouseEvent): boolean {
+        return e.ctrlKey || e.shiftKey || e.metaKey;
+    }
+
+    // Plan point under a client (page) position
+    private clientToPlan(clientX: number, clientY: number): Vector2 {
+        const rect = this.container.getBoundingClientRect();
+        const point = new Vector3(
+            ((clientX - rect.left) / this.container.clientWidth) * 2 - 1,
+            -((clientY - rect.top) / this.container.clientHeight) * 2 + 1,
+            0.5
+        ).unproject(this.camera2D);
+        return new Vector2(point.x, point.y);
+    }
+
+    private updateSelectionBox(e: MouseEvent) {
+        if (!this.selectionBox) return;
+        const rect = this.container.getBoundingClientRect();
+        const { clientX, clientY } = this.selectionBox;
+        if (Math.hypot(e.clientX - clientX, e.clientY - clientY) < CLICK_DRAG_THRESHOLD_PX) {
+            this.selectionBoxElement.style.display = 'none';
+            return;
+        }
+        const mode = boxSelectionMode(clientX, e.clientX);
+        this.selectionBoxElement.className = `selection-box ${mode}`;
+        this.selectionBoxElement.style.left = `${Math.min(clientX, e.clientX) - rect.left}px`;
+        this.selectionBoxElement.style.top = `${Math.min(clientY, e.clientY) - rect.top}px`;
+        this.selectionBoxElement.style.width = `${Math.abs(e.clientX - clientX)}px`;
+        this.selectionBoxElement.style.height = `${Math.abs(e.clientY - clientY)}px`;
+        this.selectionBoxElement.style.display = 'block';
+    }
+
+    private finishSelectionBox(e: MouseEvent) {
+        const { clientX, clientY, additive } = this.selectionBox!;
+        this.selectionBox = null;
+        this.selectionBoxElement.style.display = 'none';
+
+        if (Math.hypot(e.clientX - clientX, e.clientY - clientY) < CLICK_DRAG_THRESHOLD_PX) {
+            // A plain click picks the wall under the cursor
+            this.updateMousePosition(e);
+            const intersects = this.getWallIntersection();
+            if (intersects.length > 0) {
+                this.selectWall(intersects[0].object.userData.wallId, additive);
+            } else if (!additive) {
+                this.clearWallStates();
             }
-        });
-        this.wallMeshes.clear();
+            return;
+        }
 
-        // Clear the walls array
-        this.walls = [];
+        const box = new Box2().setFromPoints([
+            this.clientToPlan(clientX, clientY),
+            this.clientToPlan(e.clientX, e.clientY)
+        ]);
+        const mode = boxSelectionMode(clientX, e.clientX);
+        const walls = this.levelWalls().filter(wall => this.isWallEditable(wall.id));
+        this.setSelection(wallsInBox(walls, box, mode).map(wall => wall.id), additive);
+    }
+
+    // New method to clear all walls
+    public clearAllWalls() {
+        // Walls of every level, with the openings and dimensions they carry
+        this.removeWalls(this.walls.map(wall => wall.id), 'Clear all walls');
 
         // Clear the wall list
         this.updateWallList();
@@ -773,29 +2663,10 @@ export class Viewer {
 
     // New method to delete selected walls
     public deleteSelectedWalls() {
-        const wallsToDelete = this.walls.filter(wall => wall.selected);
-
-        wallsToDelete.forEach(wall => {
-            // Remove dimension line
-            this.removeDimensionLine(wall.id);
-            
-            // Remove mesh from scenes and dispose
-            const mesh = this.wallMeshes.get(wall.id);
-            if (mesh) {
-                this.scene2D.remove(mesh);
-                this.scene3D.remove(mesh);
-                if (mesh instanceof Mesh) {
-                    mesh.geometry.dispose();
-                    (mesh.material as any).dispose(); // Dispose material(s)
-                }
-                this.wallMeshes.delete(wall.id);
-            }
-
-            // Remove wall from the walls array
-            const index = this.walls.indexOf(wall);
-            if (index !== -1) {
-                this.walls.splice(index, 1);
-            }
+        this.transaction('Delete selection', () => {
+            this.removeOpenings(this.getSelectedOpenings().map(opening => opening.id));
+            this.removeDimensions(this.getSelectedDimensions().map(dimension => dimension.id));
+            this.removeWalls(this.getSelectedWalls().map(wall => wall.id));
         });
 
         // Clear selection state and update list
@@ -806,6 +2677,21 @@ export class Viewer {
         this.zoomExtend();
     }
 
+    public removeWalls(ids: string[], label: string = 'Delete walls') {
+        const idSet = new Set(ids);
+        this.transaction(label, () => {
+            // Remove meshes, line and dimension line from scenes and dispose
+            ids.forEach(id => this.removeWallObjects(id));
+            this.walls = this.walls.filter(wall => !idSet.has(wall.id));
+            // Hosted openings and dimensions of their ends go with their walls
+            this.openings = this.openings.filter(opening => !idSet.has(opening.hostId));
+            this.dimensions = this.dimensions.filter(dimension =>
+                !dimension.anchors.some(anchor => idSet.has(anchor.wallId)));
+            // Walls that were joined to the deleted ones need new ends
+            this.rebuildWallObjects();
+        });
+    }
+
     private clearHighlight() {
         this.walls.forEach(wall => {
             if (wall.highlighted && !wall.selected) {
@@ -841,6 +2727,9 @@ export class Viewer {
             (this.previewLine.material as LineBasicMaterial).dispose();
             this.previewLine = null;
         }
+        this.snapMarker.hide();
+        this.guideLines.hide();
+        this.hideLengthInput();
         this.isDrawing = false;
         this.startPoint = null;
     }
@@ -864,7 +2753,7 @@ export class Viewer {
     private updateModeIndicator() {
         const text = this.modeIndicator.querySelector('span');
         if (text) {
-            text.textContent = this.isDrawingMode ? 'Drawing Mode' : 'Selection Mode';
+            text.textContent = this.commandPrompt ?? (this.isDrawingMode ? 'Drawing Mode' : 'Selection Mode');
         }
         this.modeIndicator.className = `mode-indicator ${this.isDrawingMode ? 'drawing-mode' : 'selection-mode'}`;
     }
@@ -0,0 +1,114 @@
+import { BufferGeometry, LineBasicMaterial, LineSegments, type Vector3 } from 'three';
+import type { Viewer, Wall } from '../Viewer';
+import type { ICommand } from './ICommand';
+import type { DimensionAnchor } from '../model/Dimension';
+import { angleVertex, angularDimensionGraphics } from '../geometry/DimensionGeometry';
+import { distance2D } from '../geometry/Segment2D';
+
+interface AnglePick {
+    wall: Wall;
+    point: Vector3;
+}
+
+// Dimensions the angle between two walls. Each wall is picked on the side
+// of their corner to measure, then a click sets the radius of the arc.
+export class AngularDimensionCommand implements ICommand {
+    viewer: Viewer;
+    picks: AnglePick[] = [];
+    preview: LineSegments | null = null;
+
+    constructor(viewer: Viewer) {
+        this.viewer = viewer;
+    }
+
+    get prompt(): string {
+        return 'Angle dimension: pick first wall';
+    }
+
+    onMouseDown(e: MouseEvent) {
+        if (e.button !== 0) return; // Only handle left click
+
+        if (this.picks.length === 2) {
+            this.execute();
+            return;
+        }
+        const wall = this.viewer.pickWall();
+        const point = this.viewer.getPlanPoint();
+        if (!wall || !point || this.picks.some(pick => pick.wall.id === wall.id)) return;
+
+        if (this.picks.length === 1 && !angleVertex(this.picks[0].wall, wall)) {
+            this.viewer.setCommandPrompt('Angle dimension: walls are parallel, pick another wall');
+            return;
+        }
+        this.picks.push({ wall, point });
+        this.viewer.setCommandPrompt(this.picks.length === 1
+            ? 'Angle dimension: pick second wall'
+            : 'Angle dimension: place the arc');
+    }
+
+    onMouseMove(_e: MouseEvent) {
+        this.updatePreview();
+    }
+
+    onMouseUp(_e: MouseEvent) {
+        // Picks happen on mouse down
+    }
+
+    execute() {
+        const radius = this.radius();
+        const anchors = this.anchors();
+        if (radius !== null && radius > 0 && anchors) {
+            this.viewer.addDimension('angular', anchors, radius);
+        }
+        this.viewer.endCommand();
+    }
+
+    // Called by the viewer when the command ends or is cancelled
+    dispose() {
+        this.removePreview();
+    }
+
+    // The end of each wall on the side of the corner it was picked on
+    private anchors(): DimensionAnchor[] | null {
+        if (this.picks.length < 2) return null;
+        const vertex = angleVertex(this.picks[0].wall, this.picks[1].wall);
+        if (!vertex) return null;
+        return this.picks.map(({ wall, point }): DimensionAnchor => {
+            const alongWall = (p: Vector3) =>
+                (p.x - vertex.x) * (wall.end.x - wall.start.x) + (p.y - vertex.y) * (wall.end.y - wall.start.y);
+            return { wallId: wall.id, end: alongWall(point) >= 0 ? 'end' : 'start' };
+        });
+    }
+
+    // Distance from the corner to the cursor
+    private radius(): number | null {
+        const cursor = this.viewer.getPlanPoint();
+        if (this.picks.length < 2 || !cursor) return null;
+        const vertex = angleVertex(this.picks[0].wall, this.picks[1].wall);
+        return vertex ? distance2D(vertex, cursor) : null;
+    }
+
+    private updatePreview() {
+        this.removePreview();
+        const radius = this.radius();
+        const anchors = this.anchors();
+        if (radius === null || !anchors) return;
+        const [a, b] = this.picks.map(({ wall }, i) => ({ ...wall, point: wall[anchors[i].end] }));
+        const graphics = angularDimensionGraphics(a, b, radius);
+        if (!graphics) return;
+
+        this.preview = new LineSegments(
+            new BufferGeometry().setFromPoints(graphics.lines),
+            new LineBasicMaterial({ color: 0x0088ff })
+        );
+        this.viewer.addPreviewObject(this.preview);
+    }
+
+    private removePreview() {
+        if (!this.preview) return;
+        this.viewer.removePreviewObject(this.preview);
+        this.preview.geometry.dispose();
+        (this.preview.material as LineBasicMaterial).dispose();
+        this.preview = null;
+    }
+}
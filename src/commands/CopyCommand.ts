@@ -0,0 +1,10 @@
+import { MoveCommand } from './MoveCommand';
+
+// Like Move, but leaves the originals in place and transforms new copies
+export class CopyCommand extends MoveCommand {
+    readonly name: string = 'Copy';
+
+    get copy(): boolean {
+        return true;
+    }
+}
@@ -20,8 +20,7 @@ export class CreateWallCommand implements ICommand {
         if (e.button !== 0) return; // Only handle left click
 
         if (this.drawing && this.startPoint) {
-            const endPoint = this.document.unproject(new Vector3(this.mouse.x, this.mouse.y, 0));
-            this.endPoint = endPoint;
+            this.endPoint = this.getCursorPoint();
 
             if (this.previewWall) {
                 this.document.removeObject(this.previewWall);
@@ -52,7 +51,7 @@ export class CreateWallCommand implements ICommand {
 
         if (!this.isCreatingSeries) {
             this.drawing = true;
-            this.startPoint = this.document.unproject(new Vector3(this.mouse.x, this.mouse.y, 0));
+            this.startPoint = this.getCursorPoint();
         }
     }
 
@@ -61,8 +60,8 @@ export class CreateWallCommand implements ICommand {
         this.mouse.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
         this.mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
 
+        const currentPoint = this.getCursorPoint();
         if (this.drawing) {
-            const currentPoint = this.document.unproject(new Vector3(this.mouse.x, this.mouse.y, 0));
             const startPoint = this.isCreatingSeries ? this.lastEndPoint : this.startPoint;
 
             if (startPoint) {
@@ -96,6 +95,11 @@ export class CreateWallCommand implements ICommand {
         }
     }
 
+    // Cursor position on the plan, snapped to existing walls or the grid
+    private getCursorPoint(): Vector3 {
+        return this.document.snapPoint(this.document.unproject(new Vector3(this.mouse.x, this.mouse.y, 0)));
+    }
+
     execute() {
         if (this.startPoint && this.endPoint) {
             this.document.drawWall(this.startPoint, this.endPoint);
@@ -0,0 +1,16 @@
+import { WallPickCommand, type WallPick } from './WallPickCommand';
+import { extendSegment } from '../geometry/WallEditing';
+
+// Lengthens the picked end of a wall to meet a boundary wall
+export class ExtendCommand extends WallPickCommand {
+    readonly name: string = 'Extend';
+    readonly pickPrompts: string[] = ['pick boundary wall', 'pick wall near the end to extend'];
+
+    apply([boundary, target]: WallPick[]): string | null {
+        if (boundary.wall === target.wall) return 'a wall cannot extend to itself';
+        const extended = extendSegment(target.wall, boundary.wall, target.point);
+        if (!extended) return 'wall does not reach the boundary';
+        this.viewer.transaction('Extend wall', () => this.viewer.updateWall(target.wall.id, extended));
+        return null;
+    }
+}
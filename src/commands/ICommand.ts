@@ -3,4 +3,6 @@ export interface ICommand{
     onMouseUp(e:MouseEvent):void;
     onMouseMove(e:MouseEvent):void;
     execute():void;
+    // Optional cleanup of previews when the command ends or is cancelled
+    dispose?():void;
 }
\ No newline at end of file
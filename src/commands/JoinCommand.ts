@@ -0,0 +1,61 @@
+import { WallPickCommand, type WallPick } from './WallPickCommand';
+import type { DimensionAnchor, WallEnd } from '../model/Dimension';
+import { mergeSegments } from '../geometry/WallEditing';
+import { distance2D, pointAt, projectOntoSegment } from '../geometry/Segment2D';
+
+// Merges two collinear walls that touch or overlap into the first one
+export class JoinCommand extends WallPickCommand {
+    readonly name: string = 'Join';
+    readonly pickPrompts: string[] = ['pick first wall', 'pick collinear wall to merge'];
+
+    apply([first, second]: WallPick[]): string | null {
+        if (first.wall === second.wall) return 'pick two different walls';
+        const merged = mergeSegments(first.wall, second.wall);
+        if (!merged) return 'walls are not collinear and touching';
+        // Openings of the second wall are moved to the merged one in place
+        const { wall } = second;
+        const moved = this.viewer.getOpenings()
+            .filter(opening => opening.hostId === wall.id)
+            .map(opening => ({ opening, center: pointAt(wall.start, wall.end, opening.offset / wall.length) }));
+
+        // Dimensions of either wall follow the ends that become ends of the
+        // merged wall. Those measured to the joint lose their point.
+        const mergedEnd = (anchor: DimensionAnchor): WallEnd | null => {
+            const picked = anchor.wallId === first.wall.id ? first.wall : wall;
+            const point = picked[anchor.end];
+            if (distance2D(point, merged.start) < 1e-3) return 'start';
+            if (distance2D(point, merged.end) < 1e-3) return 'end';
+            return null;
+        };
+        const onWalls = (anchor: DimensionAnchor) => anchor.wallId === first.wall.id || anchor.wallId === wall.id;
+        const reanchored = this.viewer.getDimensions()
+            .filter(dimension => dimension.anchors.some(onWalls))
+            .map(dimension => ({
+                dimension,
+                anchors: dimension.anchors.map(anchor => {
+                    if (!onWalls(anchor)) return anchor;
+                    const end = mergedEnd(anchor);
+                    return end ? { wallId: first.wall.id, end } : null;
+                })
+            }));
+
+        this.viewer.transaction('Join walls', () => {
+            this.viewer.removeDimensions(reanchored
+                .filter(({ anchors }) => anchors.includes(null))
+                .map(({ dimension }) => dimension.id));
+            this.viewer.updateWall(first.wall.id, merged);
+            const length = merged.start.distanceTo(merged.end);
+            moved.forEach(({ opening, center }) => this.viewer.updateOpening(opening.id, {
+                hostId: first.wall.id,
+                offset: projectOntoSegment(center, merged.start, merged.end) * length
+            }));
+            reanchored
+                .filter(({ anchors }) => !anchors.includes(null))
+                .forEach(({ dimension, anchors }) => this.viewer.updateDimension(dimension.id, {
+                    anchors: anchors as DimensionAnchor[]
+                }));
+            this.viewer.removeWalls([wall.id]);
+        });
+        return null;
+    }
+}
@@ -0,0 +1,121 @@
+import { BufferGeometry, LineBasicMaterial, LineSegments, type Vector3 } from 'three';
+import type { Viewer } from '../Viewer';
+import type { ICommand } from './ICommand';
+import { type DimensionAnchor, anchorPoint } from '../model/Dimension';
+import { type LinearDimensionKind, linearDimensionGraphics, linearDimensionOffset } from '../geometry/DimensionGeometry';
+import { distance2D } from '../geometry/Segment2D';
+
+const KIND_NAMES: Record<LinearDimensionKind, string> = {
+    aligned: 'Aligned dimension',
+    horizontal: 'Horizontal dimension',
+    vertical: 'Vertical dimension'
+};
+
+// Dimensions the distance between two picked wall ends, then places the
+// dimension line where clicked. Chained, it keeps picking wall ends and
+// measures each one from the last until a click away from the wall ends.
+export class LinearDimensionCommand implements ICommand {
+    viewer: Viewer;
+    kind: LinearDimensionKind;
+    chained: boolean;
+    anchors: DimensionAnchor[] = [];
+    preview: LineSegments | null = null;
+
+    constructor(viewer: Viewer, kind: LinearDimensionKind, chained: boolean = false) {
+        this.viewer = viewer;
+        this.kind = kind;
+        this.chained = chained;
+    }
+
+    get name(): string {
+        return this.chained ? 'Chain dimension' : KIND_NAMES[this.kind];
+    }
+
+    get prompt(): string {
+        return `${this.name}: pick first wall end`;
+    }
+
+    onMouseDown(e: MouseEvent) {
+        if (e.button !== 0) return; // Only handle left click
+
+        const picking = this.anchors.length < 2 || this.chained;
+        const anchor = picking ? this.viewer.pickWallEnd() : null;
+        if (anchor) {
+            // A point measured from itself adds nothing
+            const points = this.points();
+            const point = anchorPoint(anchor, this.viewer.getWalls());
+            if (point && points.length > 0 && distance2D(point, points[points.length - 1]) < 1e-9) return;
+
+            this.anchors.push(anchor);
+            if (this.anchors.length === 1) {
+                this.viewer.setCommandPrompt(`${this.name}: pick next wall end`);
+            } else if (this.chained) {
+                this.viewer.setCommandPrompt(`${this.name}: pick next wall end, or click elsewhere to place the line`);
+            } else {
+                this.viewer.setCommandPrompt(`${this.name}: place the dimension line`);
+            }
+            return;
+        }
+        if (this.anchors.length >= 2) {
+            this.execute();
+        }
+    }
+
+    onMouseMove(_e: MouseEvent) {
+        if (this.anchors.length < 2 || this.chained) {
+            this.viewer.pickWallEnd(); // Keeps snap markers up to date
+        }
+        this.updatePreview();
+    }
+
+    onMouseUp(_e: MouseEvent) {
+        // Picks happen on mouse down
+    }
+
+    execute() {
+        const offset = this.offset();
+        if (offset !== null) {
+            this.viewer.addDimension(this.kind, this.anchors, offset);
+        }
+        this.viewer.endCommand();
+    }
+
+    // Called by the viewer when the command ends or is cancelled
+    dispose() {
+        this.removePreview();
+    }
+
+    private points(): Vector3[] {
+        const walls = this.viewer.getWalls();
+        return this.anchors.flatMap(anchor => anchorPoint(anchor, walls) ?? []);
+    }
+
+    // Offset that puts the dimension line under the cursor
+    private offset(): number | null {
+        const cursor = this.viewer.getPlanPoint();
+        if (this.anchors.length < 2 || !cursor) return null;
+        return linearDimensionOffset(this.points(), this.kind, cursor);
+    }
+
+    private updatePreview() {
+        this.removePreview();
+        const offset = this.offset();
+        if (offset === null) return;
+        const graphics = linearDimensionGraphics(this.points(), this.kind, offset);
+        if (!graphics) return;
+
+        this.preview = new LineSegments(
+            new BufferGeometry().setFromPoints(graphics.lines),
+            new LineBasicMaterial({ color: 0x0088ff })
+        );
+        this.viewer.addPreviewObject(this.preview);
+    }
+
+    private removePreview() {
+        if (!this.preview) return;
+        this.viewer.removePreviewObject(this.preview);
+        this.preview.geometry.dispose();
+        (this.preview.material as LineBasicMaterial).dispose();
+        this.preview = null;
+    }
+}
@@ -0,0 +1,21 @@
+import type { Vector3 } from 'three';
+import { TransformCommand } from './TransformCommand';
+import { type PointTransform, reflection } from '../geometry/Transform2D';
+
+// Mirrors across the line through the two picked points
+export class MirrorCommand extends TransformCommand {
+    readonly name: string = 'Mirror';
+    readonly secondPointPrompt: string = 'pick second point of mirror line';
+
+    get basePointPrompt(): string {
+        return 'Mirror: pick first point of mirror line';
+    }
+
+    get mirrored(): boolean {
+        return true;
+    }
+
+    createTransform(basePoint: Vector3, targetPoint: Vector3): PointTransform | null {
+        return reflection(basePoint, targetPoint);
+    }
+}
@@ -0,0 +1,12 @@
+import type { Vector3 } from 'three';
+import { TransformCommand } from './TransformCommand';
+import { type PointTransform, translation } from '../geometry/Transform2D';
+
+export class MoveCommand extends TransformCommand {
+    readonly name: string = 'Move';
+    readonly secondPointPrompt: string = 'pick destination point';
+
+    createTransform(basePoint: Vector3, targetPoint: Vector3): PointTransform {
+        return translation(basePoint, targetPoint);
+    }
+}
@@ -0,0 +1,100 @@
+import { BufferGeometry, LineBasicMaterial, Line, Vector3 } from 'three';
+import type { Viewer } from '../Viewer';
+import type { ICommand } from './ICommand';
+import { type WallChain, findWallChain, offsetPolyline, withoutZeroLengthWalls } from '../geometry/Offset';
+import { distanceToSegment } from '../geometry/Segment2D';
+import { formatLength } from '../units/Units';
+
+// Creates walls parallel to a picked wall, or to the chain of walls it is
+// connected to, at a fixed distance on the side picked second
+export class OffsetCommand implements ICommand {
+    viewer: Viewer;
+    distance: number;
+    chain: WallChain | null = null;
+    preview: Line | null = null;
+
+    constructor(viewer: Viewer, distance: number) {
+        this.viewer = viewer;
+        this.distance = distance;
+    }
+
+    get firstPrompt(): string {
+        return `Offset ${this.distanceText}: pick wall or wall chain`;
+    }
+
+    get distanceText(): string {
+        return formatLength(this.distance, this.viewer.getUnits());
+    }
+
+    onMouseDown(e: MouseEvent) {
+        if (e.button !== 0) return; // Only handle left click
+
+        if (!this.chain) {
+            const wall = this.viewer.pickWall();
+            if (!wall) return;
+            this.chain = withoutZeroLengthWalls(findWallChain(this.viewer.getWalls(), wall));
+            this.viewer.setCommandPrompt(`Offset ${this.distanceText}: pick side`);
+        } else {
+            this.execute();
+        }
+    }
+
+    onMouseMove(_e: MouseEvent) {
+        this.updatePreview(this.offsetPoints());
+    }
+
+    onMouseUp(_e: MouseEvent) {
+        // Picks happen on mouse down
+    }
+
+    execute() {
+        const points = this.offsetPoints();
+        const chain = this.chain;
+        if (points && chain) {
+            const walls = this.viewer.getWalls();
+            this.viewer.transaction('Offset walls', () => {
+                chain.wallIds.forEach((id, i) => {
+                    const source = walls.find(wall => wall.id === id)!;
+                    this.viewer.addWall(points[i], points[i + 1], {
+                        thickness: source.thickness,
+                        height: source.height,
+                        baseOffset: source.baseOffset,
+                        justification: source.justification
+                    }, { levelId: source.levelId, layerId: source.layerId });
+                });
+            });
+        }
+        this.viewer.endCommand();
+    }
+
+    // Called by the viewer when the command ends or is cancelled
+    dispose() {
+        this.updatePreview(null);
+    }
+
+    // Offset of the chain on the side of the cursor
+    private offsetPoints(): Vector3[] | null {
+        const cursor = this.viewer.getPlanPoint();
+        if (!this.chain || !cursor) return null;
+        const { points, closed } = this.chain;
+        const sides = [this.distance, -this.distance].map(distance => offsetPolyline(points, distance, closed));
+        const distanceTo = (polyline: Vector3[]) => Math.min(
+            ...polyline.slice(1).map((point, i) => distanceToSegment(cursor, polyline[i], point))
+        );
+        return distanceTo(sides[0]) <= distanceTo(sides[1]) ? sides[0] : sides[1];
+    }
+
+    private updatePreview(points: Vector3[] | null) {
+        if (this.preview) {
+            this.viewer.removePreviewObject(this.preview);
+            this.preview.geometry.dispose();
+            (this.preview.material as LineBasicMaterial).dispose();
+            this.preview = null;
+        }
+        if (!points) return;
+
+        const geometry = new BufferGeometry().setFromPoints(points);
+        this.preview = new Line(geometry, new LineBasicMaterial({ color: 0x0088ff }));
+        this.viewer.addPreviewObject(this.preview);
+    }
+}
@@ -0,0 +1,43 @@
+import type { Viewer } from '../Viewer';
+import type { ICommand } from './ICommand';
+import type { OpeningKind } from '../model/Opening';
+import { projectOntoSegment } from '../geometry/Segment2D';
+
+// Places a door or window in the picked wall, centred where it was clicked
+export class PlaceOpeningCommand implements ICommand {
+    viewer: Viewer;
+    kind: OpeningKind;
+
+    constructor(viewer: Viewer, kind: OpeningKind) {
+        this.viewer = viewer;
+        this.kind = kind;
+    }
+
+    get prompt(): string {
+        return `${this.kind === 'door' ? 'Door' : 'Window'}: pick position on a wall`;
+    }
+
+    onMouseDown(e: MouseEvent) {
+        if (e.button !== 0) return; // Only handle left click
+
+        const wall = this.viewer.pickWall();
+        const point = this.viewer.getPlanPoint();
+        if (!wall || !point) return;
+
+        const offset = projectOntoSegment(point, wall.start, wall.end) * wall.length;
+        this.viewer.addOpening(wall.id, this.kind, offset);
+        this.execute();
+    }
+
+    onMouseMove(_e: MouseEvent) {
+        // Nothing to preview
+    }
+
+    onMouseUp(_e: MouseEvent) {
+        // Placed on mouse down
+    }
+
+    execute() {
+        this.viewer.endCommand();
+    }
+}
@@ -0,0 +1,16 @@
+import type { Vector3 } from 'three';
+import { TransformCommand } from './TransformCommand';
+import { type PointTransform, rotation } from '../geometry/Transform2D';
+
+// Rotates about the base point by the angle of the second point, measured
+// counter-clockwise from +X
+export class RotateCommand extends TransformCommand {
+    readonly name: string = 'Rotate';
+    readonly secondPointPrompt: string = 'pick rotation angle';
+
+    createTransform(basePoint: Vector3, targetPoint: Vector3): PointTransform | null {
+        if (basePoint.distanceTo(targetPoint) < 1e-9) return null;
+        const angle = Math.atan2(targetPoint.y - basePoint.y, targetPoint.x - basePoint.x);
+        return rotation(basePoint, angle);
+    }
+}
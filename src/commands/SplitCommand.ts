@@ -0,0 +1,47 @@
+import type { Vector3 } from 'three';
+import { WallPickCommand, type WallPick } from './WallPickCommand';
+import { splitPoint } from '../geometry/WallEditing';
+
+// Splits a wall in two at the picked point. Both parts keep its properties,
+// and openings and dimensions stay where they were.
+export class SplitCommand extends WallPickCommand {
+    readonly name: string = 'Split';
+    readonly pickPrompts: string[] = ['pick point on wall'];
+
+    // Snapping helps to split at midpoints and intersections
+    pickPoint(): Vector3 | null {
+        return this.viewer.getCursorPoint();
+    }
+
+    apply([{ wall, point }]: WallPick[]): string | null {
+        const split = splitPoint(wall, point);
+        if (!split) return 'point is at the end of the wall';
+        this.viewer.transaction('Split wall', () => {
+            const end = wall.end.clone();
+            const splitOffset = wall.start.distanceTo(split);
+            this.viewer.updateWall(wall.id, { end: split });
+            const second = this.viewer.addWall(split, end, {
+                thickness: wall.thickness,
+                height: wall.height,
+                baseOffset: wall.baseOffset,
+                justification: wall.justification
+            }, { levelId: wall.levelId, layerId: wall.layerId });
+            // Openings past the split point move to the second part
+            this.viewer.getOpenings()
+                .filter(opening => opening.hostId === wall.id && opening.offset > splitOffset)
+                .forEach(opening => this.viewer.updateOpening(opening.id, {
+                    hostId: second.id,
+                    offset: opening.offset - splitOffset
+                }));
+            // So do dimensions measured to its end, which keep their value
+            this.viewer.getDimensions()
+                .filter(dimension => dimension.anchors.some(anchor => anchor.wallId === wall.id && anchor.end === 'end'))
+                .forEach(dimension => this.viewer.updateDimension(dimension.id, {
+                    anchors: dimension.anchors.map(anchor => anchor.wallId === wall.id && anchor.end === 'end'
+                        ? { wallId: second.id, end: 'end' }
+                        : anchor)
+                }));
+        });
+        return null;
+    }
+}
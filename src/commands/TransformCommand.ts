@@ -0,0 +1,101 @@
+import { BufferGeometry, LineBasicMaterial, LineSegments, Vector3 } from 'three';
+import type { Viewer } from '../Viewer';
+import type { ICommand } from './ICommand';
+import type { PointTransform } from '../geometry/Transform2D';
+
+// Base for commands that pick a base point, then a second point, and apply a
+// transform derived from the two to the selected walls. While the second
+// point is being picked, the transformed walls are previewed.
+export abstract class TransformCommand implements ICommand {
+    viewer: Viewer;
+    wallIds: string[];
+    basePoint: Vector3 | null = null;
+    targetPoint: Vector3 | null = null;
+    preview: LineSegments | null = null;
+
+    abstract readonly name: string;
+    abstract readonly secondPointPrompt: string;
+
+    constructor(viewer: Viewer) {
+        this.viewer = viewer;
+        this.wallIds = viewer.getSelectedWalls().map(wall => wall.id);
+    }
+
+    // Transform for the picked points, or null if they don't define one
+    abstract createTransform(basePoint: Vector3, targetPoint: Vector3): PointTransform | null;
+
+    get basePointPrompt(): string {
+        return `${this.name}: pick base point`;
+    }
+
+    get copy(): boolean {
+        return false;
+    }
+
+    get mirrored(): boolean {
+        return false;
+    }
+
+    onMouseDown(e: MouseEvent) {
+        if (e.button !== 0) return; // Only handle left click
+
+        const point = this.viewer.getCursorPoint(this.basePoint);
+        if (!point) return;
+
+        if (!this.basePoint) {
+            this.basePoint = point;
+            this.viewer.setCommandPrompt(`${this.name}: ${this.secondPointPrompt}`);
+        } else {
+            this.targetPoint = point;
+            this.execute();
+        }
+    }
+
+    onMouseMove(_e: MouseEvent) {
+        const point = this.viewer.getCursorPoint(this.basePoint);
+        if (!this.basePoint || !point) return;
+        const transform = this.createTransform(this.basePoint, point);
+        this.updatePreview(transform);
+    }
+
+    onMouseUp(_e: MouseEvent) {
+        // Points are picked on mouse down
+    }
+
+    execute() {
+        if (this.basePoint && this.targetPoint) {
+            const transform = this.createTransform(this.basePoint, this.targetPoint);
+            if (transform) {
+                this.viewer.transformWalls(this.wallIds, transform, {
+                    label: this.name,
+                    copy: this.copy,
+                    mirrored: this.mirrored
+                });
+            }
+        }
+        this.viewer.endCommand();
+    }
+
+    // Called by the viewer when the command ends or is cancelled
+    dispose() {
+        this.updatePreview(null);
+    }
+
+    private updatePreview(transform: PointTransform | null) {
+        if (this.preview) {
+            this.viewer.removePreviewObject(this.preview);
+            this.preview.geometry.dispose();
+            (this.preview.material as LineBasicMaterial).dispose();
+            this.preview = null;
+        }
+        if (!transform) return;
+
+        const points: Vector3[] = [];
+        this.viewer.getWalls()
+            .filter(wall => this.wallIds.includes(wall.id))
+            .forEach(wall => points.push(transform(wall.start), transform(wall.end)));
+        const geometry = new BufferGeometry().setFromPoints(points);
+        this.preview = new LineSegments(geometry, new LineBasicMaterial({ color: 0x0088ff }));
+        this.viewer.addPreviewObject(this.preview);
+    }
+}
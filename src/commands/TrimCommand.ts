@@ -0,0 +1,16 @@
+import { WallPickCommand, type WallPick } from './WallPickCommand';
+import { trimSegment } from '../geometry/WallEditing';
+
+// Cuts a wall where it crosses a cutting wall, removing the picked part
+export class TrimCommand extends WallPickCommand {
+    readonly name: string = 'Trim';
+    readonly pickPrompts: string[] = ['pick cutting wall', 'pick the part of a wall to remove'];
+
+    apply([cutter, target]: WallPick[]): string | null {
+        if (cutter.wall === target.wall) return 'a wall cannot trim itself';
+        const trimmed = trimSegment(target.wall, cutter.wall, target.point);
+        if (!trimmed) return 'walls do not cross';
+        this.viewer.transaction('Trim wall', () => this.viewer.updateWall(target.wall.id, trimmed));
+        return null;
+    }
+}
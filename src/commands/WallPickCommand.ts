@@ -0,0 +1,67 @@
+import type { Vector3 } from 'three';
+import type { Viewer, Wall } from '../Viewer';
+import type { ICommand } from './ICommand';
+
+export interface WallPick {
+    wall: Wall;
+    point: Vector3;
+}
+
+// Base for commands that pick one or more walls in turn and then edit them.
+// If the edit doesn't apply, the last pick is asked for again.
+export abstract class WallPickCommand implements ICommand {
+    viewer: Viewer;
+    picks: WallPick[] = [];
+
+    abstract readonly name: string;
+    abstract readonly pickPrompts: string[];
+
+    constructor(viewer: Viewer) {
+        this.viewer = viewer;
+    }
+
+    // Edit the picked walls. Returns a message if the edit doesn't apply.
+    abstract apply(picks: WallPick[]): string | null;
+
+    get firstPrompt(): string {
+        return `${this.name}: ${this.pickPrompts[0]}`;
+    }
+
+    // Plan point recorded with each pick
+    pickPoint(): Vector3 | null {
+        return this.viewer.getPlanPoint();
+    }
+
+    onMouseDown(e: MouseEvent) {
+        if (e.button !== 0) return; // Only handle left click
+
+        const wall = this.viewer.pickWall();
+        const point = this.pickPoint();
+        if (!wall || !point) return;
+
+        this.picks.push({ wall, point });
+        if (this.picks.length < this.pickPrompts.length) {
+            this.viewer.setCommandPrompt(`${this.name}: ${this.pickPrompts[this.picks.length]}`);
+        } else {
+            this.execute();
+        }
+    }
+
+    onMouseMove(_e: MouseEvent) {
+        this.pickPoint(); // Keeps snap markers up to date
+    }
+
+    onMouseUp(_e: MouseEvent) {
+        // Walls are picked on mouse down
+    }
+
+    execute() {
+        const error = this.apply(this.picks);
+        if (error) {
+            this.picks.pop();
+            this.viewer.setCommandPrompt(`${this.name}: ${error}, ${this.pickPrompts[this.picks.length]}`);
+            return;
+        }
+        this.viewer.endCommand();
+    }
+}
@@ -5,6 +5,11 @@ import type { IDocument } from './IDocument';
 import type { ICommand } from '../commands/ICommand';
 import { CreateWallCommand } from '../commands/CreateWallCommand';
 import { ZoomFitCommand } from '../commands/ZoomFitCommand';
+import { type SnapSettings, defaultSnapSettings, findSnap } from '../snapping/SnapEngine';
+import { SnapMarker } from '../snapping/SnapMarker';
+import { DEFAULT_WALL_PROPERTIES } from '../model/WallProperties';
+import { DEFAULT_LEVEL } from '../model/Level';
+import { WALLS_LAYER_ID } from '../model/Layer';
 import { Wall } from '../Viewer';
 
 class Document2D implements IDocument {
@@ -20,6 +25,8 @@ class Document2D implements IDocument {
     raycaster = new Raycaster();
     mouse = new Vector2();
     intersectionPlane = new Plane(new Vector3(0, 0, 1), 0);
+    snapSettings: SnapSettings = defaultSnapSettings();
+    snapMarker = new SnapMarker();
      
     constructor(canvas: HTMLElement) {
         this.container = canvas;
@@ -28,6 +35,7 @@ class Document2D implements IDocument {
         new Resizer(canvas, this.camera);
         this.controls = this.addControls();
         this.addGridHelper();
+        this.scene.add(this.snapMarker.object);
         this.setupEventListeners();
         this.zoomFit();
         this.activeCommand = new CreateWallCommand(this);
@@ -142,6 +150,14 @@ class Document2D implements IDocument {
         return vec.unproject(this.camera);
     }
 
+    // Move a plan point onto the best snap in range and show the snap marker
+    snapPoint(point: Vector3) {
+        const worldPerPixel = (this.camera.right - this.camera.left) / this.camera.zoom / this.container.clientWidth;
+        const snap = findSnap(point, this.walls, worldPerPixel, this.snapSettings);
+        this.snapMarker.update(snap, worldPerPixel);
+        return snap ? snap.point : point;
+    }
+
     drawWall(start: Vector3, end: Vector3) {
         const wallVec = new Vector2(end.x - start.x, end.y - start.y);
         const length = wallVec.length();
@@ -171,6 +187,9 @@ class Document2D implements IDocument {
         // Add wall to walls array
         const wall: Wall = {
             type: 'wall',
+            levelId: DEFAULT_LEVEL.id,
+            layerId: WALLS_LAYER_ID,
+            ...DEFAULT_WALL_PROPERTIES,
             start: start.clone(),
             end: end.clone(),
             angle: angle,
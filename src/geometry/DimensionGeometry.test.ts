@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import {
+    DIMENSION_TEXT_OFFSET, angleVertex, angularDimensionGraphics, linearDimensionFrame, linearDimensionGraphics,
+    linearDimensionOffset, readableAngle
+} from './DimensionGeometry';
+
+function point(x: number, y: number): Vector3 {
+    return new Vector3(x, y, 0);
+}
+
+function expectPoint(actual: Vector3, x: number, y: number) {
+    expect(actual.x).toBeCloseTo(x);
+    expect(actual.y).toBeCloseTo(y);
+}
+
+// Segments of a graphics' lines as [start, end] pairs
+function segments(lines: Vector3[]): [Vector3, Vector3][] {
+    const pairs: [Vector3, Vector3][] = [];
+    for (let i = 0; i < lines.length; i += 2) pairs.push([lines[i], lines[i + 1]]);
+    return pairs;
+}
+
+describe('readableAngle', () => {
+    it('keeps directions that read left to right', () => {
+        expect(readableAngle(point(1, 0))).toBeCloseTo(0);
+        expect(readableAngle(point(0, 1))).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('turns directions that would read upside down', () => {
+        expect(readableAngle(point(-1, 0))).toBeCloseTo(0);
+        expect(readableAngle(point(0, -1))).toBeCloseTo(Math.PI / 2);
+        expect(readableAngle(point(-1, -1))).toBeCloseTo(Math.PI / 4);
+    });
+});
+
+describe('linearDimensionFrame', () => {
+    it('measures aligned dimensions from the first to the last point', () => {
+        const frame = linearDimensionFrame([point(0, 0), point(3, 4)], 'aligned')!;
+        expectPoint(frame.direction, 0.6, 0.8);
+        expectPoint(frame.normal, -0.8, 0.6);
+    });
+
+    it('measures along the plan axes for horizontal and vertical dimensions', () => {
+        expectPoint(linearDimensionFrame([point(0, 0), point(3, 4)], 'horizontal')!.normal, 0, 1);
+        expectPoint(linearDimensionFrame([point(0, 0), point(3, 4)], 'vertical')!.normal, -1, 0);
+    });
+
+    it('has no aligned frame between coincident points', () => {
+        expect(linearDimensionFrame([point(1, 1), point(1, 1)], 'aligned')).toBeNull();
+        expect(linearDimensionGraphics([point(1, 1), point(1, 1)], 'aligned', 1)).toBeNull();
+    });
+});
+
+describe('linearDimensionOffset', () => {
+    it('is the distance of the point left of the measuring direction', () => {
+        expect(linearDimensionOffset([point(0, 0), point(3, 0)], 'aligned', point(1, 2))).toBeCloseTo(2);
+        expect(linearDimensionOffset([point(0, 0), point(3, 0)], 'aligned', point(1, -2))).toBeCloseTo(-2);
+    });
+
+    it('is measured from the first point', () => {
+        expect(linearDimensionOffset([point(0, 1), point(3, 4)], 'horizontal', point(5, 0))).toBeCloseTo(-1);
+    });
+});
+
+describe('linearDimensionGraphics', () => {
+    it('draws an aligned dimension parallel to the measured points', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(3, 4)], 'aligned', 1)!;
+        expect(graphics.texts).toHaveLength(1);
+        const [text] = graphics.texts;
+        expect(text.value).toBeCloseTo(5);
+        expect(text.rotation).toBeCloseTo(Math.atan2(4, 3));
+        // Midpoint of the dimension line, moved away from the measured points
+        expectPoint(text.position, 0.7 - 0.8 * DIMENSION_TEXT_OFFSET, 2.6 + 0.6 * DIMENSION_TEXT_OFFSET);
+    });
+
+    it('draws a horizontal dimension of the x distance only', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(3, 2)], 'horizontal', 1)!;
+        const [text] = graphics.texts;
+        expect(text.value).toBeCloseTo(3);
+        expect(text.rotation).toBeCloseTo(0);
+        expectPoint(text.position, 1.5, 1 + DIMENSION_TEXT_OFFSET);
+    });
+
+    it('draws a vertical dimension of the y distance only', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(2, 3)], 'vertical', 1)!;
+        const [text] = graphics.texts;
+        expect(text.value).toBeCloseTo(3);
+        expect(text.rotation).toBeCloseTo(Math.PI / 2);
+        expectPoint(text.position, -1 - DIMENSION_TEXT_OFFSET, 1.5);
+    });
+
+    it('puts the text on the far side of a negative offset', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(3, 2)], 'horizontal', -1)!;
+        expectPoint(graphics.texts[0].position, 1.5, -1 - DIMENSION_TEXT_OFFSET);
+    });
+
+    it('runs extension lines from a gap at each point to past the dimension line', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(3, 2)], 'horizontal', -1)!;
+        const extensions = segments(graphics.lines).slice(0, 2);
+        expectPoint(extensions[0][0], 0, -0.05);
+        expectPoint(extensions[0][1], 0, -1.1);
+        expectPoint(extensions[1][0], 3, 1.95);
+        expectPoint(extensions[1][1], 3, -1.1);
+    });
+
+    it('leaves out extension lines of points on the dimension line', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(3, 0)], 'aligned', 0)!;
+        // The dimension line and a tick at each end
+        expect(segments(graphics.lines)).toHaveLength(3);
+    });
+
+    it('draws oblique ticks centred on the dimension line', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(3, 0)], 'aligned', 0)!;
+        const [, tick] = segments(graphics.lines);
+        expectPoint(tick[0].clone().add(tick[1]).multiplyScalar(0.5), 0, 0);
+        expect(Math.abs(tick[1].x - tick[0].x)).toBeCloseTo(Math.abs(tick[1].y - tick[0].y));
+    });
+
+    it('chains a text per segment along one dimension line', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(1, 0), point(3, 0)], 'aligned', 0.5)!;
+        expect(graphics.texts.map(text => text.value)).toEqual([
+            expect.closeTo(1), expect.closeTo(2)
+        ]);
+        expectPoint(graphics.texts[0].position, 0.5, 0.5 + DIMENSION_TEXT_OFFSET);
+        expectPoint(graphics.texts[1].position, 2, 0.5 + DIMENSION_TEXT_OFFSET);
+        // Three extension lines, the dimension line and three ticks
+        const lines = segments(graphics.lines);
+        expect(lines).toHaveLength(7);
+        expectPoint(lines[3][0], 0, 0.5);
+        expectPoint(lines[3][1], 3, 0.5);
+    });
+
+    it('skips the text of a chained point measured twice', () => {
+        const graphics = linearDimensionGraphics([point(0, 0), point(1, 0), point(1, 2)], 'horizontal', -1)!;
+        expect(graphics.texts).toHaveLength(1);
+    });
+});
+
+describe('angleVertex', () => {
+    it('is where the wall axes meet, even past their ends', () => {
+        expectPoint(angleVertex({ start: point(1, 0), end: point(3, 0) }, { start: point(0, 1), end: point(0, 3) })!, 0, 0);
+    });
+
+    it('is null for parallel walls', () => {
+        expect(angleVertex({ start: point(0, 0), end: point(3, 0) }, { start: point(0, 1), end: point(3, 1) })).toBeNull();
+        expect(angularDimensionGraphics(
+            { start: point(0, 0), end: point(3, 0), point: point(3, 0) },
+            { start: point(0, 1), end: point(3, 1), point: point(3, 1) },
+            1
+        )).toBeNull();
+    });
+});
+
+describe('angularDimensionGraphics', () => {
+    const a = { start: point(0, 0), end: point(2, 0), point: point(2, 0) };
+    const b = { start: point(0, 0), end: point(0, 2), point: point(0, 2) };
+
+    it('measures the angle between the picked sides of the corner', () => {
+        const graphics = angularDimensionGraphics(a, b, 1)!;
+        const [text] = graphics.texts;
+        expect(text.value).toBeCloseTo(Math.PI / 2);
+        const distance = 1 + DIMENSION_TEXT_OFFSET;
+        expectPoint(text.position, distance * Math.SQRT1_2, distance * Math.SQRT1_2);
+        expect(text.rotation).toBeCloseTo(-Math.PI / 4);
+    });
+
+    it('sweeps the arc from the first arm to the second at the radius', () => {
+        const graphics = angularDimensionGraphics(a, b, 1)!;
+        // Arc segments then two arrowheads of two lines each
+        const arc = segments(graphics.lines).slice(0, -4);
+        expectPoint(arc[0][0], 1, 0);
+        expectPoint(arc[arc.length - 1][1], 0, 1);
+        arc.forEach(([start]) => expect(start.length()).toBeCloseTo(1));
+    });
+
+    it('measures the other side of the corner for the other wall ends', () => {
+        const across = { start: point(-2, 0), end: point(2, 0), point: point(-2, 0) };
+        expect(angularDimensionGraphics(across, b, 1)!.texts[0].value).toBeCloseTo(Math.PI / 2);
+        const obtuse = { start: point(0, 0), end: point(-2, -2), point: point(-2, -2) };
+        expect(angularDimensionGraphics(a, obtuse, 1)!.texts[0].value).toBeCloseTo(3 * Math.PI / 4);
+    });
+
+    it('runs arms whose picked end is the corner towards their other end', () => {
+        const fromCorner = { ...a, point: point(0, 0) };
+        expect(angularDimensionGraphics(fromCorner, b, 1)!.texts[0].value).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('extends walls that end short of the arc', () => {
+        const short = angularDimensionGraphics(a, b, 1)!;
+        const long = angularDimensionGraphics(a, b, 3)!;
+        expect(segments(long.lines).length - segments(short.lines).length).toBe(2);
+        const [extension] = segments(long.lines);
+        expectPoint(extension[0], 2.05, 0);
+        expectPoint(extension[1], 3.1, 0);
+    });
+
+    it('draws nothing without a radius', () => {
+        expect(angularDimensionGraphics(a, b, 0)).toBeNull();
+    });
+});
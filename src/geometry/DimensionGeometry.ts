@@ -0,0 +1,189 @@
+import { Vector3 } from 'three';
+import { distance2D, lineIntersectionParams, pointAt } from './Segment2D';
+
+// Drawing of user-placed dimensions as line segments and text placements,
+// shared by the plan view and the exporters. Sizes are plan metres.
+
+export type LinearDimensionKind = 'aligned' | 'horizontal' | 'vertical';
+
+export interface DimensionText {
+    position: Vector3;  // centre of the text
+    value: number;      // metres for linear dimensions, radians for angular ones
+    rotation: number;   // radians, counter-clockwise, never upside down
+}
+
+export interface DimensionGraphics {
+    lines: Vector3[];   // pairs of segment end points
+    texts: DimensionText[];
+}
+
+const EXTENSION_GAP = 0.05;       // between the measured point and its extension line
+const EXTENSION_OVERSHOOT = 0.1;  // of extension lines past the dimension line
+const TICK_SIZE = 0.1;
+const ARROW_SIZE = 0.12;
+const ARROW_ANGLE = Math.PI / 9;
+export const DIMENSION_TEXT_OFFSET = 0.12; // text centre from the dimension line
+
+// Text angle along a direction, turned so it never reads upside down
+export function readableAngle(direction: Vector3): number {
+    let angle = Math.atan2(direction.y, direction.x);
+    if (angle > Math.PI / 2 + 1e-9) angle -= Math.PI;
+    if (angle <= -Math.PI / 2 + 1e-9) angle += Math.PI;
+    return angle;
+}
+
+function along(point: Vector3, direction: Vector3, distance: number): Vector3 {
+    return new Vector3(point.x + direction.x * distance, point.y + direction.y * distance, 0);
+}
+
+function dot(a: Vector3, b: Vector3): number {
+    return a.x * b.x + a.y * b.y;
+}
+
+// Measuring direction of a linear dimension and its left normal, or null
+// if an aligned dimension has no length to align to
+export function linearDimensionFrame(
+    points: Vector3[], kind: LinearDimensionKind
+): { direction: Vector3, normal: Vector3 } | null {
+    let direction: Vector3;
+    if (kind === 'horizontal') {
+        direction = new Vector3(1, 0, 0);
+    } else if (kind === 'vertical') {
+        direction = new Vector3(0, 1, 0);
+    } else {
+        const first = points[0];
+        const last = points[points.length - 1];
+        if (distance2D(first, last) < 1e-9) return null;
+        direction = new Vector3(last.x - first.x, last.y - first.y, 0).normalize();
+    }
+    return { direction, normal: new Vector3(-direction.y, direction.x, 0) };
+}
+
+// Offset that puts the dimension line of a linear dimension through point
+export function linearDimensionOffset(points: Vector3[], kind: LinearDimensionKind, point: Vector3): number | null {
+    const frame = linearDimensionFrame(points, kind);
+    if (!frame) return null;
+    return dot(new Vector3(point.x - points[0].x, point.y - points[0].y, 0), frame.normal);
+}
+
+// Aligned, horizontal or vertical dimension of the distances between
+// consecutive points, with oblique ticks at the measured positions
+export function linearDimensionGraphics(points: Vector3[], kind: LinearDimensionKind, offset: number): DimensionGraphics | null {
+    const frame = linearDimensionFrame(points, kind);
+    if (!frame || points.length < 2) return null;
+    const { direction, normal } = frame;
+    const origin = points[0];
+    const base = along(origin, normal, offset);
+    const lines: Vector3[] = [];
+    const texts: DimensionText[] = [];
+
+    const stations = points.map(point => {
+        const relative = new Vector3(point.x - origin.x, point.y - origin.y, 0);
+        return { point, t: dot(relative, direction), side: dot(relative, normal) };
+    });
+    const feet = stations.map(({ t }) => along(base, direction, t));
+
+    // Extension lines from near each point to just past the dimension line
+    stations.forEach(({ point, side }, i) => {
+        const distance = offset - side;
+        if (Math.abs(distance) <= EXTENSION_GAP) return;
+        const sign = Math.sign(distance);
+        lines.push(along(point, normal, sign * EXTENSION_GAP), along(feet[i], normal, sign * EXTENSION_OVERSHOOT));
+    });
+
+    // Dimension line over the whole string, with a tick at each station
+    const ts = stations.map(station => station.t);
+    lines.push(along(base, direction, Math.min(...ts)), along(base, direction, Math.max(...ts)));
+    const tick = new Vector3(direction.x + normal.x, direction.y + normal.y, 0).normalize();
+    feet.forEach(foot => lines.push(along(foot, tick, -TICK_SIZE / 2), along(foot, tick, TICK_SIZE / 2)));
+
+    // One text per segment, on the side away from the measured points
+    const textSide = offset < 0 ? -1 : 1;
+    for (let i = 0; i + 1 < stations.length; i++) {
+        const value = Math.abs(stations[i + 1].t - stations[i].t);
+        if (value < 1e-9) continue;
+        texts.push({
+            position: along(pointAt(feet[i], feet[i + 1], 0.5), normal, textSide * DIMENSION_TEXT_OFFSET),
+            value,
+            rotation: readableAngle(direction)
+        });
+    }
+    return { lines, texts };
+}
+
+interface AngleArm {
+    start: Vector3;   // the wall's axis
+    end: Vector3;
+    point: Vector3;   // wall end on the measured side of the corner
+}
+
+function arrowhead(lines: Vector3[], tip: Vector3, back: Vector3) {
+    [-ARROW_ANGLE, ARROW_ANGLE].forEach(angle => {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const wing = new Vector3(back.x * cos - back.y * sin, back.x * sin + back.y * cos, 0);
+        lines.push(tip, along(tip, wing, ARROW_SIZE));
+    });
+}
+
+// Corner where the axes of two walls meet, or null if they are parallel
+export function angleVertex(a: { start: Vector3, end: Vector3 }, b: { start: Vector3, end: Vector3 }): Vector3 | null {
+    const params = lineIntersectionParams(a.start, a.end, b.start, b.end);
+    return params ? pointAt(a.start, a.end, params.t) : null;
+}
+
+// Direction from the corner along an arm. If the chosen end is at the
+// corner, the arm runs towards the wall's other end.
+function armDirection(arm: AngleArm, vertex: Vector3): Vector3 {
+    let target = arm.point;
+    if (distance2D(target, vertex) < 1e-9) {
+        target = distance2D(arm.start, vertex) > distance2D(arm.end, vertex) ? arm.start : arm.end;
+    }
+    return new Vector3(target.x - vertex.x, target.y - vertex.y, 0).normalize();
+}
+
+// Angle between two walls, drawn as an arc of the given radius around the
+// corner with arrowheads at its ends. Null for parallel walls.
+export function angularDimensionGraphics(a: AngleArm, b: AngleArm, radius: number): DimensionGraphics | null {
+    const vertex = angleVertex(a, b);
+    if (!vertex || radius <= 0) return null;
+    const directionA = armDirection(a, vertex);
+    const directionB = armDirection(b, vertex);
+    const sweep = Math.atan2(directionA.x * directionB.y - directionA.y * directionB.x, dot(directionA, directionB));
+    if (Math.abs(sweep) < 1e-9) return null;
+    const startAngle = Math.atan2(directionA.y, directionA.x);
+    const lines: Vector3[] = [];
+
+    // Extension lines along walls that end short of the arc
+    [{ arm: a, direction: directionA }, { arm: b, direction: directionB }].forEach(({ arm, direction }) => {
+        const armLength = Math.max(0, ...[arm.start, arm.end].map(end =>
+            dot(new Vector3(end.x - vertex.x, end.y - vertex.y, 0), direction)));
+        if (armLength + EXTENSION_GAP < radius) {
+            lines.push(along(vertex, direction, armLength + EXTENSION_GAP), along(vertex, direction, radius + EXTENSION_OVERSHOOT));
+        }
+    });
+
+    const arcPoint = (angle: number) =>
+        new Vector3(vertex.x + Math.cos(angle) * radius, vertex.y + Math.sin(angle) * radius, 0);
+    const segments = Math.max(8, Math.ceil(Math.abs(sweep) / (Math.PI / 32)));
+    for (let i = 0; i < segments; i++) {
+        lines.push(arcPoint(startAngle + sweep * i / segments), arcPoint(startAngle + sweep * (i + 1) / segments));
+    }
+
+    // Arrowheads point along the arc, out towards the arms
+    const turn = Math.sign(sweep);
+    const tangentAt = (direction: Vector3) => new Vector3(-direction.y * turn, direction.x * turn, 0);
+    arrowhead(lines, arcPoint(startAngle), tangentAt(directionA));
+    arrowhead(lines, arcPoint(startAngle + sweep), tangentAt(directionB).negate());
+
+    const middle = startAngle + sweep / 2;
+    const middleDirection = new Vector3(Math.cos(middle), Math.sin(middle), 0);
+    return {
+        lines,
+        texts: [{
+            position: along(vertex, middleDirection, radius + DIMENSION_TEXT_OFFSET),
+            value: Math.abs(sweep),
+            rotation: readableAngle(new Vector3(-middleDirection.y, middleDirection.x, 0))
+        }]
+    };
+}
@@ -0,0 +1,118 @@
+import { Vector3 } from 'three';
+import { distance2D, lineIntersectionParams } from './Segment2D';
+
+export interface ChainWall {
+    id: string;
+    start: Vector3;
+    end: Vector3;
+}
+
+// Connected walls as one polyline. wallIds[i] runs from points[i] to
+// points[i + 1]; a closed chain repeats its first point at the end.
+export interface WallChain {
+    points: Vector3[];
+    wallIds: string[];
+    closed: boolean;
+}
+
+// Follow walls from wall through nodes where exactly two walls meet, so
+// a series drawn with Shift-chaining comes back as one chain. Branches
+// (T and X joins) end the chain.
+export function findWallChain<T extends ChainWall>(walls: T[], wall: T, tolerance: number = 1e-6): WallChain {
+    const endsAt = (point: Vector3) => walls.filter(w =>
+        distance2D(w.start, point) < tolerance || distance2D(w.end, point) < tolerance
+    );
+    // The other wall at a two-wall node, if any
+    const continuation = (from: T, point: Vector3): T | null => {
+        const others = endsAt(point);
+        return others.length === 2 ? others.find(w => w !== from) ?? null : null;
+    };
+
+    const forward: T[] = [wall];
+    const points = [wall.start.clone(), wall.end.clone()];
+    let closed = false;
+    let current = wall;
+    let next = continuation(current, wall.end);
+    while (next) {
+        if (next === wall) {
+            closed = true;
+            break;
+        }
+        const tail = points[points.length - 1];
+        points.push((distance2D(next.start, tail) < tolerance ? next.end : next.start).clone());
+        forward.push(next);
+        current = next;
+        next = continuation(current, points[points.length - 1]);
+    }
+
+    if (!closed) {
+        current = wall;
+        next = continuation(current, wall.start);
+        while (next && !forward.includes(next)) {
+            const head = points[0];
+            points.unshift((distance2D(next.end, head) < tolerance ? next.start : next.end).clone());
+            forward.unshift(next);
+            current = next;
+            next = continuation(current, points[0]);
+        }
+    }
+    if (closed) {
+        points[points.length - 1] = points[0].clone();
+    }
+
+    return { points, wallIds: forward.map(w => w.id), closed };
+}
+
+// The chain without zero-length walls. offsetPolyline drops their segments,
+// so this keeps wallIds[i] matching the i-th segment of the offset.
+export function withoutZeroLengthWalls(chain: WallChain): WallChain {
+    const points = [chain.points[0]];
+    const wallIds: string[] = [];
+    chain.wallIds.forEach((id, i) => {
+        if (distance2D(chain.points[i], chain.points[i + 1]) === 0) return;
+        points.push(chain.points[i + 1]);
+        wallIds.push(id);
+    });
+    return { points, wallIds, closed: chain.closed };
+}
+
+// Polyline offset by distance to the left of its direction (negative for the
+// right), with corners re-joined where neighbouring offset segments meet
+export function offsetPolyline(points: Vector3[], distance: number, closed: boolean = false): Vector3[] {
+    const segments: [Vector3, Vector3][] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        const length = distance2D(a, b);
+        if (length === 0) continue;
+        const nx = -(b.y - a.y) / length * distance;
+        const ny = (b.x - a.x) / length * distance;
+        segments.push([new Vector3(a.x + nx, a.y + ny, a.z), new Vector3(b.x + nx, b.y + ny, b.z)]);
+    }
+    if (segments.length === 0) return [];
+
+    // Corner between two offset segments, or the shared end if they are parallel
+    const corner = (first: [Vector3, Vector3], second: [Vector3, Vector3]): Vector3 => {
+        const params = lineIntersectionParams(first[0], first[1], second[0], second[1]);
+        if (!params) return first[1].clone();
+        const { t } = params;
+        return new Vector3(
+            first[0].x + (first[1].x - first[0].x) * t,
+            first[0].y + (first[1].y - first[0].y) * t,
+            first[1].z
+        );
+    };
+
+    const result = [segments[0][0].clone()];
+    for (let i = 0; i < segments.length - 1; i++) {
+        result.push(corner(segments[i], segments[i + 1]));
+    }
+    result.push(segments[segments.length - 1][1].clone());
+
+    if (closed && segments.length > 1) {
+        const start = corner(segments[segments.length - 1], segments[0]);
+        result[0] = start;
+        result[result.length - 1] = start.clone();
+    }
+    return result;
+}
@@ -0,0 +1,126 @@
+import { Vector3 } from 'three';
+
+// Geometry for openings cut into walls. Positions along a wall are
+// distances from its start point; offsets across it are measured to the
+// left of its direction, as with wall faces.
+
+export interface OpeningCut {
+    from: number;    // along the wall
+    to: number;
+    bottom: number;  // above the wall base
+    top: number;
+}
+
+// Part of a wall solid: plan polygons extruded from bottom to top
+export interface WallPiece {
+    polygons: Vector3[][];
+    bottom: number;
+    top: number;
+}
+
+interface WallAxis {
+    start: Vector3;
+    end: Vector3;
+}
+
+function axisDirection(wall: WallAxis): Vector3 {
+    return new Vector3(wall.end.x - wall.start.x, wall.end.y - wall.start.y, 0).normalize();
+}
+
+// Plan point at distance along the wall and offset to its left
+function wallPoint(wall: WallAxis, direction: Vector3, along: number, offset: number): Vector3 {
+    return new Vector3(
+        wall.start.x + direction.x * along - direction.y * offset,
+        wall.start.y + direction.y * along + direction.x * offset,
+        0
+    );
+}
+
+// Keep the part of polygon where the distance along the axis is at least
+// (sign 1) or at most (sign -1) limit
+function clipPolygon(polygon: Vector3[], wall: WallAxis, direction: Vector3, limit: number, sign: number): Vector3[] {
+    const along = (p: Vector3) => (p.x - wall.start.x) * direction.x + (p.y - wall.start.y) * direction.y;
+    const inside = (p: Vector3) => sign * (along(p) - limit) >= 0;
+    const result: Vector3[] = [];
+    polygon.forEach((current, i) => {
+        const previous = polygon[(i + polygon.length - 1) % polygon.length];
+        if (inside(current) !== inside(previous)) {
+            const t = (limit - along(previous)) / (along(current) - along(previous));
+            result.push(new Vector3().lerpVectors(previous, current, t));
+        }
+        if (inside(current)) {
+            result.push(current.clone());
+        }
+    });
+    return result;
+}
+
+// Wall solid of the given height with the cuts removed, as pieces that can
+// be extruded separately. Between each pair of neighbouring cut ends the
+// outline is sliced across the wall and extruded over the heights left solid.
+export function wallPieces(wall: WallAxis, polygons: Vector3[][], height: number, cuts: OpeningCut[]): WallPiece[] {
+    if (cuts.length === 0) {
+        return [{ polygons, bottom: 0, top: height }];
+    }
+    const direction = axisDirection(wall);
+    const breaks = [...new Set(cuts.flatMap(cut => [cut.from, cut.to]))].sort((a, b) => a - b);
+    const bounds = [-Infinity, ...breaks, Infinity];
+
+    const pieces: WallPiece[] = [];
+    for (let i = 0; i < bounds.length - 1; i++) {
+        const from = bounds[i];
+        const to = bounds[i + 1];
+        let slice = polygons;
+        if (from !== -Infinity) slice = slice.map(p => clipPolygon(p, wall, direction, from, 1));
+        if (to !== Infinity) slice = slice.map(p => clipPolygon(p, wall, direction, to, -1));
+        slice = slice.filter(p => p.length >= 3);
+        if (slice.length === 0) continue;
+
+        // Heights left solid in this slice, after removing overlapping cuts
+        let solid: [number, number][] = [[0, height]];
+        cuts.filter(cut => cut.from < to && cut.to > from).forEach(cut => {
+            solid = solid.flatMap(([bottom, top]): [number, number][] => [
+                [bottom, Math.min(top, cut.bottom)] as [number, number],
+                [Math.max(bottom, cut.top), top] as [number, number]
+            ].filter(([b, t]) => t - b > 1e-9));
+        });
+        solid.forEach(([bottom, top]) => pieces.push({ polygons: slice, bottom, top }));
+    }
+    return pieces;
+}
+
+// Plan symbol of an opening: a quad masking the wall fill across the gap,
+// and line segments (pairs of points) for jambs, glazing or the door swing
+export function openingSymbol(
+    wall: WallAxis, faces: { left: number, right: number }, from: number, to: number, kind: 'door' | 'window'
+): { mask: Vector3[], lines: Vector3[] } {
+    const direction = axisDirection(wall);
+    const at = (along: number, offset: number) => wallPoint(wall, direction, along, offset);
+    const mask = [at(from, -faces.right), at(to, -faces.right), at(to, faces.left), at(from, faces.left)];
+
+    const lines = [
+        at(from, -faces.right), at(from, faces.left),
+        at(to, -faces.right), at(to, faces.left)
+    ];
+    if (kind === 'window') {
+        // Glass between the two faces, plus the faces themselves
+        [faces.left, -faces.right, (faces.left - faces.right) / 2].forEach(offset => {
+            lines.push(at(from, offset), at(to, offset));
+        });
+    } else {
+        // Leaf drawn open at 90 degrees on the left side, hinged at the start
+        // jamb, with a quarter-circle swing back to the other jamb
+        const width = to - from;
+        lines.push(at(from, faces.left), at(from, faces.left + width));
+        const segments = 12;
+        for (let i = 0; i < segments; i++) {
+            const a0 = (Math.PI / 2) * (i / segments);
+            const a1 = (Math.PI / 2) * ((i + 1) / segments);
+            lines.push(
+                at(from + width * Math.cos(a0), faces.left + width * Math.sin(a0)),
+                at(from + width * Math.cos(a1), faces.left + width * Math.sin(a1))
+            );
+        }
+    }
+    return { mask, lines };
+}
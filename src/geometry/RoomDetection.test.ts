@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { type RoomWall, detectRooms, labelPoint, pointInPolygon, polygonArea, polygonPerimeter } from './RoomDetection';
+import { wall } from './TestWalls';
+
+// Closed 4 x 3 box of centred walls
+function box(): RoomWall[] {
+    return [wall('a', 0, 0, 4, 0), wall('b', 4, 0, 4, 3), wall('c', 4, 3, 0, 3), wall('d', 0, 3, 0, 0)];
+}
+
+describe('polygon measures', () => {
+    const square = [new Vector3(0, 0, 0), new Vector3(2, 0, 0), new Vector3(2, 2, 0), new Vector3(0, 2, 0)];
+
+    it('measures area with the winding as sign', () => {
+        expect(polygonArea(square)).toBeCloseTo(4);
+        expect(polygonArea([...square].reverse())).toBeCloseTo(-4);
+    });
+
+    it('measures the closed perimeter', () => {
+        expect(polygonPerimeter(square)).toBeCloseTo(8);
+    });
+
+    it('puts the label point inside the polygon', () => {
+        expect(pointInPolygon(labelPoint(square), square)).toBe(true);
+        expect(pointInPolygon(new Vector3(3, 1, 0), square)).toBe(false);
+    });
+});
+
+describe('detectRooms', () => {
+    it('finds the net room inside a closed box', () => {
+        const rooms = detectRooms(box());
+        expect(rooms).toHaveLength(1);
+        expect(rooms[0].area).toBeCloseTo(3.8 * 2.8);
+        expect(rooms[0].area).toBeCloseTo(10.64);
+        expect(rooms[0].perimeter).toBeCloseTo(2 * (3.8 + 2.8));
+        expect([...rooms[0].wallIds].sort()).toEqual(['a', 'b', 'c', 'd']);
+        expect(polygonArea(rooms[0].polygon)).toBeGreaterThan(0);
+    });
+
+    it('does not depend on the direction walls were drawn in', () => {
+        const walls = [wall('a', 4, 0, 0, 0), wall('b', 4, 0, 4, 3), wall('c', 0, 3, 4, 3), wall('d', 0, 3, 0, 0)];
+        const rooms = detectRooms(walls);
+        expect(rooms).toHaveLength(1);
+        expect(rooms[0].area).toBeCloseTo(10.64);
+    });
+
+    it('splits a box divided by a wall into two rooms', () => {
+        const rooms = detectRooms([...box(), wall('e', 2, 0, 2, 3)]);
+        expect(rooms).toHaveLength(2);
+        rooms.forEach(room => {
+            expect(room.area).toBeCloseTo(1.8 * 2.8);
+            expect(room.perimeter).toBeCloseTo(2 * (1.8 + 2.8));
+        });
+    });
+
+    it('uses each wall thickness for the net outline', () => {
+        const walls = box();
+        walls[0] = wall('a', 0, 0, 4, 0, 0.4);
+        const rooms = detectRooms(walls);
+        expect(rooms[0].area).toBeCloseTo(3.8 * 2.7);
+    });
+
+    it('finds no room in an open chain of walls', () => {
+        expect(detectRooms(box().slice(0, 3))).toEqual([]);
+    });
+});
@@ -0,0 +1,251 @@
+import { Vector3 } from 'three';
+import { cross, distance2D, lineIntersectionParams } from './Segment2D';
+
+// Room detection on the plan. Wall centre lines are split where they meet
+// or cross, forming a planar graph; every bounded face of that graph is a
+// room. The net outline of a room runs along the inside faces of its walls.
+
+export interface RoomWall {
+    id: string;
+    start: Vector3;
+    end: Vector3;
+    left: number;   // distance from the centre line to the left face
+    right: number;  // distance from the centre line to the right face
+}
+
+export interface DetectedRoom {
+    boundary: Vector3[];  // centre-line loop, counter-clockwise
+    polygon: Vector3[];   // net outline inside the wall faces, counter-clockwise
+    wallIds: string[];    // walls bounding the room
+    area: number;         // net area
+    perimeter: number;    // net perimeter
+}
+
+interface GraphEdge {
+    from: number;
+    to: number;
+    wall: RoomWall;
+}
+
+// Signed area of a closed polygon, positive when counter-clockwise
+export function polygonArea(polygon: Vector3[]): number {
+    let area = 0;
+    polygon.forEach((p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        area += p.x * q.y - q.x * p.y;
+    });
+    return area / 2;
+}
+
+export function polygonPerimeter(polygon: Vector3[]): number {
+    return polygon.reduce((sum, p, i) => sum + distance2D(p, polygon[(i + 1) % polygon.length]), 0);
+}
+
+export function pointInPolygon(point: Vector3, polygon: Vector3[]): boolean {
+    let inside = false;
+    polygon.forEach((p, i) => {
+        const q = polygon[(i + polygon.length - 1) % polygon.length];
+        if ((p.y > point.y) !== (q.y > point.y) &&
+            point.x < (q.x - p.x) * (point.y - p.y) / (q.y - p.y) + p.x) {
+            inside = !inside;
+        }
+    });
+    return inside;
+}
+
+// A point inside the polygon for placing a label: the centroid if it is
+// inside, otherwise the middle of the widest inside span through it
+export function labelPoint(polygon: Vector3[]): Vector3 {
+    const area = polygonArea(polygon);
+    let cx = 0;
+    let cy = 0;
+    polygon.forEach((p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        const f = p.x * q.y - q.x * p.y;
+        cx += (p.x + q.x) * f;
+        cy += (p.y + q.y) * f;
+    });
+    const centroid = area !== 0
+        ? new Vector3(cx / (6 * area), cy / (6 * area), 0)
+        : polygon[0].clone();
+    if (pointInPolygon(centroid, polygon)) return centroid;
+
+    const crossings: number[] = [];
+    polygon.forEach((p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        if ((p.y > centroid.y) !== (q.y > centroid.y)) {
+            crossings.push(p.x + (centroid.y - p.y) * (q.x - p.x) / (q.y - p.y));
+        }
+    });
+    crossings.sort((a, b) => a - b);
+    let best = centroid;
+    let bestWidth = -1;
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const width = crossings[i + 1] - crossings[i];
+        if (width > bestWidth) {
+            bestWidth = width;
+            best = new Vector3((crossings[i] + crossings[i + 1]) / 2, centroid.y, 0);
+        }
+    }
+    return best;
+}
+
+// Split the walls into graph edges between shared nodes
+function buildGraph(walls: RoomWall[], tolerance: number): { nodes: Vector3[], edges: GraphEdge[] } {
+    const nodes: Vector3[] = [];
+    const nodeAt = (point: Vector3): number => {
+        const index = nodes.findIndex(node => distance2D(node, point) < tolerance);
+        if (index !== -1) return index;
+        nodes.push(new Vector3(point.x, point.y, 0));
+        return nodes.length - 1;
+    };
+
+    // Parameters along each wall where it meets another one
+    const splits = walls.map(() => [0, 1]);
+    walls.forEach((a, i) => {
+        const lengthA = distance2D(a.start, a.end);
+        walls.forEach((b, j) => {
+            if (j <= i) return;
+            const params = lineIntersectionParams(a.start, a.end, b.start, b.end);
+            if (!params) return;
+            const lengthB = distance2D(b.start, b.end);
+            const slackA = tolerance / lengthA;
+            const slackB = tolerance / lengthB;
+            if (params.t < -slackA || params.t > 1 + slackA || params.u < -slackB || params.u > 1 + slackB) return;
+            splits[i].push(Math.min(1, Math.max(0, params.t)));
+            splits[j].push(Math.min(1, Math.max(0, params.u)));
+        });
+    });
+
+    const edges: GraphEdge[] = [];
+    const seen = new Set<string>();
+    walls.forEach((wall, i) => {
+        const stops = [...new Set(splits[i])].sort((a, b) => a - b).map(t => nodeAt(new Vector3(
+            wall.start.x + (wall.end.x - wall.start.x) * t,
+            wall.start.y + (wall.end.y - wall.start.y) * t,
+            0
+        )));
+        for (let k = 0; k + 1 < stops.length; k++) {
+            const from = stops[k];
+            const to = stops[k + 1];
+            const key = from < to ? `${from}-${to}` : `${to}-${from}`;
+            if (from === to || seen.has(key)) continue; // Overlapping walls share edges
+            seen.add(key);
+            edges.push({ from, to, wall });
+        }
+    });
+    return { nodes, edges };
+}
+
+// Drop dangling walls that can't bound a room
+function pruneDanglingEdges(edges: GraphEdge[]): GraphEdge[] {
+    let remaining = edges;
+    for (;;) {
+        const degree = new Map<number, number>();
+        remaining.forEach(edge => {
+            degree.set(edge.from, (degree.get(edge.from) ?? 0) + 1);
+            degree.set(edge.to, (degree.get(edge.to) ?? 0) + 1);
+        });
+        const kept = remaining.filter(edge => degree.get(edge.from)! > 1 && degree.get(edge.to)! > 1);
+        if (kept.length === remaining.length) return kept;
+        remaining = kept;
+    }
+}
+
+// Offset each edge of a closed loop to its left by its own distance and
+// re-join neighbouring edges where the offset lines meet
+function offsetLoop(points: Vector3[], distances: number[]): Vector3[] {
+    const n = points.length;
+    const lines = points.map((a, i) => {
+        const b = points[(i + 1) % n];
+        const length = distance2D(a, b);
+        const nx = -(b.y - a.y) / length * distances[i];
+        const ny = (b.x - a.x) / length * distances[i];
+        return [new Vector3(a.x + nx, a.y + ny, 0), new Vector3(b.x + nx, b.y + ny, 0)];
+    });
+    const corners = lines.map((line, i) => {
+        const previous = lines[(i + n - 1) % n];
+        const params = lineIntersectionParams(previous[0], previous[1], line[0], line[1]);
+        if (!params) return line[0].clone(); // Straight through
+        return new Vector3(
+            previous[0].x + (previous[1].x - previous[0].x) * params.t,
+            previous[0].y + (previous[1].y - previous[0].y) * params.t,
+            0
+        );
+    });
+    // Points in the middle of straight runs add nothing to the outline
+    return corners.filter((p, i) =>
+        Math.abs(cross(corners[(i + n - 1) % n], p, corners[(i + 1) % n])) > 1e-9
+    );
+}
+
+// Rooms enclosed by the given walls
+export function detectRooms(walls: RoomWall[], tolerance: number = 1e-3): DetectedRoom[] {
+    const usable = walls.filter(wall => distance2D(wall.start, wall.end) > tolerance);
+    const { nodes, edges: allEdges } = buildGraph(usable, tolerance);
+    const edges = pruneDanglingEdges(allEdges);
+
+    // Half-edges: 2k runs along edge k, 2k + 1 against it
+    const origin = (h: number) => (h % 2 === 0 ? edges[h >> 1].from : edges[h >> 1].to);
+    const target = (h: number) => (h % 2 === 0 ? edges[h >> 1].to : edges[h >> 1].from);
+    const angle = (h: number) => {
+        const a = nodes[origin(h)];
+        const b = nodes[target(h)];
+        return Math.atan2(b.y - a.y, b.x - a.x);
+    };
+
+    // Outgoing half-edges of each node, counter-clockwise
+    const outgoing = new Map<number, number[]>();
+    for (let h = 0; h < edges.length * 2; h++) {
+        const list = outgoing.get(origin(h)) ?? [];
+        list.push(h);
+        outgoing.set(origin(h), list);
+    }
+    outgoing.forEach(list => list.sort((a, b) => angle(a) - angle(b)));
+
+    // Turning as far right as possible at each node walks each face with
+    // the face on the left: bounded faces counter-clockwise, the outside clockwise
+    const next = (h: number) => {
+        const list = outgoing.get(target(h))!;
+        const twin = h ^ 1;
+        const index = list.indexOf(twin);
+        return list[(index + list.length - 1) % list.length];
+    };
+
+    const visited = new Set<number>();
+    const rooms: DetectedRoom[] = [];
+    for (let start = 0; start < edges.length * 2; start++) {
+        if (visited.has(start)) continue;
+        const loop: number[] = [];
+        let h = start;
+        while (!visited.has(h)) {
+            visited.add(h);
+            loop.push(h);
+            h = next(h);
+        }
+        if (h !== start) continue; // Not a closed face walk
+
+        const boundary = loop.map(edge => nodes[origin(edge)].clone());
+        if (polygonArea(boundary) <= tolerance * tolerance) continue;
+
+        // Along the wall the room is on its left, against it on its right
+        const distances = loop.map(edge => {
+            const wall = edges[edge >> 1].wall;
+            const alongWall = distance2D(nodes[origin(edge)], wall.start) < distance2D(nodes[target(edge)], wall.start);
+            return alongWall ? wall.left : wall.right;
+        });
+        const polygon = offsetLoop(boundary, distances);
+        if (polygon.length < 3) continue;
+        const area = polygonArea(polygon);
+        if (area <= 0) continue; // Walls thicker than the room
+
+        rooms.push({
+            boundary,
+            polygon,
+            wallIds: [...new Set(loop.map(edge => edges[edge >> 1].wall.id))],
+            area,
+            perimeter: polygonPerimeter(polygon)
+        });
+    }
+    return rooms;
+}
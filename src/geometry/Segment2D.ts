@@ -0,0 +1,97 @@
+import { Vector3 } from 'three';
+
+// Plan geometry helpers. All functions work on the XY plane and ignore Z,
+// returned points lie on Z=0.
+
+// Parameter (0..1) of the point on segment ab closest to p
+export function projectOntoSegment(p: Vector3, a: Vector3, b: Vector3): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return 0;
+    const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+    return Math.min(1, Math.max(0, t));
+}
+
+export function pointAt(a: Vector3, b: Vector3, t: number): Vector3 {
+    return new Vector3(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, 0);
+}
+
+export function closestPointOnSegment(p: Vector3, a: Vector3, b: Vector3): Vector3 {
+    return pointAt(a, b, projectOntoSegment(p, a, b));
+}
+
+export function distance2D(a: Vector3, b: Vector3): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+export function distanceToSegment(p: Vector3, a: Vector3, b: Vector3): number {
+    return distance2D(p, closestPointOnSegment(p, a, b));
+}
+
+// 2D cross product of (b - a) and (c - a); positive when c is left of ab
+export function cross(a: Vector3, b: Vector3, c: Vector3): number {
+    return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+// Intersection of the infinite lines through ab and cd, as parameters along
+// each line (t on ab, u on cd). Null for parallel lines.
+export function lineIntersectionParams(
+    a: Vector3, b: Vector3, c: Vector3, d: Vector3
+): { t: number, u: number } | null {
+    const rx = b.x - a.x;
+    const ry = b.y - a.y;
+    const sx = d.x - c.x;
+    const sy = d.y - c.y;
+    const denominator = rx * sy - ry * sx;
+    if (Math.abs(denominator) < 1e-12) return null;
+    const qx = c.x - a.x;
+    const qy = c.y - a.y;
+    return {
+        t: (qx * sy - qy * sx) / denominator,
+        u: (qx * ry - qy * rx) / denominator
+    };
+}
+
+// Intersection point of segments ab and cd, or null if they don't cross
+export function segmentIntersection(
+    a: Vector3, b: Vector3, c: Vector3, d: Vector3, epsilon: number = 1e-9
+): Vector3 | null {
+    const params = lineIntersectionParams(a, b, c, d);
+    if (!params) return null;
+    const { t, u } = params;
+    if (t < -epsilon || t > 1 + epsilon || u < -epsilon || u > 1 + epsilon) return null;
+    return pointAt(a, b, t);
+}
+
+// Parts of segment ab outside a convex polygon. Points on the polygon's
+// boundary count as inside, within epsilon.
+export function subtractConvexPolygon(
+    a: Vector3, b: Vector3, polygon: Vector3[], epsilon: number = 1e-9
+): [Vector3, Vector3][] {
+    // Clip the segment's parameter range to the polygon (Cyrus-Beck)
+    const orientation = Math.sign(polygon.reduce((sum, p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        return sum + p.x * q.y - q.x * p.y;
+    }, 0)) || 1;
+    let enter = 0;
+    let exit = 1;
+    for (let i = 0; i < polygon.length && enter <= exit; i++) {
+        const p = polygon[i];
+        const q = polygon[(i + 1) % polygon.length];
+        const edgeLength = distance2D(p, q);
+        if (edgeLength === 0) continue;
+        // Signed distances of a and b inside the edge
+        const da = orientation * cross(p, q, a) / edgeLength + epsilon;
+        const db = orientation * cross(p, q, b) / edgeLength + epsilon;
+        if (da < 0 && db < 0) return [[a, b]];
+        if (da < 0) enter = Math.max(enter, da / (da - db));
+        else if (db < 0) exit = Math.min(exit, da / (da - db));
+    }
+    if (enter > exit) return [[a, b]];
+
+    const parts: [Vector3, Vector3][] = [];
+    if (enter > 0) parts.push([a, pointAt(a, b, enter)]);
+    if (exit < 1) parts.push([pointAt(a, b, exit), b]);
+    return parts;
+}
@@ -0,0 +1,10 @@
+import { Vector3 } from 'three';
+import type { JoinWall } from './WallJoins';
+
+// Wall fixtures shared by the geometry tests. Join and room detection both
+// take walls as a centre line with face offsets.
+
+// Centred wall of the given thickness
+export function wall(id: string, x1: number, y1: number, x2: number, y2: number, thickness: number = 0.2): JoinWall {
+    return { id, start: new Vector3(x1, y1, 0), end: new Vector3(x2, y2, 0), left: thickness / 2, right: thickness / 2 };
+}
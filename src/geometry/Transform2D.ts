@@ -0,0 +1,35 @@
+import { Vector3 } from 'three';
+
+// Plan transforms as point mappers. Z is preserved.
+export type PointTransform = (point: Vector3) => Vector3;
+
+export function translation(from: Vector3, to: Vector3): PointTransform {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    return point => new Vector3(point.x + dx, point.y + dy, point.z);
+}
+
+// Counter-clockwise rotation by angle (radians) about center
+export function rotation(center: Vector3, angle: number): PointTransform {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return point => {
+        const x = point.x - center.x;
+        const y = point.y - center.y;
+        return new Vector3(center.x + x * cos - y * sin, center.y + x * sin + y * cos, point.z);
+    };
+}
+
+// Reflection across the line through a and b. Null if a and b coincide.
+export function reflection(a: Vector3, b: Vector3): PointTransform | null {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq < 1e-18) return null;
+    return point => {
+        const t = ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq;
+        const footX = a.x + dx * t;
+        const footY = a.y + dy * t;
+        return new Vector3(2 * footX - point.x, 2 * footY - point.y, point.z);
+    };
+}
@@ -0,0 +1,84 @@
+import { Vector3 } from 'three';
+import { cross, distance2D, lineIntersectionParams, pointAt } from './Segment2D';
+
+// Plan-cleanup operations on wall centre lines. Each returns the new end
+// points of the edited wall, or null when the operation doesn't apply.
+
+export interface WallSegment {
+    start: Vector3;
+    end: Vector3;
+}
+
+const EPSILON = 1e-6;
+
+// Unclamped parameter of p along ab
+function parameterAlong(p: Vector3, a: Vector3, b: Vector3): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return 0;
+    return ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+}
+
+function withZ(point: Vector3, z: number): Vector3 {
+    return new Vector3(point.x, point.y, z);
+}
+
+// Cut wall where it crosses cutter and drop the part on the picked side
+export function trimSegment(wall: WallSegment, cutter: WallSegment, pickPoint: Vector3): WallSegment | null {
+    const params = lineIntersectionParams(wall.start, wall.end, cutter.start, cutter.end);
+    if (!params) return null;
+    const { t, u } = params;
+    if (t <= EPSILON || t >= 1 - EPSILON || u < -EPSILON || u > 1 + EPSILON) return null;
+
+    const cut = pointAt(wall.start, wall.end, t);
+    return parameterAlong(pickPoint, wall.start, wall.end) < t
+        ? { start: withZ(cut, wall.start.z), end: wall.end.clone() }
+        : { start: wall.start.clone(), end: withZ(cut, wall.end.z) };
+}
+
+// Lengthen the wall end nearest the pick until it meets boundary
+export function extendSegment(wall: WallSegment, boundary: WallSegment, pickPoint: Vector3): WallSegment | null {
+    const params = lineIntersectionParams(wall.start, wall.end, boundary.start, boundary.end);
+    if (!params) return null;
+    const { t, u } = params;
+    if (u < -EPSILON || u > 1 + EPSILON) return null;
+
+    const target = pointAt(wall.start, wall.end, t);
+    if (parameterAlong(pickPoint, wall.start, wall.end) < 0.5) {
+        if (t >= -EPSILON) return null; // Boundary is not beyond the start
+        return { start: withZ(target, wall.start.z), end: wall.end.clone() };
+    }
+    if (t <= 1 + EPSILON) return null; // Boundary is not beyond the end
+    return { start: wall.start.clone(), end: withZ(target, wall.end.z) };
+}
+
+// Point on the wall nearest point, or null if it falls on an end
+export function splitPoint(wall: WallSegment, point: Vector3): Vector3 | null {
+    const t = parameterAlong(point, wall.start, wall.end);
+    const length = distance2D(wall.start, wall.end);
+    if (t * length < EPSILON || (1 - t) * length < EPSILON) return null;
+    return withZ(pointAt(wall.start, wall.end, t), wall.start.z);
+}
+
+// Single wall covering a and b, if they are collinear and touch or overlap.
+// The result keeps the direction of a.
+export function mergeSegments(a: WallSegment, b: WallSegment, tolerance: number = 1e-3): WallSegment | null {
+    const length = distance2D(a.start, a.end);
+    if (length < EPSILON) return null;
+    if (Math.abs(cross(a.start, a.end, b.start)) / length > tolerance ||
+        Math.abs(cross(a.start, a.end, b.end)) / length > tolerance) {
+        return null;
+    }
+
+    const tb = [parameterAlong(b.start, a.start, a.end), parameterAlong(b.end, a.start, a.end)];
+    const gap = Math.max(Math.min(...tb) - 1, -Math.max(...tb)) * length;
+    if (gap > tolerance) return null;
+
+    const tMin = Math.min(0, ...tb);
+    const tMax = Math.max(1, ...tb);
+    return {
+        start: withZ(pointAt(a.start, a.end, tMin), a.start.z),
+        end: withZ(pointAt(a.start, a.end, tMax), a.end.z)
+    };
+}
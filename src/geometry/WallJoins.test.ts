@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { type JoinWall, resolveWallOutlines } from './WallJoins';
+import { wall } from './TestWalls';
+
+// Signed shoelace area, positive for CCW polygons
+function signedArea(polygon: Vector3[]): number {
+    return polygon.reduce((sum, point, i) => {
+        const next = polygon[(i + 1) % polygon.length];
+        return sum + point.x * next.y - next.x * point.y;
+    }, 0) / 2;
+}
+
+function outlineArea(polygons: Vector3[][]): number {
+    return polygons.reduce((sum, polygon) => sum + signedArea(polygon), 0);
+}
+
+function totalArea(walls: JoinWall[]): number {
+    let total = 0;
+    resolveWallOutlines(walls).forEach(polygons => total += outlineArea(polygons));
+    return total;
+}
+
+function hasCorner(polygons: Vector3[][], x: number, y: number): boolean {
+    return polygons.some(polygon => polygon.some(point => Math.hypot(point.x - x, point.y - y) < 1e-6));
+}
+
+describe('resolveWallOutlines', () => {
+    it('draws a lone wall as a rectangle', () => {
+        const outlines = resolveWallOutlines([wall('a', 0, 0, 4, 0)]);
+        const polygons = outlines.get('a')!;
+        expect(polygons).toHaveLength(1);
+        expect(signedArea(polygons[0])).toBeCloseTo(0.8);
+        expect(hasCorner(polygons, 0, -0.1)).toBe(true);
+        expect(hasCorner(polygons, 4, 0.1)).toBe(true);
+    });
+
+    it('mitres an L corner without overlap or gap', () => {
+        const walls = [wall('a', 0, 0, 4, 0), wall('b', 4, 0, 4, 3)];
+        const outlines = resolveWallOutlines(walls);
+        // Both walls meet on the diagonal through the outer and inner corners
+        [outlines.get('a')!, outlines.get('b')!].forEach(polygons => {
+            expect(hasCorner(polygons, 4.1, -0.1)).toBe(true);
+            expect(hasCorner(polygons, 3.9, 0.1)).toBe(true);
+        });
+        expect(totalArea(walls)).toBeCloseTo(4.1 * 0.2 + 2.9 * 0.2);
+    });
+
+    it('joins a T at a shared end point', () => {
+        const walls = [wall('a', 0, 0, 4, 0), wall('b', 4, 0, 8, 0), wall('c', 4, 0, 4, 3)];
+        expect(totalArea(walls)).toBeCloseTo(8 * 0.2 + 2.9 * 0.2);
+    });
+
+    it('butts a wall ending mid-span against the face of the other wall', () => {
+        const outlines = resolveWallOutlines([wall('host', 0, 0, 8, 0), wall('stem', 4, 0, 4, 3)]);
+        const stem = outlines.get('stem')!;
+        expect(outlineArea(outlines.get('host')!)).toBeCloseTo(1.6);
+        expect(outlineArea(stem)).toBeCloseTo(2.9 * 0.2);
+        expect(Math.min(...stem[0].map(point => point.y))).toBeCloseTo(0.1);
+    });
+
+    it('joins an X at a shared end point', () => {
+        const walls = [wall('e', 0, 0, 2, 0), wall('n', 0, 0, 0, 2), wall('w', 0, 0, -2, 0), wall('s', 0, 0, 0, -2)];
+        expect(totalArea(walls)).toBeCloseTo(4 * 0.2 + 2 * 1.9 * 0.2);
+    });
+
+    it('cuts the later wall where two walls cross mid-span', () => {
+        const outlines = resolveWallOutlines([wall('a', 0, 0, 4, 0), wall('b', 2, -2, 2, 2)]);
+        expect(outlines.get('a')).toHaveLength(1);
+        expect(outlines.get('b')).toHaveLength(2);
+        expect(outlineArea(outlines.get('a')!)).toBeCloseTo(0.8);
+        expect(outlineArea(outlines.get('b')!)).toBeCloseTo(0.8 - 0.2 * 0.2);
+    });
+
+    it('closes a rectangle with four mitred corners', () => {
+        const walls = [
+            wall('a', 0, 0, 4, 0), wall('b', 4, 0, 4, 3),
+            wall('c', 4, 3, 0, 3), wall('d', 0, 3, 0, 0)
+        ];
+        const outlines = resolveWallOutlines(walls);
+        walls.forEach(w => {
+            const polygons = outlines.get(w.id)!;
+            expect(polygons).toHaveLength(1);
+            expect(signedArea(polygons[0])).toBeGreaterThan(0);
+            // Every corner lies on the outer or the inner face of the ring,
+            // or is the node point where the mitres meet
+            polygons[0].forEach(point => {
+                if (hasCorner([[w.start, w.end]], point.x, point.y)) return;
+                const onOuter = [-0.1, 4.1].some(x => Math.abs(point.x - x) < 1e-6) || [-0.1, 3.1].some(y => Math.abs(point.y - y) < 1e-6);
+                const onInner = [0.1, 3.9].some(x => Math.abs(point.x - x) < 1e-6) || [0.1, 2.9].some(y => Math.abs(point.y - y) < 1e-6);
+                expect(onOuter || onInner).toBe(true);
+            });
+        });
+        expect(totalArea(walls)).toBeCloseTo(4.2 * 3.2 - 3.8 * 2.8);
+    });
+
+    it('gives zero-length walls no outline', () => {
+        expect(resolveWallOutlines([wall('a', 1, 1, 1, 1)]).get('a')).toEqual([]);
+    });
+});
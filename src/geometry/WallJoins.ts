@@ -0,0 +1,322 @@
+import { Vector3 } from 'three';
+import { cross, lineIntersectionParams, projectOntoSegment } from './Segment2D';
+
+// Join resolution for wall outlines on the plan.
+//
+// - Wall ends meeting at a shared point (L, T and X nodes) are mitred: the
+//   incident walls are sorted by angle around the node and each pair of
+//   neighbouring faces is extended to its intersection.
+// - A wall ending on the span of another wall (mid-span T) is butted against
+//   the face of the wall it runs into.
+// - Walls crossing each other mid-span (X) are cleaned up by cutting the
+//   later wall where it passes through the earlier one.
+//
+// Pure geometry: no three.js scene objects, all points lie on Z=0.
+
+export interface JoinWall {
+    id: string;
+    start: Vector3;
+    end: Vector3;
+    left: number;  // distance from the drawn line to the left face
+    right: number; // distance from the drawn line to the right face
+}
+
+// Outline of each wall as one or more CCW polygons (several when the wall is
+// cut by a crossing wall)
+export type WallOutlines = Map<string, Vector3[][]>;
+
+// Mitres longer than this many wall thicknesses fall back to a square end
+const MAX_MITRE_RATIO = 5;
+
+interface WallFrame {
+    wall: JoinWall;
+    index: number;
+    direction: Vector3; // unit vector start -> end
+    normal: Vector3;    // unit vector to the left of direction
+    length: number;
+}
+
+// End cap of a wall: corners on the wall's own right/left faces, plus the
+// node point when the cap is part of a mitred junction
+interface Cap {
+    right: Vector3;
+    left: Vector3;
+    node: Vector3 | null;
+}
+
+// Part of a wall removed where it crosses another wall, as distances from
+// the start along the right and left faces
+interface Cut {
+    enterRight: number;
+    enterLeft: number;
+    exitRight: number;
+    exitLeft: number;
+}
+
+interface NodeEnd {
+    frame: WallFrame;
+    atStart: boolean;
+    outward: Vector3;  // direction leaving the node along the wall
+    outLeft: number;   // half width on the left of outward
+    outRight: number;  // half width on the right of outward
+}
+
+function offset(point: Vector3, direction: Vector3, distance: number): Vector3 {
+    return new Vector3(point.x + direction.x * distance, point.y + direction.y * distance, 0);
+}
+
+function perpendicular(v: Vector3): Vector3 {
+    return new Vector3(-v.y, v.x, 0);
+}
+
+function createFrame(wall: JoinWall, index: number): WallFrame | null {
+    const dx = wall.end.x - wall.start.x;
+    const dy = wall.end.y - wall.start.y;
+    const length = Math.hypot(dx, dy);
+    if (length < 1e-9) return null;
+    const direction = new Vector3(dx / length, dy / length, 0);
+    return { wall, index, direction, normal: perpendicular(direction), length };
+}
+
+function squareCap(frame: WallFrame, atStart: boolean): Cap {
+    const point = atStart ? frame.wall.start : frame.wall.end;
+    return {
+        right: offset(point, frame.normal, -frame.wall.right),
+        left: offset(point, frame.normal, frame.wall.left),
+        node: null
+    };
+}
+
+// Group wall ends whose points coincide within tolerance
+function findNodes(frames: WallFrame[], tolerance: number): NodeEnd[][] {
+    const nodes: { point: Vector3, ends: NodeEnd[] }[] = [];
+    frames.forEach(frame => {
+        [true, false].forEach(atStart => {
+            const point = atStart ? frame.wall.start : frame.wall.end;
+            const end: NodeEnd = atStart
+                ? { frame, atStart, outward: frame.direction, outLeft: frame.wall.left, outRight: frame.wall.right }
+                : { frame, atStart, outward: frame.direction.clone().negate(), outLeft: frame.wall.right, outRight: frame.wall.left };
+            const node = nodes.find(n => Math.hypot(n.point.x - point.x, n.point.y - point.y) <= tolerance);
+            if (node) {
+                node.ends.push(end);
+            } else {
+                nodes.push({ point: point.clone(), ends: [end] });
+            }
+        });
+    });
+    return nodes.map(n => n.ends);
+}
+
+// Corner between the left face of end a and the right face of end b, where b
+// is the next end counter-clockwise around the node
+function mitreCorner(node: Vector3, a: NodeEnd, b: NodeEnd): Vector3 {
+    const aOrigin = offset(node, perpendicular(a.outward), a.outLeft);
+    const bOrigin = offset(node, perpendicular(b.outward), -b.outRight);
+    const params = lineIntersectionParams(
+        aOrigin, offset(aOrigin, a.outward, 1),
+        bOrigin, offset(bOrigin, b.outward, 1)
+    );
+    if (params) {
+        const corner = offset(aOrigin, a.outward, params.t);
+        const limit = MAX_MITRE_RATIO * Math.max(a.outLeft + a.outRight, b.outLeft + b.outRight);
+        if (Math.hypot(corner.x - node.x, corner.y - node.y) <= limit) {
+            return corner;
+        }
+    }
+    // Parallel faces or a spike from a very sharp angle: square off
+    return aOrigin;
+}
+
+// Mitre caps for every wall end that shares a node with other ends
+function resolveNodeCaps(nodes: NodeEnd[][], caps: Map<WallFrame, { start: Cap, end: Cap }>) {
+    nodes.filter(ends => ends.length > 1).forEach(ends => {
+        const node = ends[0].atStart ? ends[0].frame.wall.start : ends[0].frame.wall.end;
+        const sorted = [...ends].sort((a, b) =>
+            Math.atan2(a.outward.y, a.outward.x) - Math.atan2(b.outward.y, b.outward.x)
+        );
+
+        sorted.forEach((end, i) => {
+            const next = sorted[(i + 1) % sorted.length];
+            const previous = sorted[(i - 1 + sorted.length) % sorted.length];
+            const outLeftCorner = mitreCorner(node, end, next);
+            const outRightCorner = mitreCorner(node, previous, end);
+
+            // Left of outward is the wall's left at its start and its right at its end
+            const cap: Cap = end.atStart
+                ? { right: outRightCorner, left: outLeftCorner, node: new Vector3(node.x, node.y, 0) }
+                : { right: outLeftCorner, left: outRightCorner, node: new Vector3(node.x, node.y, 0) };
+            const wallCaps = caps.get(end.frame)!;
+            if (end.atStart) {
+                wallCaps.start = cap;
+            } else {
+                wallCaps.end = cap;
+            }
+        });
+    });
+}
+
+// Host wall a free end runs into, if the end lies on another wall's span
+function findButtHost(frame: WallFrame, atStart: boolean, frames: WallFrame[], tolerance: number): WallFrame | null {
+    const point = atStart ? frame.wall.start : frame.wall.end;
+    for (const host of frames) {
+        if (host === frame) continue;
+        const t = projectOntoSegment(point, host.wall.start, host.wall.end);
+        const along = t * host.length;
+        if (along <= tolerance || along >= host.length - tolerance) continue;
+
+        // Signed distance from the host's drawn line, positive on its left
+        const side = (point.x - host.wall.start.x) * host.normal.x + (point.y - host.wall.start.y) * host.normal.y;
+        if (side <= host.wall.left + tolerance && -side <= host.wall.right + tolerance) {
+            return host;
+        }
+    }
+    return null;
+}
+
+// Square cap trimmed back to the face of the host wall it runs into
+function buttCap(frame: WallFrame, atStart: boolean, host: WallFrame): Cap {
+    // The face that looks towards the rest of the butting wall
+    const far = atStart ? frame.wall.end : frame.wall.start;
+    const onLeft = cross(host.wall.start, host.wall.end, far) > 0;
+    const faceOrigin = offset(host.wall.start, host.normal, onLeft ? host.wall.left : -host.wall.right);
+    const faceEnd = offset(faceOrigin, host.direction, 1);
+
+    const trim = (sideOrigin: Vector3, fallback: Vector3) => {
+        const params = lineIntersectionParams(sideOrigin, offset(sideOrigin, frame.direction, 1), faceOrigin, faceEnd);
+        return params ? offset(sideOrigin, frame.direction, params.t) : fallback;
+    };
+
+    const square = squareCap(frame, atStart);
+    return {
+        right: trim(offset(frame.wall.start, frame.normal, -frame.wall.right), square.right),
+        left: trim(offset(frame.wall.start, frame.normal, frame.wall.left), square.left),
+        node: null
+    };
+}
+
+// Where the faces of wall frame enter and leave host, when the two cross mid-span
+function crossingCut(frame: WallFrame, host: WallFrame, tolerance: number): Cut | null {
+    const params = lineIntersectionParams(frame.wall.start, frame.wall.end, host.wall.start, host.wall.end);
+    if (!params) return null;
+    const { t, u } = params;
+    const margin = tolerance / Math.min(frame.length, host.length);
+    if (t <= margin || t >= 1 - margin || u <= margin || u >= 1 - margin) return null;
+
+    const hostFaces = [
+        offset(host.wall.start, host.normal, host.wall.left),
+        offset(host.wall.start, host.normal, -host.wall.right)
+    ];
+    const alongFace = (sideOrigin: Vector3) => hostFaces.map(face => {
+        const hit = lineIntersectionParams(sideOrigin, offset(sideOrigin, frame.direction, 1), face, offset(face, host.direction, 1));
+        return hit ? hit.t : NaN;
+    });
+
+    const right = alongFace(offset(frame.wall.start, frame.normal, -frame.wall.right));
+    const left = alongFace(offset(frame.wall.start, frame.normal, frame.wall.left));
+    if ([...right, ...left].some(Number.isNaN)) return null;
+
+    const cut: Cut = {
+        enterRight: Math.min(...right),
+        exitRight: Math.max(...right),
+        enterLeft: Math.min(...left),
+        exitLeft: Math.max(...left)
+    };
+    // Only clean crossings well inside the span; anything else stays whole
+    if (Math.min(cut.enterRight, cut.enterLeft) <= tolerance ||
+        Math.max(cut.exitRight, cut.exitLeft) >= frame.length - tolerance) {
+        return null;
+    }
+    return cut;
+}
+
+// Split a wall outline into polygons around its cuts
+function buildPolygons(frame: WallFrame, startCap: Cap, endCap: Cap, cuts: Cut[]): Vector3[][] {
+    const rightOrigin = offset(frame.wall.start, frame.normal, -frame.wall.right);
+    const leftOrigin = offset(frame.wall.start, frame.normal, frame.wall.left);
+    const polygons: Vector3[][] = [];
+
+    let fromRight = startCap.right;
+    let fromLeft = startCap.left;
+    let fromNode = startCap.node;
+
+    const sortedCuts = [...cuts].sort((a, b) => a.enterRight - b.enterRight);
+    // Overlapping cuts would produce inverted pieces, keep only disjoint ones
+    const disjoint: Cut[] = [];
+    sortedCuts.forEach(cut => {
+        const last = disjoint[disjoint.length - 1];
+        if (!last || (cut.enterRight > last.exitRight && cut.enterLeft > last.exitLeft)) {
+            disjoint.push(cut);
+        }
+    });
+
+    const pieces: { toRight: Vector3, toLeft: Vector3, toNode: Vector3 | null, next?: Cut }[] = disjoint.map(cut => ({
+        toRight: offset(rightOrigin, frame.direction, cut.enterRight),
+        toLeft: offset(leftOrigin, frame.direction, cut.enterLeft),
+        toNode: null,
+        next: cut
+    }));
+    pieces.push({ toRight: endCap.right, toLeft: endCap.left, toNode: endCap.node });
+
+    pieces.forEach(piece => {
+        const polygon = [fromRight, piece.toRight];
+        if (piece.toNode) polygon.push(piece.toNode);
+        polygon.push(piece.toLeft, fromLeft);
+        if (fromNode) polygon.push(fromNode);
+        polygons.push(polygon.map(p => p.clone()));
+
+        if (piece.next) {
+            fromRight = offset(rightOrigin, frame.direction, piece.next.exitRight);
+            fromLeft = offset(leftOrigin, frame.direction, piece.next.exitLeft);
+            fromNode = null;
+        }
+    });
+    return polygons;
+}
+
+// Compute the plan outline polygons of every wall, taking joins into account.
+// Zero-length walls get no polygons.
+export function resolveWallOutlines(walls: JoinWall[], tolerance: number = 1e-3): WallOutlines {
+    const outlines: WallOutlines = new Map();
+    const frames: WallFrame[] = [];
+    walls.forEach((wall, index) => {
+        const frame = createFrame(wall, index);
+        if (frame) {
+            frames.push(frame);
+        } else {
+            outlines.set(wall.id, []);
+        }
+    });
+
+    const caps = new Map<WallFrame, { start: Cap, end: Cap }>();
+    frames.forEach(frame => caps.set(frame, { start: squareCap(frame, true), end: squareCap(frame, false) }));
+
+    // L, T and X junctions at shared end points
+    const nodes = findNodes(frames, tolerance);
+    resolveNodeCaps(nodes, caps);
+
+    // Mid-span T junctions: free ends running into another wall
+    nodes.filter(ends => ends.length === 1).forEach(([end]) => {
+        const host = findButtHost(end.frame, end.atStart, frames, tolerance);
+        if (host) {
+            const wallCaps = caps.get(end.frame)!;
+            const cap = buttCap(end.frame, end.atStart, host);
+            if (end.atStart) {
+                wallCaps.start = cap;
+            } else {
+                wallCaps.end = cap;
+            }
+        }
+    });
+
+    // Mid-span X junctions: the later wall is cut where it crosses earlier ones
+    frames.forEach(frame => {
+        const cuts = frames
+            .filter(host => host.index < frame.index)
+            .map(host => crossingCut(frame, host, tolerance))
+            .filter((cut): cut is Cut => cut !== null);
+        const { start, end } = caps.get(frame)!;
+        outlines.set(frame.wall.id, buildPolygons(frame, start, end, cuts));
+    });
+
+    return outlines;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import planLayersModel from '../io/fixtures/plan-layers-model.json?raw';
+import { type ModelSnapshot, createSnapshot, levelSnapshot, snapshotsEqual } from './ModelSnapshot';
+import { parseProject } from '../io/ProjectFile';
+
+function model(): ModelSnapshot {
+    return parseProject(planLayersModel);
+}
+
+describe('createSnapshot', () => {
+    it('copies the model', () => {
+        const original = model();
+        const snapshot = createSnapshot(original);
+        expect(snapshot).toEqual(original);
+        expect(snapshotsEqual(snapshot, original)).toBe(true);
+    });
+
+    it('shares nothing that later edits could change', () => {
+        const original = model();
+        const snapshot = createSnapshot(original);
+        original.units.precision = 0;
+        original.layers[0].visible = false;
+        original.levels[0].elevation = 3;
+        original.walls[0].start.x = 1;
+        original.openings[0].width = 2;
+        original.roomTags[0].position.y = 2;
+        original.dimensions[0].anchors[0].end = 'end';
+        original.walls.pop();
+        expect(snapshot).toEqual(model());
+    });
+
+    it('clears selection and highlight flags', () => {
+        const original = model();
+        original.walls[0].selected = true;
+        original.walls[0].highlighted = true;
+        original.openings[0].selected = true;
+        original.dimensions[0].selected = true;
+        const snapshot = createSnapshot(original);
+        expect(snapshot.walls[0]).toMatchObject({ selected: false, highlighted: false });
+        expect(snapshot.openings[0].selected).toBe(false);
+        expect(snapshot.dimensions[0].selected).toBe(false);
+    });
+});
+
+describe('snapshotsEqual', () => {
+    it('ignores display flags', () => {
+        const changed = model();
+        changed.walls[0].selected = true;
+        changed.dimensions[0].selected = true;
+        expect(snapshotsEqual(model(), changed)).toBe(true);
+    });
+
+    it.each<[string, (model: ModelSnapshot) => void]>([
+        ['units', m => m.units.unit = 'mm'],
+        ['a layer', m => m.layers[5].visible = true],
+        ['a level', m => m.levels[0].name = 'Basement'],
+        ['a wall end', m => m.walls[0].end.y = 0.5],
+        ['a wall property', m => m.walls[1].justification = 'left'],
+        ['an opening', m => m.openings[1].offset = 2],
+        ['a room tag', m => m.roomTags[0].name = 'Hall'],
+        ['a dimension offset', m => m.dimensions[1].offset = 1],
+        ['a dimension anchor', m => m.dimensions[0].anchors[2].wallId = 'wall_1'],
+        ['the number of walls', m => m.walls.pop()],
+        ['the number of dimensions', m => m.dimensions.pop()]
+    ])('tells models apart by %s', (_, change) => {
+        const changed = model();
+        change(changed);
+        expect(snapshotsEqual(model(), changed)).toBe(false);
+        expect(snapshotsEqual(changed, model())).toBe(false);
+    });
+});
+
+describe('levelSnapshot', () => {
+    it('keeps the walls of one level and everything placed on them', () => {
+        const original = model();
+        original.levels.push({ type: 'level', id: 'level_1', name: 'First floor', elevation: 3 });
+        original.walls[2].levelId = 'level_1';
+        original.walls[5].levelId = 'level_1';
+        original.roomTags[1].levelId = 'level_1';
+        original.dimensions.push({
+            type: 'dimension',
+            id: 'dimension_3',
+            levelId: 'level_1',
+            kind: 'aligned',
+            anchors: [{ wallId: 'wall_5', end: 'start' }, { wallId: 'wall_5', end: 'end' }],
+            offset: 1
+        });
+        const level = levelSnapshot(original, 'level_0');
+        expect(level.walls.map(wall => wall.id)).toEqual(['wall_0', 'wall_1', 'wall_3', 'wall_4']);
+        // The window goes with its host wall_2
+        expect(level.openings.map(opening => opening.id)).toEqual(['opening_0']);
+        expect(level.roomTags.map(tag => tag.id)).toEqual(['room_0']);
+        expect(level.dimensions.map(dimension => dimension.id)).toEqual(['dimension_0', 'dimension_1', 'dimension_2']);
+        expect(level.levels).toHaveLength(2);
+    });
+});
@@ -0,0 +1,162 @@
+import type { Wall } from '../Viewer';
+import type { Opening } from '../model/Opening';
+import type { RoomTag } from '../model/Room';
+import type { Dimension } from '../model/Dimension';
+import type { Level } from '../model/Level';
+import type { Layer } from '../model/Layer';
+import type { UnitSettings } from '../units/Units';
+
+// Plain copy of everything that makes up the editable model. Used as the
+// state stored in the undo history; display flags are not part of it.
+export interface ModelSnapshot {
+    units: UnitSettings;
+    layers: Layer[];
+    layerCounter: number;
+    levels: Level[];
+    levelCounter: number;
+    walls: Wall[];
+    wallCounter: number;
+    openings: Opening[];
+    openingCounter: number;
+    roomTags: RoomTag[];
+    roomCounter: number;
+    dimensions: Dimension[];
+    dimensionCounter: number;
+}
+
+export function cloneLayer(layer: Layer): Layer {
+    return { ...layer };
+}
+
+export function cloneLevel(level: Level): Level {
+    return { ...level };
+}
+
+export function cloneWall(wall: Wall): Wall {
+    return {
+        ...wall,
+        start: wall.start.clone(),
+        end: wall.end.clone(),
+        selected: false,
+        highlighted: false
+    };
+}
+
+export function cloneOpening(opening: Opening): Opening {
+    return { ...opening, selected: false };
+}
+
+export function cloneRoomTag(tag: RoomTag): RoomTag {
+    return { ...tag, position: tag.position.clone() };
+}
+
+export function cloneDimension(dimension: Dimension): Dimension {
+    return { ...dimension, anchors: dimension.anchors.map(anchor => ({ ...anchor })), selected: false };
+}
+
+// Deep copy of the model, with display flags cleared
+export function createSnapshot(model: ModelSnapshot): ModelSnapshot {
+    return {
+        units: { ...model.units },
+        layers: model.layers.map(cloneLayer),
+        layerCounter: model.layerCounter,
+        levels: model.levels.map(cloneLevel),
+        levelCounter: model.levelCounter,
+        walls: model.walls.map(cloneWall),
+        wallCounter: model.wallCounter,
+        openings: model.openings.map(cloneOpening),
+        openingCounter: model.openingCounter,
+        roomTags: model.roomTags.map(cloneRoomTag),
+        roomCounter: model.roomCounter,
+        dimensions: model.dimensions.map(cloneDimension),
+        dimensionCounter: model.dimensionCounter
+    };
+}
+
+// The part of the model on one level, e.g. for exporting its plan
+export function levelSnapshot(model: ModelSnapshot, levelId: string): ModelSnapshot {
+    const walls = model.walls.filter(wall => wall.levelId === levelId);
+    const wallIds = new Set(walls.map(wall => wall.id));
+    return createSnapshot({
+        ...model,
+        walls,
+        openings: model.openings.filter(opening => wallIds.has(opening.hostId)),
+        roomTags: model.roomTags.filter(tag => tag.levelId === levelId),
+        dimensions: model.dimensions.filter(dimension => dimension.levelId === levelId)
+    });
+}
+
+function layersEqual(a: Layer, b: Layer): boolean {
+    return a.id === b.id &&
+        a.name === b.name &&
+        a.visible === b.visible &&
+        a.locked === b.locked &&
+        a.color === b.color &&
+        a.lineWeight === b.lineWeight;
+}
+
+function levelsEqual(a: Level, b: Level): boolean {
+    return a.id === b.id &&
+        a.name === b.name &&
+        a.elevation === b.elevation;
+}
+
+function wallsEqual(a: Wall, b: Wall): boolean {
+    return a.id === b.id &&
+        a.levelId === b.levelId &&
+        a.layerId === b.layerId &&
+        a.start.equals(b.start) &&
+        a.end.equals(b.end) &&
+        a.angle === b.angle &&
+        a.length === b.length &&
+        a.thickness === b.thickness &&
+        a.height === b.height &&
+        a.baseOffset === b.baseOffset &&
+        a.justification === b.justification;
+}
+
+function openingsEqual(a: Opening, b: Opening): boolean {
+    return a.id === b.id &&
+        a.kind === b.kind &&
+        a.hostId === b.hostId &&
+        a.layerId === b.layerId &&
+        a.offset === b.offset &&
+        a.width === b.width &&
+        a.height === b.height &&
+        a.sillHeight === b.sillHeight;
+}
+
+function roomTagsEqual(a: RoomTag, b: RoomTag): boolean {
+    return a.id === b.id &&
+        a.name === b.name &&
+        a.levelId === b.levelId &&
+        a.position.equals(b.position);
+}
+
+function dimensionsEqual(a: Dimension, b: Dimension): boolean {
+    return a.id === b.id &&
+        a.levelId === b.levelId &&
+        a.kind === b.kind &&
+        a.offset === b.offset &&
+        a.anchors.length === b.anchors.length &&
+        a.anchors.every((anchor, i) => anchor.wallId === b.anchors[i].wallId && anchor.end === b.anchors[i].end);
+}
+
+export function snapshotsEqual(a: ModelSnapshot, b: ModelSnapshot): boolean {
+    if (a.units.unit !== b.units.unit ||
+        a.units.precision !== b.units.precision ||
+        a.layers.length !== b.layers.length ||
+        a.levels.length !== b.levels.length ||
+        a.walls.length !== b.walls.length ||
+        a.openings.length !== b.openings.length ||
+        a.roomTags.length !== b.roomTags.length ||
+        a.dimensions.length !== b.dimensions.length) {
+        return false;
+    }
+    return a.layers.every((layer, i) => layersEqual(layer, b.layers[i])) &&
+        a.levels.every((level, i) => levelsEqual(level, b.levels[i])) &&
+        a.walls.every((wall, i) => wallsEqual(wall, b.walls[i])) &&
+        a.openings.every((opening, i) => openingsEqual(opening, b.openings[i])) &&
+        a.roomTags.every((tag, i) => roomTagsEqual(tag, b.roomTags[i])) &&
+        a.dimensions.every((dimension, i) => dimensionsEqual(dimension, b.dimensions[i]));
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest';
+import planModel from '../io/fixtures/plan-model.json?raw';
+import { UndoHistory } from './UndoHistory';
+import { type ModelSnapshot, createSnapshot, snapshotsEqual } from './ModelSnapshot';
+import { parseProject } from '../io/ProjectFile';
+
+interface State {
+    walls: string[];
+}
+
+function createHistory(limit?: number): UndoHistory<State> {
+    return new UndoHistory<State>((a, b) => a.walls.join() === b.walls.join(), limit);
+}
+
+// Record one transaction from before to after
+function record(history: UndoHistory<State>, label: string, before: string[], after: string[]): boolean {
+    history.begin(label, { walls: before });
+    return history.commit({ walls: after });
+}
+
+describe('UndoHistory', () => {
+    it('starts with nothing to undo or redo', () => {
+        const history = createHistory();
+        expect(history.canUndo()).toBe(false);
+        expect(history.canRedo()).toBe(false);
+        expect(history.undo()).toBeNull();
+        expect(history.redo()).toBeNull();
+    });
+
+    it('undoes to the state before a transaction', () => {
+        const history = createHistory();
+        record(history, 'Add wall', [], ['wall_0']);
+        expect(history.undoLabel()).toBe('Add wall');
+        expect(history.undo()).toEqual({ walls: [] });
+        expect(history.canUndo()).toBe(false);
+    });
+
+    it('redoes to the state after an undone transaction', () => {
+        const history = createHistory();
+        record(history, 'Add wall', [], ['wall_0']);
+        record(history, 'Add wall', ['wall_0'], ['wall_0', 'wall_1']);
+        history.undo();
+        history.undo();
+        expect(history.redoLabel()).toBe('Add wall');
+        expect(history.redo()).toEqual({ walls: ['wall_0'] });
+        expect(history.redo()).toEqual({ walls: ['wall_0', 'wall_1'] });
+        expect(history.canRedo()).toBe(false);
+    });
+
+    it('groups every change between begin and commit into one step', () => {
+        const history = createHistory();
+        history.begin('Move walls', { walls: ['a'] });
+        // The caller keeps editing its own state; only the ends are recorded
+        history.commit({ walls: ['c'] });
+        expect(history.undo()).toEqual({ walls: ['a'] });
+        expect(history.canUndo()).toBe(false);
+        expect(history.redo()).toEqual({ walls: ['c'] });
+    });
+
+    it('does not record transactions that change nothing', () => {
+        const history = createHistory();
+        expect(record(history, 'Select', ['a'], ['a'])).toBe(false);
+        expect(history.canUndo()).toBe(false);
+    });
+
+    it('drops the redo stack when a new transaction is recorded', () => {
+        const history = createHistory();
+        record(history, 'Add wall', [], ['a']);
+        record(history, 'Add wall', ['a'], ['a', 'b']);
+        history.undo();
+        expect(history.canRedo()).toBe(true);
+        record(history, 'Delete walls', ['a'], []);
+        expect(history.canRedo()).toBe(false);
+        expect(history.redo()).toBeNull();
+        expect(history.undo()).toEqual({ walls: ['a'] });
+        expect(history.undo()).toEqual({ walls: [] });
+    });
+
+    it('keeps the redo stack when a transaction changes nothing', () => {
+        const history = createHistory();
+        record(history, 'Add wall', [], ['a']);
+        history.undo();
+        record(history, 'Select', [], []);
+        expect(history.canRedo()).toBe(true);
+    });
+
+    it('rejects nested and unopened transactions', () => {
+        const history = createHistory();
+        history.begin('Outer', { walls: [] });
+        expect(() => history.begin('Inner', { walls: [] })).toThrow('already open');
+        history.cancel();
+        expect(() => history.commit({ walls: [] })).toThrow('No open transaction');
+    });
+
+    it('ignores undo and redo while a transaction is open', () => {
+        const history = createHistory();
+        record(history, 'Add wall', [], ['a']);
+        history.begin('Drag grip', { walls: ['a'] });
+        expect(history.isRecording()).toBe(true);
+        expect(history.undo()).toBeNull();
+        history.cancel();
+        expect(history.isRecording()).toBe(false);
+        expect(history.undo()).toEqual({ walls: [] });
+    });
+
+    it('forgets the oldest steps past its limit', () => {
+        const history = createHistory(2);
+        record(history, 'First', [], ['a']);
+        record(history, 'Second', ['a'], ['b']);
+        record(history, 'Third', ['b'], ['c']);
+        expect(history.undo()).toEqual({ walls: ['b'] });
+        expect(history.undo()).toEqual({ walls: ['a'] });
+        expect(history.undo()).toBeNull();
+    });
+});
+
+// Transactions as the viewer runs them: snapshots of a model it edits in place
+describe('UndoHistory.transaction', () => {
+    function setup() {
+        const model = parseProject(planModel);
+        const history = new UndoHistory<ModelSnapshot>(snapshotsEqual);
+        const onChange = vi.fn();
+        const run = <R>(label: string, action: () => R) =>
+            history.transaction(label, () => createSnapshot(model), action, onChange);
+        return { model, history, onChange, run };
+    }
+
+    it('records the model before and after the action', () => {
+        const { model, history, onChange, run } = setup();
+        const result = run('Move wall', () => {
+            model.walls[0].end.x = 5;
+            return 'moved';
+        });
+        expect(result).toBe('moved');
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(history.undoLabel()).toBe('Move wall');
+        expect(history.undo()!.walls[0].end.x).toBe(4);
+        expect(history.redo()!.walls[0].end.x).toBe(5);
+    });
+
+    it('joins nested transactions into the outer one', () => {
+        const { model, history, onChange, run } = setup();
+        run('Split wall', () => {
+            run('Edit wall', () => model.walls[0].end.x = 2);
+            run('Add opening', () => model.openings = []);
+            expect(history.isRecording()).toBe(true);
+        });
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(history.undoLabel()).toBe('Split wall');
+        const before = history.undo()!;
+        expect(before.walls[0].end.x).toBe(4);
+        expect(before.openings).toHaveLength(1);
+        expect(history.canUndo()).toBe(false);
+    });
+
+    it('records nothing and closes the transaction when the action throws', () => {
+        const { model, history, onChange, run } = setup();
+        expect(() => run('Edit wall', () => {
+            model.walls[0].height = 5;
+            throw new Error('Height must be positive');
+        })).toThrow('Height must be positive');
+        expect(history.isRecording()).toBe(false);
+        expect(history.canUndo()).toBe(false);
+        expect(onChange).not.toHaveBeenCalled();
+
+        run('Edit wall', () => model.walls[0].height = 4);
+        expect(history.undo()!.walls[0].height).toBe(5);
+    });
+
+    it('does not notify or record when the action changes nothing', () => {
+        const { model, history, onChange, run } = setup();
+        run('Select', () => model.walls[0].selected = true);
+        expect(onChange).not.toHaveBeenCalled();
+        expect(history.canUndo()).toBe(false);
+    });
+});
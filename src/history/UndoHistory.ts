@@ -0,0 +1,117 @@
+// A single undoable step: the model state before and after a transaction
+export interface HistoryEntry<T> {
+    label: string;
+    before: T;
+    after: T;
+}
+
+// Snapshot based undo/redo stack. It knows nothing about three.js or the DOM,
+// callers hand it plain state objects and get them back on undo/redo.
+export class UndoHistory<T> {
+    private undoStack: HistoryEntry<T>[] = [];
+    private redoStack: HistoryEntry<T>[] = [];
+    private pending: { label: string, before: T } | null = null;
+    private limit: number;
+    private isEqual: (a: T, b: T) => boolean;
+
+    constructor(isEqual: (a: T, b: T) => boolean, limit: number = 100) {
+        this.isEqual = isEqual;
+        this.limit = limit;
+    }
+
+    // Open a transaction, capturing the state before any change is made
+    public begin(label: string, before: T) {
+        if (this.pending) {
+            throw new Error(`Transaction "${this.pending.label}" is already open`);
+        }
+        this.pending = { label, before };
+    }
+
+    // Close the open transaction. Returns false if nothing actually changed.
+    public commit(after: T): boolean {
+        if (!this.pending) {
+            throw new Error('No open transaction to commit');
+        }
+        const { label, before } = this.pending;
+        this.pending = null;
+
+        if (this.isEqual(before, after)) return false;
+
+        this.undoStack.push({ label, before, after });
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+        // A new edit invalidates everything that could have been redone
+        this.redoStack = [];
+        return true;
+    }
+
+    // Run an action as one transaction, reading the state before and after
+    // it. Inside an open transaction the action just joins it. If the action
+    // throws, nothing is recorded. onChange runs when a step was recorded.
+    public transaction<R>(label: string, state: () => T, action: () => R, onChange: () => void): R {
+        if (this.pending) {
+            return action();
+        }
+        this.begin(label, state());
+        try {
+            const result = action();
+            if (this.commit(state())) {
+                onChange();
+            }
+            return result;
+        } catch (error) {
+            this.cancel();
+            throw error;
+        }
+    }
+
+    // Drop the open transaction without recording it
+    public cancel() {
+        this.pending = null;
+    }
+
+    public isRecording(): boolean {
+        return this.pending !== null;
+    }
+
+    // Returns the state to restore, or null if there is nothing to undo
+    public undo(): T | null {
+        if (this.pending) return null;
+        const entry = this.undoStack.pop();
+        if (!entry) return null;
+        this.redoStack.push(entry);
+        return entry.before;
+    }
+
+    // Returns the state to restore, or null if there is nothing to redo
+    public redo(): T | null {
+        if (this.pending) return null;
+        const entry = this.redoStack.pop();
+        if (!entry) return null;
+        this.undoStack.push(entry);
+        return entry.after;
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    public undoLabel(): string | null {
+        return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null;
+    }
+
+    public redoLabel(): string | null {
+        return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null;
+    }
+
+    public clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.pending = null;
+    }
+}
@@ -0,0 +1,57 @@
+import { type UnitSettings, DEFAULT_UNIT_SETTINGS, UnitParseError, parseLength } from '../units/Units';
+
+// Parsing of typed "length<angle" input used while drawing walls.
+//
+//   "4.25"     4.25 project units in the direction of the cursor
+//   "4.25<90"  4.25 project units at 90 degrees (counter-clockwise from +X)
+//   "3<-45"    angles may be negative or above 360
+//   "12'6\"<0" lengths may name their unit, see Units
+
+export interface LengthAngle {
+    length: number;
+    angleDeg: number | null; // null means "follow the cursor"
+}
+
+export class InputParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InputParseError';
+    }
+}
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+function parseNumber(text: string, what: string): number {
+    const trimmed = text.trim();
+    if (!NUMBER.test(trimmed)) {
+        throw new InputParseError(`Invalid ${what} "${trimmed}"`);
+    }
+    return Number(trimmed);
+}
+
+// Length in metres, whatever unit it was typed in
+export function parseLengthAngle(text: string, units: UnitSettings = DEFAULT_UNIT_SETTINGS): LengthAngle {
+    const parts = text.split('<');
+    if (parts.length > 2) {
+        throw new InputParseError('Use a single "<" between length and angle');
+    }
+
+    let length: number;
+    try {
+        length = parseLength(parts[0], units);
+    } catch (error) {
+        if (!(error instanceof UnitParseError)) throw error;
+        throw new InputParseError(error.message);
+    }
+    if (length <= 0) {
+        throw new InputParseError('Length must be greater than zero');
+    }
+
+    const angleDeg = parts.length === 2 ? parseNumber(parts[1], 'angle') : null;
+    return { length, angleDeg };
+}
+
+// Characters that open the input overlay when typed during drawing
+export function startsLengthInput(key: string): boolean {
+    return key.length === 1 && /[0-9.<]/.test(key);
+}
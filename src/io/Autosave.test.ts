@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import planModel from './fixtures/plan-model.json?raw';
+import { Autosave } from './Autosave';
+import { parseProject } from './ProjectFile';
+
+// Storage kept in a map, counting the writes of each key
+class MemoryStorage implements Storage {
+    items = new Map<string, string>();
+    writes = new Map<string, number>();
+
+    get length(): number {
+        return this.items.size;
+    }
+
+    clear() {
+        this.items.clear();
+    }
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    key(index: number): string | null {
+        return [...this.items.keys()][index] ?? null;
+    }
+
+    removeItem(key: string) {
+        this.items.delete(key);
+    }
+
+    setItem(key: string, value: string) {
+        this.items.set(key, value);
+        this.writes.set(key, (this.writes.get(key) ?? 0) + 1);
+    }
+}
+
+const SESSION_KEY = 'test:session';
+const SNAPSHOTS_KEY = 'test:snapshots';
+const model = parseProject(planModel);
+
+describe('Autosave', () => {
+    let storage: MemoryStorage;
+    let autosave: Autosave;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 0, 1, 12, 0, 0));
+        storage = new MemoryStorage();
+        autosave = new Autosave({ storage, keyPrefix: 'test', debounceMs: 1000, maxSnapshots: 3, snapshotIntervalMs: 60000 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    describe('schedule', () => {
+        it('saves a burst of changes once, after the debounce', () => {
+            const getModel = vi.fn(() => model);
+            autosave.schedule(getModel);
+            vi.advanceTimersByTime(600);
+            autosave.schedule(getModel);
+            vi.advanceTimersByTime(600);
+            autosave.schedule(getModel);
+            expect(storage.getItem(SESSION_KEY)).toBeNull();
+
+            vi.advanceTimersByTime(1000);
+            expect(getModel).toHaveBeenCalledTimes(1);
+            expect(storage.writes.get(SESSION_KEY)).toBe(1);
+            expect(autosave.restore(autosave.loadSession()!)).toEqual(model);
+        });
+
+        it('saves right away when flushed, and not again when the timer was due', () => {
+            autosave.schedule(() => model);
+            autosave.flush();
+            expect(storage.writes.get(SESSION_KEY)).toBe(1);
+            vi.advanceTimersByTime(1000);
+            autosave.flush();
+            expect(storage.writes.get(SESSION_KEY)).toBe(1);
+        });
+    });
+
+    describe('snapshots', () => {
+        function save() {
+            autosave.schedule(() => model);
+            autosave.flush();
+        }
+
+        it('adds an automatic snapshot at most once per interval', () => {
+            save();
+            vi.advanceTimersByTime(30000);
+            save();
+            expect(autosave.listSnapshots()).toHaveLength(1);
+
+            vi.advanceTimersByTime(30000);
+            save();
+            const snapshots = autosave.listSnapshots();
+            expect(snapshots).toHaveLength(2);
+            expect(snapshots[0].savedAt - snapshots[1].savedAt).toBe(60000);
+            expect(snapshots[0].name).toMatch(/^Autosave /);
+        });
+
+        it('keeps the newest snapshots up to the maximum', () => {
+            ['a', 'b', 'c', 'd'].forEach(name => {
+                autosave.addSnapshot(name, model);
+                vi.advanceTimersByTime(1);
+            });
+            expect(autosave.listSnapshots().map(snapshot => snapshot.name)).toEqual(['d', 'c', 'b']);
+        });
+
+        it('adds a stored snapshot only once', () => {
+            save();
+            const session = autosave.loadSession()!;
+            autosave.addStoredSnapshot({ ...session, name: 'Session' });
+            autosave.addStoredSnapshot({ ...session, name: 'Session' });
+            expect(autosave.listSnapshots()).toHaveLength(1);
+        });
+
+        it('restores a snapshot as the model it was saved from', () => {
+            autosave.addSnapshot('Before', model);
+            expect(autosave.restore(autosave.listSnapshots()[0])).toEqual(model);
+        });
+    });
+
+    describe('corrupt entries', () => {
+        beforeEach(() => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        it('ignores a session that is not JSON', () => {
+            storage.setItem(SESSION_KEY, '{ "name": ');
+            expect(autosave.loadSession()).toBeNull();
+            expect(console.warn).toHaveBeenCalled();
+        });
+
+        it('ignores a session that is not a stored snapshot', () => {
+            storage.setItem(SESSION_KEY, JSON.stringify({ name: 'Last session', savedAt: '2024-01-01' }));
+            expect(autosave.loadSession()).toBeNull();
+            storage.setItem(SESSION_KEY, 'null');
+            expect(autosave.loadSession()).toBeNull();
+        });
+
+        it('drops snapshots that are not stored snapshots', () => {
+            const valid = { name: 'Kept', savedAt: 1, project: planModel };
+            storage.setItem(SNAPSHOTS_KEY, JSON.stringify([null, valid, 'text', { name: 'No project', savedAt: 2 }]));
+            expect(autosave.listSnapshots()).toEqual([valid]);
+        });
+
+        it('treats a snapshot list that is not an array as empty', () => {
+            storage.setItem(SNAPSHOTS_KEY, JSON.stringify({ name: 'Kept', savedAt: 1, project: planModel }));
+            expect(autosave.listSnapshots()).toEqual([]);
+            storage.setItem(SNAPSHOTS_KEY, 'not json');
+            expect(autosave.listSnapshots()).toEqual([]);
+        });
+
+        it('keeps editing when storage refuses writes', () => {
+            vi.spyOn(storage, 'setItem').mockImplementation(() => {
+                throw new Error('QuotaExceededError');
+            });
+            autosave.schedule(() => model);
+            expect(() => autosave.flush()).not.toThrow();
+            expect(autosave.loadSession()).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import type { ModelSnapshot } from '../history/ModelSnapshot';
+import { parseProject, serializeProject } from './ProjectFile';
+
+// A stored copy of the model. The project is kept in the project file format
+// so stored sessions go through the same validation and migrations as files.
+export interface StoredSnapshot {
+    name: string;
+    savedAt: number; // ms since epoch
+    project: string;
+}
+
+export interface AutosaveOptions {
+    storage?: Storage;
+    keyPrefix?: string;
+    debounceMs?: number;
+    maxSnapshots?: number;
+    snapshotIntervalMs?: number; // minimum time between automatic history entries
+}
+
+// Persists the model to localStorage. Every change schedules a debounced save
+// of the current session, and a small rolling list of named snapshots is kept
+// so earlier states can be browsed and restored.
+export class Autosave {
+    private storage: Storage;
+    private sessionKey: string;
+    private snapshotsKey: string;
+    private debounceMs: number;
+    private maxSnapshots: number;
+    private snapshotIntervalMs: number;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private pendingModel: (() => ModelSnapshot) | null = null;
+
+    constructor(options: AutosaveOptions = {}) {
+        this.storage = options.storage ?? window.localStorage;
+        const prefix = options.keyPrefix ?? 'aec-editor';
+        this.sessionKey = `${prefix}:session`;
+        this.snapshotsKey = `${prefix}:snapshots`;
+        this.debounceMs = options.debounceMs ?? 1000;
+        this.maxSnapshots = options.maxSnapshots ?? 10;
+        this.snapshotIntervalMs = options.snapshotIntervalMs ?? 5 * 60 * 1000;
+    }
+
+    // Schedule a save. The model is only read when the timer fires, so a burst
+    // of edits costs a single serialization.
+    public schedule(getModel: () => ModelSnapshot) {
+        this.pendingModel = getModel;
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.flush(), this.debounceMs);
+    }
+
+    // Write any scheduled save right away, e.g. before the page unloads
+    public flush() {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (!this.pendingModel) return;
+        const model = this.pendingModel();
+        this.pendingModel = null;
+
+        const session: StoredSnapshot = {
+            name: 'Last session',
+            savedAt: Date.now(),
+            project: serializeProject(model)
+        };
+        this.write(this.sessionKey, session);
+
+        // Add to the rolling history once per interval
+        const snapshots = this.listSnapshots();
+        const latest = snapshots[0];
+        if (!latest || session.savedAt - latest.savedAt >= this.snapshotIntervalMs) {
+            this.addSnapshot(`Autosave ${new Date(session.savedAt).toLocaleString()}`, model);
+        }
+    }
+
+    // The most recently autosaved session, or null if there is none
+    public loadSession(): StoredSnapshot | null {
+        const session = this.read(this.sessionKey);
+        return this.isStoredSnapshot(session) ? session : null;
+    }
+
+    public clearSession() {
+        this.storage.removeItem(this.sessionKey);
+    }
+
+    // Snapshots, newest first
+    public listSnapshots(): StoredSnapshot[] {
+        const snapshots = this.read(this.snapshotsKey);
+        return Array.isArray(snapshots) ? snapshots.filter((s: unknown) => this.isStoredSnapshot(s)) : [];
+    }
+
+    public addSnapshot(name: string, model: ModelSnapshot) {
+        this.addStoredSnapshot({ name, savedAt: Date.now(), project: serializeProject(model) });
+    }
+
+    // Add a snapshot unless the same save is already in the list
+    public addStoredSnapshot(snapshot: StoredSnapshot) {
+        const stored = this.listSnapshots();
+        if (stored.some(s => s.savedAt === snapshot.savedAt)) return;
+        this.write(this.snapshotsKey, [snapshot, ...stored].slice(0, this.maxSnapshots));
+    }
+
+    // Parse a stored snapshot back into a model. Throws ProjectFileError if it is corrupt.
+    public restore(snapshot: StoredSnapshot): ModelSnapshot {
+        return parseProject(snapshot.project);
+    }
+
+    private isStoredSnapshot(value: unknown): value is StoredSnapshot {
+        if (!value || typeof value !== 'object') return false;
+        const { name, savedAt, project } = value as Partial<Record<keyof StoredSnapshot, unknown>>;
+        return typeof name === 'string' && typeof savedAt === 'number' && typeof project === 'string';
+    }
+
+    private read(key: string): unknown {
+        try {
+            const text = this.storage.getItem(key);
+            return text ? JSON.parse(text) : null;
+        } catch (error) {
+            console.warn(`Ignoring unreadable autosave entry "${key}"`, error);
+            return null;
+        }
+    }
+
+    private write(key: string, value: unknown) {
+        try {
+            this.storage.setItem(key, JSON.stringify(value));
+        } catch (error) {
+            // Quota exceeded or storage disabled: keep editing, just without autosave
+            console.warn(`Autosave failed for "${key}"`, error);
+        }
+    }
+}
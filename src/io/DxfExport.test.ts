@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import planModel from './fixtures/plan-model.json?raw';
+import planLayersModel from './fixtures/plan-layers-model.json?raw';
+import type { Room } from '../Viewer';
+import type { ModelSnapshot } from '../history/ModelSnapshot';
+import { parseProject } from './ProjectFile';
+import { buildPlanDrawing } from './PlanDrawing';
+import { exportDxf } from './DxfExport';
+import { detectRooms, pointInPolygon } from '../geometry/RoomDetection';
+import { wallFaceOffsets } from '../model/WallProperties';
+
+// The model's rooms named from the room tag inside each, as the viewer does
+function modelRooms(model: ModelSnapshot): Room[] {
+    const detected = detectRooms(model.walls.map(wall => ({ id: wall.id, start: wall.start, end: wall.end, ...wallFaceOffsets(wall) })));
+    return detected.map(room => {
+        const tag = model.roomTags.find(tag => pointInPolygon(tag.position, room.boundary));
+        if (!tag) throw new Error('Every fixture room needs a tag');
+        return { ...room, id: tag.id, name: tag.name, levelId: tag.levelId, position: tag.position };
+    });
+}
+
+function planDxf(project: string): string {
+    const model = parseProject(project);
+    return exportDxf(buildPlanDrawing(model, modelRooms(model)));
+}
+
+describe('exportDxf', () => {
+    it('writes the fixture plan as the expected R12 file', async () => {
+        await expect(planDxf(planModel)).toMatchFileSnapshot('./fixtures/plan.dxf');
+    });
+
+    it('writes placed dimensions and leaves out hidden layers', async () => {
+        await expect(planDxf(planLayersModel)).toMatchFileSnapshot('./fixtures/plan-layers.dxf');
+    });
+
+    it('names each room from the tag inside it', () => {
+        const dxf = planDxf(planLayersModel);
+        // Tags are stored right room first, but rooms are found left to right
+        expect(dxf.indexOf('\nKitchen\n')).toBeGreaterThan(-1);
+        expect(dxf.indexOf('\nKitchen\n')).toBeLessThan(dxf.indexOf('\nLiving\n'));
+    });
+
+    it('declares R12 without headers R12 does not have', () => {
+        const dxf = exportDxf({ lines: [], wallAreas: [], openingGaps: [], texts: [] });
+        expect(dxf).toContain('$ACADVER\n1\nAC1009\n');
+        expect(dxf).not.toContain('$INSUNITS');
+        expect(dxf.endsWith('0\nEOF\n')).toBe(true);
+    });
+});
@@ -0,0 +1,108 @@
+import type { PlanDrawing, PlanLayer } from './PlanDrawing';
+
+// ASCII DXF (AutoCAD R12) writer for the plan. R12 needs no entity handles or
+// class tables, and every CAD package still reads it. It has no $INSUNITS
+// header either (that came with R2000), so drawing units are plain metres.
+
+export const DXF_FILE_EXTENSION = '.dxf';
+
+// AutoCAD colour index per layer
+const LAYER_COLORS: Record<PlanLayer, number> = {
+    'WALL-CENTER': 8,   // grey
+    'WALL-OUTLINE': 7,  // white/black
+    'OPENINGS': 4,      // cyan
+    'DIMENSIONS': 3,    // green
+    'ROOMS': 2          // yellow
+};
+
+// Plain decimal numbers; DXF readers don't all accept exponents
+function formatNumber(value: number): string {
+    const text = value.toFixed(6).replace(/\.?0+$/, '');
+    return text === '-0' ? '0' : text;
+}
+
+// R12 text is 8-bit; non-ASCII characters use AutoCAD's \U+XXXX escapes
+function encodeText(text: string): string {
+    return Array.from(text.replace(/[\r\n]+/g, ' ')).map(char => {
+        const code = char.codePointAt(0)!;
+        return code < 128 ? char : `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+    }).join('');
+}
+
+class DxfWriter {
+    private output: string[] = [];
+
+    group(code: number, value: string | number) {
+        this.output.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+    }
+
+    point(baseCode: number, x: number, y: number, z: number = 0) {
+        this.group(baseCode, x);
+        this.group(baseCode + 10, y);
+        this.group(baseCode + 20, z);
+    }
+
+    toString(): string {
+        return this.output.join('\n') + '\n';
+    }
+}
+
+export function exportDxf(drawing: PlanDrawing): string {
+    const dxf = new DxfWriter();
+
+    dxf.group(0, 'SECTION');
+    dxf.group(2, 'HEADER');
+    dxf.group(9, '$ACADVER');
+    dxf.group(1, 'AC1009');
+    dxf.group(0, 'ENDSEC');
+
+    dxf.group(0, 'SECTION');
+    dxf.group(2, 'TABLES');
+    dxf.group(0, 'TABLE');
+    dxf.group(2, 'LTYPE');
+    dxf.group(70, 1);
+    dxf.group(0, 'LTYPE');
+    dxf.group(2, 'CONTINUOUS');
+    dxf.group(70, 0);
+    dxf.group(3, 'Solid line');
+    dxf.group(72, 65);
+    dxf.group(73, 0);
+    dxf.group(40, 0);
+    dxf.group(0, 'ENDTAB');
+    dxf.group(0, 'TABLE');
+    dxf.group(2, 'LAYER');
+    dxf.group(70, Object.keys(LAYER_COLORS).length);
+    Object.entries(LAYER_COLORS).forEach(([name, color]) => {
+        dxf.group(0, 'LAYER');
+        dxf.group(2, name);
+        dxf.group(70, 0);
+        dxf.group(62, color);
+        dxf.group(6, 'CONTINUOUS');
+    });
+    dxf.group(0, 'ENDTAB');
+    dxf.group(0, 'ENDSEC');
+
+    dxf.group(0, 'SECTION');
+    dxf.group(2, 'ENTITIES');
+    drawing.lines.forEach(({ layer, start, end }) => {
+        dxf.group(0, 'LINE');
+        dxf.group(8, layer);
+        dxf.point(10, start.x, start.y);
+        dxf.point(11, end.x, end.y);
+    });
+    drawing.texts.forEach(({ layer, position, text, height, rotation }) => {
+        dxf.group(0, 'TEXT');
+        dxf.group(8, layer);
+        dxf.point(10, position.x, position.y);
+        dxf.group(40, height);
+        dxf.group(1, encodeText(text));
+        dxf.group(50, rotation * 180 / Math.PI);
+        dxf.group(72, 1); // Centred...
+        dxf.point(11, position.x, position.y);
+        dxf.group(73, 2); // ...on the middle of the text
+    });
+    dxf.group(0, 'ENDSEC');
+    dxf.group(0, 'EOF');
+
+    return dxf.toString();
+}
@@ -0,0 +1,150 @@
+import { Vector3 } from 'three';
+
+// Reader for the parts of ASCII DXF files needed to start a plan from a
+// consultant's drawing: LINE and LWPOLYLINE entities in model space. Arcs
+// in polylines (bulges) are read as straight segments.
+
+export class DxfImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DxfImportError';
+    }
+}
+
+export interface DxfSegment {
+    layer: string;
+    start: Vector3; // drawing units
+    end: Vector3;
+}
+
+export interface DxfDocument {
+    insUnits: number | null;     // $INSUNITS header value, if present
+    segments: DxfSegment[];
+    layers: string[];            // layers with imported segments, sorted
+    skipped: Map<string, number>; // entity type -> count of entities not imported
+}
+
+// Metres per drawing unit for the $INSUNITS codes we know
+export const DXF_UNITS: Record<number, { name: string, metres: number }> = {
+    1: { name: 'Inches', metres: 0.0254 },
+    2: { name: 'Feet', metres: 0.3048 },
+    4: { name: 'Millimetres', metres: 0.001 },
+    5: { name: 'Centimetres', metres: 0.01 },
+    6: { name: 'Metres', metres: 1 }
+};
+
+interface GroupPair {
+    code: number;
+    value: string;
+}
+
+function readPairs(text: string): GroupPair[] {
+    const lines = text.split(/\r\n|\r|\n/);
+    const pairs: GroupPair[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = Number(lines[i].trim());
+        if (!Number.isInteger(code)) {
+            throw new DxfImportError(`Invalid group code "${lines[i].trim()}" on line ${i + 1}`);
+        }
+        pairs.push({ code, value: lines[i + 1].trim() });
+    }
+    return pairs;
+}
+
+function readNumber(pair: GroupPair): number {
+    const value = Number(pair.value);
+    if (!Number.isFinite(value)) {
+        throw new DxfImportError(`Invalid number "${pair.value}" for group code ${pair.code}`);
+    }
+    return value;
+}
+
+// Group pairs of one entity, from its 0 code up to the next one
+function entityAt(pairs: GroupPair[], index: number): { type: string, data: GroupPair[], next: number } {
+    let next = index + 1;
+    while (next < pairs.length && pairs[next].code !== 0) next++;
+    return { type: pairs[index].value, data: pairs.slice(index + 1, next), next };
+}
+
+function readLine(data: GroupPair[]): DxfSegment {
+    const values = new Map<number, number>();
+    let layer = '0';
+    data.forEach(pair => {
+        if (pair.code === 8) layer = pair.value;
+        else if ([10, 20, 30, 11, 21, 31].includes(pair.code)) values.set(pair.code, readNumber(pair));
+    });
+    const get = (code: number) => values.get(code) ?? 0;
+    return {
+        layer,
+        start: new Vector3(get(10), get(20), 0),
+        end: new Vector3(get(11), get(21), 0)
+    };
+}
+
+function readLwPolyline(data: GroupPair[]): DxfSegment[] {
+    let layer = '0';
+    let closed = false;
+    const vertices: Vector3[] = [];
+    data.forEach(pair => {
+        if (pair.code === 8) layer = pair.value;
+        else if (pair.code === 70) closed = (readNumber(pair) & 1) === 1;
+        else if (pair.code === 10) vertices.push(new Vector3(readNumber(pair), 0, 0));
+        else if (pair.code === 20 && vertices.length > 0) vertices[vertices.length - 1].y = readNumber(pair);
+    });
+    const segments: DxfSegment[] = [];
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let i = 0; i < count; i++) {
+        segments.push({ layer, start: vertices[i], end: vertices[(i + 1) % vertices.length].clone() });
+    }
+    return segments;
+}
+
+export function parseDxf(text: string): DxfDocument {
+    const pairs = readPairs(text);
+    const document: DxfDocument = { insUnits: null, segments: [], layers: [], skipped: new Map() };
+
+    let section: string | null = null;
+    let i = 0;
+    while (i < pairs.length) {
+        const pair = pairs[i];
+        if (pair.code === 0 && pair.value === 'SECTION') {
+            section = pairs[i + 1]?.code === 2 ? pairs[i + 1].value : null;
+            i += 2;
+        } else if (pair.code === 0 && pair.value === 'ENDSEC') {
+            section = null;
+            i++;
+        } else if (section === 'HEADER' && pair.code === 9 && pair.value === '$INSUNITS') {
+            if (pairs[i + 1]?.code === 70) {
+                document.insUnits = readNumber(pairs[i + 1]);
+            }
+            i += 2;
+        } else if (section === 'ENTITIES' && pair.code === 0) {
+            const entity = entityAt(pairs, i);
+            if (entity.type === 'LINE') {
+                document.segments.push(readLine(entity.data));
+            } else if (entity.type === 'LWPOLYLINE') {
+                document.segments.push(...readLwPolyline(entity.data));
+            } else if (entity.type !== 'EOF') {
+                document.skipped.set(entity.type, (document.skipped.get(entity.type) ?? 0) + 1);
+            }
+            i = entity.next;
+        } else {
+            i++;
+        }
+    }
+
+    document.segments = document.segments.filter(segment => segment.start.distanceTo(segment.end) > 0);
+    document.layers = [...new Set(document.segments.map(segment => segment.layer))].sort();
+    return document;
+}
+
+// Segments on the chosen layers, scaled to metres
+export function segmentsInMetres(document: DxfDocument, layers: Set<string>, metresPerUnit: number): DxfSegment[] {
+    return document.segments
+        .filter(segment => layers.has(segment.layer))
+        .map(segment => ({
+            layer: segment.layer,
+            start: segment.start.clone().multiplyScalar(metresPerUnit),
+            end: segment.end.clone().multiplyScalar(metresPerUnit)
+        }));
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import planModel from './fixtures/plan-model.json?raw';
+import { parseProject } from './ProjectFile';
+import { exportIfc } from './IfcExport';
+
+// Attribute counts of the IFC4 entities the exporter writes
+const IFC4_ATTRIBUTE_COUNTS: Record<string, number> = {
+    IFCUNITASSIGNMENT: 1,
+    IFCSIUNIT: 4,
+    IFCCARTESIANPOINT: 1,
+    IFCDIRECTION: 1,
+    IFCAXIS2PLACEMENT2D: 2,
+    IFCAXIS2PLACEMENT3D: 3,
+    IFCLOCALPLACEMENT: 2,
+    IFCGEOMETRICREPRESENTATIONCONTEXT: 6,
+    IFCGEOMETRICREPRESENTATIONSUBCONTEXT: 10,
+    IFCRECTANGLEPROFILEDEF: 5,
+    IFCEXTRUDEDAREASOLID: 4,
+    IFCPOLYLINE: 1,
+    IFCSHAPEREPRESENTATION: 4,
+    IFCPRODUCTDEFINITIONSHAPE: 3,
+    IFCPROJECT: 9,
+    IFCSITE: 14,
+    IFCBUILDING: 12,
+    IFCBUILDINGSTOREY: 10,
+    IFCRELAGGREGATES: 6,
+    IFCRELCONTAINEDINSPATIALSTRUCTURE: 6,
+    IFCMATERIAL: 3,
+    IFCMATERIALLAYER: 7,
+    IFCMATERIALLAYERSET: 3,
+    IFCMATERIALLAYERSETUSAGE: 5,
+    IFCRELASSOCIATESMATERIAL: 6,
+    IFCWALLSTANDARDCASE: 9,
+    IFCOPENINGELEMENT: 9,
+    IFCRELVOIDSELEMENT: 6,
+    IFCDOOR: 13,
+    IFCWINDOW: 13,
+    IFCRELFILLSELEMENT: 6
+};
+
+type StepValue = string | StepValue[];
+
+interface StepEntity {
+    id: number;
+    type: string;
+    attributes: StepValue[];
+}
+
+// Attribute list of one instance: strings, enums, references, numbers,
+// $ and * as plain tokens, nested lists as arrays. Throws on bad syntax.
+function parseAttributes(text: string): StepValue[] {
+    let i = 0;
+    const value = (): StepValue => {
+        if (text[i] === '(') return list();
+        if (text[i] === '\'') {
+            let end = i + 1;
+            while (end < text.length && !(text[end] === '\'' && text[end + 1] !== '\'')) {
+                end += text[end] === '\'' ? 2 : 1;
+            }
+            if (end >= text.length) throw new Error(`Unterminated string in ${text}`);
+            const token = text.slice(i, end + 1);
+            i = end + 1;
+            return token;
+        }
+        const match = /^(\$|\*|\.[A-Z0-9_]+\.|#\d+|-?\d+\.\d*(E-?\d+)?|-?\d+)/.exec(text.slice(i));
+        if (!match) throw new Error(`Bad token at "${text.slice(i, i + 20)}"`);
+        i += match[0].length;
+        return match[0];
+    };
+    const list = (): StepValue[] => {
+        const items: StepValue[] = [];
+        i++; // (
+        if (text[i] === ')') {
+            i++;
+            return items;
+        }
+        for (;;) {
+            items.push(value());
+            if (text[i] === ',') {
+                i++;
+            } else if (text[i] === ')') {
+                i++;
+                return items;
+            } else {
+                throw new Error(`Expected , or ) at "${text.slice(i, i + 20)}"`);
+            }
+        }
+    };
+    const attributes = list();
+    if (i !== text.length) throw new Error(`Trailing text "${text.slice(i)}"`);
+    return attributes;
+}
+
+// Minimal ISO 10303-21 reader for the exporter's one-instance-per-line output
+function parseStep(step: string): { header: string[], entities: Map<number, StepEntity> } {
+    const lines = step.split('\n');
+    expect(lines[0]).toBe('ISO-10303-21;');
+    const dataStart = lines.indexOf('DATA;');
+    const dataEnd = lines.indexOf('ENDSEC;', dataStart);
+    expect(dataStart).toBeGreaterThan(0);
+    expect(lines.slice(dataEnd + 1)).toEqual(['END-ISO-10303-21;', '']);
+
+    const entities = new Map<number, StepEntity>();
+    lines.slice(dataStart + 1, dataEnd).forEach(line => {
+        const match = /^#(\d+)=([A-Z0-9]+)(\(.*\));$/.exec(line);
+        if (!match) throw new Error(`Bad instance "${line}"`);
+        const id = Number(match[1]);
+        if (entities.has(id)) throw new Error(`Duplicate instance #${id}`);
+        entities.set(id, { id, type: match[2], attributes: parseAttributes(match[3]) });
+    });
+    return { header: lines.slice(1, dataStart), entities };
+}
+
+function references(value: StepValue): number[] {
+    if (Array.isArray(value)) return value.flatMap(references);
+    return value.startsWith('#') ? [Number(value.slice(1))] : [];
+}
+
+function ofType(entities: Map<number, StepEntity>, type: string): StepEntity[] {
+    return [...entities.values()].filter(entity => entity.type === type);
+}
+
+describe('exportIfc', () => {
+    const model = parseProject(planModel);
+
+    it('writes a well-formed IFC4 STEP file', () => {
+        const { header, entities } = parseStep(exportIfc(model, 'Fixture'));
+        expect(header).toContain('FILE_SCHEMA((\'IFC4\'));');
+        expect(entities.size).toBeGreaterThan(0);
+
+        entities.forEach(entity => {
+            expect(IFC4_ATTRIBUTE_COUNTS[entity.type], `unexpected ${entity.type}`).toBeDefined();
+            expect(entity.attributes, `attributes of #${entity.id} ${entity.type}`)
+                .toHaveLength(IFC4_ATTRIBUTE_COUNTS[entity.type]);
+            references(entity.attributes).forEach(reference => {
+                expect(entities.has(reference), `#${entity.id} refers to missing #${reference}`).toBe(true);
+            });
+        });
+    });
+
+    it('gives every rooted entity a unique GlobalId', () => {
+        const { entities } = parseStep(exportIfc(model));
+        const guids = [...entities.values()]
+            .map(entity => entity.attributes[0])
+            .filter((value): value is string => typeof value === 'string' && /^'[0-9A-Za-z_$]{22}'$/.test(value));
+        expect(guids.length).toBeGreaterThan(0);
+        expect(new Set(guids).size).toBe(guids.length);
+    });
+
+    it('writes each wall with its openings and fillings', () => {
+        const { entities } = parseStep(exportIfc(model));
+        expect(ofType(entities, 'IFCWALLSTANDARDCASE')).toHaveLength(model.walls.length);
+        expect(ofType(entities, 'IFCOPENINGELEMENT')).toHaveLength(model.openings.length);
+        expect(ofType(entities, 'IFCDOOR')).toHaveLength(model.openings.filter(o => o.kind === 'door').length);
+        expect(ofType(entities, 'IFCBUILDINGSTOREY')).toHaveLength(model.levels.length);
+    });
+
+    it('leaves out walls and fillings on hidden layers', () => {
+        const hidden = parseProject(planModel);
+        hidden.layers.push({ type: 'layer', id: 'layer_0', name: 'Hidden', visible: false, locked: false, color: null, lineWeight: null });
+        hidden.walls[1].layerId = 'layer_0';
+        hidden.openings[0].layerId = 'layer_0';
+        const { entities } = parseStep(exportIfc(hidden));
+        expect(ofType(entities, 'IFCWALLSTANDARDCASE')).toHaveLength(hidden.walls.length - 1);
+        // The door's host is visible, so its void stays
+        expect(ofType(entities, 'IFCOPENINGELEMENT')).toHaveLength(1);
+        expect(ofType(entities, 'IFCDOOR')).toHaveLength(0);
+    });
+});
@@ -0,0 +1,224 @@
+import type { ModelSnapshot } from '../history/ModelSnapshot';
+import type { Wall } from '../Viewer';
+import { type Opening, openingSpan } from '../model/Opening';
+import { wallFaceOffsets } from '../model/WallProperties';
+import { sortLevels } from '../model/Level';
+
+// IFC4 export for BIM tools, written as an ISO 10303-21 (STEP) file. Walls
+// become IfcWallStandardCase extrusions along their axis, openings become
+// IfcOpeningElement voids filled by an IfcDoor or IfcWindow. Each level is
+// an IfcBuildingStorey of one building on one site. As in the plan exports,
+// walls on hidden layers are left out, and openings on hidden layers keep
+// their void but lose the door or window filling it.
+
+export const IFC_FILE_EXTENSION = '.ifc';
+
+// Depth added to each side of an opening void so it cuts cleanly through the wall
+const OPENING_CLEARANCE = 0.01;
+
+// Thickness of the door leaf or window pane inside the opening
+const PANEL_THICKNESS = 0.05;
+
+const GUID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+
+// Random 128-bit GlobalId in IFC's compressed 22 character form
+function createGuid(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    let bits = '';
+    bytes.forEach(byte => bits += byte.toString(2).padStart(8, '0'));
+    bits = '0000' + bits; // 132 bits, 22 characters of 6
+    let guid = '';
+    for (let i = 0; i < bits.length; i += 6) {
+        guid += GUID_CHARS[parseInt(bits.slice(i, i + 6), 2)];
+    }
+    return guid;
+}
+
+// STEP string literal. Apostrophes and backslashes are doubled, characters
+// outside printable ASCII use the \X2\ and \X4\ hex encodings.
+function str(text: string): string {
+    let encoded = '';
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (char === '\'') encoded += '\'\'';
+        else if (char === '\\') encoded += '\\\\';
+        else if (code >= 0x20 && code <= 0x7e) encoded += char;
+        else if (code <= 0xffff) encoded += `\\X2\\${code.toString(16).toUpperCase().padStart(4, '0')}\\X0\\`;
+        else encoded += `\\X4\\${code.toString(16).toUpperCase().padStart(8, '0')}\\X0\\`;
+    }
+    return `'${encoded}'`;
+}
+
+// STEP real, which always has a decimal point
+function real(value: number): string {
+    const text = String(Number(value.toFixed(6)));
+    if (text === '0' || text === '-0') return '0.';
+    return text.includes('.') ? text : `${text}.`;
+}
+
+function list(items: string[]): string {
+    return `(${items.join(',')})`;
+}
+
+function point(...coordinates: number[]): string {
+    return list(coordinates.map(real));
+}
+
+// Numbered entity instances of the DATA section
+class StepData {
+    private lines: string[] = [];
+
+    public add(type: string, ...attributes: string[]): string {
+        this.lines.push(`#${this.lines.length + 1}=${type}(${attributes.join(',')});`);
+        return `#${this.lines.length}`;
+    }
+
+    public toString(): string {
+        return this.lines.join('\n');
+    }
+}
+
+export function exportIfc(model: ModelSnapshot, projectName: string = 'Project', timestamp: Date = new Date()): string {
+    const data = new StepData();
+    const $ = '$';
+
+    // Units, in metres and radians like the editor
+    const units = data.add('IFCUNITASSIGNMENT', list([
+        data.add('IFCSIUNIT', '*', '.LENGTHUNIT.', $, '.METRE.'),
+        data.add('IFCSIUNIT', '*', '.AREAUNIT.', $, '.SQUARE_METRE.'),
+        data.add('IFCSIUNIT', '*', '.VOLUMEUNIT.', $, '.CUBIC_METRE.'),
+        data.add('IFCSIUNIT', '*', '.PLANEANGLEUNIT.', $, '.RADIAN.')
+    ]));
+
+    // Shared geometry
+    const origin = data.add('IFCCARTESIANPOINT', point(0, 0, 0));
+    const zAxis = data.add('IFCDIRECTION', point(0, 0, 1));
+    const worldPlacement = data.add('IFCAXIS2PLACEMENT3D', origin, $, $);
+    const context = data.add('IFCGEOMETRICREPRESENTATIONCONTEXT', $, str('Model'), '3', real(1e-5), worldPlacement, $);
+    const bodyContext = data.add('IFCGEOMETRICREPRESENTATIONSUBCONTEXT', str('Body'), str('Model'), '*', '*', '*', '*', context, $, '.MODEL_VIEW.', $);
+    const axisContext = data.add('IFCGEOMETRICREPRESENTATIONSUBCONTEXT', str('Axis'), str('Model'), '*', '*', '*', '*', context, $, '.GRAPH_VIEW.', $);
+
+    // Box extruded up from the XY plane of its object placement
+    const box = (x: number, y: number, width: number, depth: number, height: number): string => {
+        const position = data.add('IFCAXIS2PLACEMENT2D', data.add('IFCCARTESIANPOINT', point(x + width / 2, y + depth / 2)), $);
+        const profile = data.add('IFCRECTANGLEPROFILEDEF', '.AREA.', $, position, real(width), real(depth));
+        const solid = data.add('IFCEXTRUDEDAREASOLID', profile, worldPlacement, zAxis, real(height));
+        return data.add('IFCSHAPEREPRESENTATION', bodyContext, str('Body'), str('SweptSolid'), list([solid]));
+    };
+    const shape = (...representations: string[]) =>
+        data.add('IFCPRODUCTDEFINITIONSHAPE', $, $, list(representations));
+
+    // Placement relative to another one ($ for the world), at (x, y, z) with its X axis along (dx, dy)
+    const placement = (relativeTo: string, x: number, y: number, z: number, dx: number = 1, dy: number = 0): string => {
+        const axes = data.add('IFCAXIS2PLACEMENT3D',
+            data.add('IFCCARTESIANPOINT', point(x, y, z)),
+            zAxis,
+            data.add('IFCDIRECTION', point(dx, dy, 0)));
+        return data.add('IFCLOCALPLACEMENT', relativeTo, axes);
+    };
+
+    // Spatial hierarchy
+    const project = data.add('IFCPROJECT', str(createGuid()), $, str(projectName), $, $, $, $, list([context]), units);
+    const sitePlacement = placement($, 0, 0, 0);
+    const site = data.add('IFCSITE', str(createGuid()), $, str('Site'), $, $, sitePlacement, $, $, '.ELEMENT.', $, $, $, $, $);
+    const buildingPlacement = placement(sitePlacement, 0, 0, 0);
+    const building = data.add('IFCBUILDING', str(createGuid()), $, str('Building'), $, $, buildingPlacement, $, $, '.ELEMENT.', $, $, $);
+    const storeys = sortLevels(model.levels).map(level => {
+        const storeyPlacement = placement(buildingPlacement, 0, 0, level.elevation);
+        const storey = data.add('IFCBUILDINGSTOREY', str(createGuid()), $, str(level.name), $, $,
+            storeyPlacement, $, $, '.ELEMENT.', real(level.elevation));
+        return { level, placement: storeyPlacement, storey, contained: [] as string[] };
+    });
+    data.add('IFCRELAGGREGATES', str(createGuid()), $, $, $, project, list([site]));
+    data.add('IFCRELAGGREGATES', str(createGuid()), $, $, $, site, list([building]));
+    data.add('IFCRELAGGREGATES', str(createGuid()), $, $, $, building, list(storeys.map(storey => storey.storey)));
+
+    const brick = data.add('IFCMATERIAL', str('Brick'), $, $);
+    const layerSets = new Map<number, string>();
+    const layerSetFor = (thickness: number): string => {
+        let layerSet = layerSets.get(thickness);
+        if (!layerSet) {
+            const layer = data.add('IFCMATERIALLAYER', brick, real(thickness), $, $, $, $, $);
+            layerSet = data.add('IFCMATERIALLAYERSET', list([layer]), str(`Brick ${Math.round(thickness * 1000)}`), $);
+            layerSets.set(thickness, layerSet);
+        }
+        return layerSet;
+    };
+
+    const visible = (layerId: string) => model.layers.find(layer => layer.id === layerId)?.visible ?? true;
+
+    const writeOpening = (opening: Opening, wall: Wall, wallElement: string, wallPlacement: string, right: number, contained: string[]) => {
+        const { from, to } = openingSpan(opening, wall.length);
+        const width = to - from;
+        const name = opening.kind === 'door' ? 'Door' : 'Window';
+
+        // Void through the full wall thickness, placed at its bottom corner
+        const voidPlacement = placement(wallPlacement, from, -right - OPENING_CLEARANCE, opening.sillHeight);
+        const voidElement = data.add('IFCOPENINGELEMENT', str(createGuid()), $, str(`${name} opening ${opening.id}`), $, $,
+            voidPlacement,
+            shape(box(0, 0, width, wall.thickness + 2 * OPENING_CLEARANCE, opening.height)),
+            str(opening.id), '.OPENING.');
+        data.add('IFCRELVOIDSELEMENT', str(createGuid()), $, $, $, wallElement, voidElement);
+        if (!visible(opening.layerId)) return;
+
+        // Door leaf or window pane in the middle of the wall
+        const fillingShape = shape(box(0, OPENING_CLEARANCE + wall.thickness / 2 - PANEL_THICKNESS / 2, width, PANEL_THICKNESS, opening.height));
+        const fillingPlacement = placement(voidPlacement, 0, 0, 0);
+        const filling = opening.kind === 'door'
+            ? data.add('IFCDOOR', str(createGuid()), $, str(`${name} ${opening.id}`), $, $, fillingPlacement, fillingShape,
+                str(opening.id), real(opening.height), real(width), '.DOOR.', '.SINGLE_SWING_LEFT.', $)
+            : data.add('IFCWINDOW', str(createGuid()), $, str(`${name} ${opening.id}`), $, $, fillingPlacement, fillingShape,
+                str(opening.id), real(opening.height), real(width), '.WINDOW.', '.SINGLE_PANEL.', $);
+        data.add('IFCRELFILLSELEMENT', str(createGuid()), $, $, $, voidElement, filling);
+        contained.push(filling);
+    };
+
+    model.walls.forEach(wall => {
+        const storey = storeys.find(s => s.level.id === wall.levelId);
+        if (!storey || wall.length <= 0 || !visible(wall.layerId)) return;
+        const { left, right } = wallFaceOffsets(wall);
+        const dx = (wall.end.x - wall.start.x) / wall.length;
+        const dy = (wall.end.y - wall.start.y) / wall.length;
+
+        // Local X runs along the wall axis from its start point
+        const wallPlacement = placement(storey.placement, wall.start.x, wall.start.y, wall.baseOffset, dx, dy);
+        const axis = data.add('IFCSHAPEREPRESENTATION', axisContext, str('Axis'), str('Curve2D'), list([
+            data.add('IFCPOLYLINE', list([
+                data.add('IFCCARTESIANPOINT', point(0, 0)),
+                data.add('IFCCARTESIANPOINT', point(wall.length, 0))
+            ]))
+        ]));
+        const body = box(0, -right, wall.length, left + right, wall.height);
+        const element = data.add('IFCWALLSTANDARDCASE', str(createGuid()), $, str(`Wall ${wall.id}`), $, $,
+            wallPlacement, shape(axis, body), str(wall.id), '.STANDARD.');
+        storey.contained.push(element);
+
+        // Layers run from the right face towards the left one
+        const usage = data.add('IFCMATERIALLAYERSETUSAGE', layerSetFor(wall.thickness), '.AXIS2.', '.POSITIVE.', real(-right), $);
+        data.add('IFCRELASSOCIATESMATERIAL', str(createGuid()), $, $, $, list([element]), usage);
+
+        model.openings
+            .filter(opening => opening.hostId === wall.id)
+            .forEach(opening => writeOpening(opening, wall, element, wallPlacement, right, storey.contained));
+    });
+
+    storeys.forEach(({ storey, contained }) => {
+        if (contained.length === 0) return;
+        data.add('IFCRELCONTAINEDINSPATIALSTRUCTURE', str(createGuid()), $, $, $, list(contained), storey);
+    });
+
+    const time = timestamp.toISOString().slice(0, 19);
+    return [
+        'ISO-10303-21;',
+        'HEADER;',
+        `FILE_DESCRIPTION((${str('ViewDefinition [ReferenceView_V1.2]')}),'2;1');`,
+        `FILE_NAME(${str(projectName + IFC_FILE_EXTENSION)},${str(time)},(''),(''),'','','');`,
+        `FILE_SCHEMA(('IFC4'));`,
+        'ENDSEC;',
+        'DATA;',
+        data.toString(),
+        'ENDSEC;',
+        'END-ISO-10303-21;',
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { BoxGeometry, Group, Mesh, MeshStandardMaterial } from 'three';
+import { disposeModel, exportObj } from './ModelExport';
+
+describe('exportObj', () => {
+    it('writes meshes at their elevation', () => {
+        const model = new Group();
+        const mesh = new Mesh(new BoxGeometry(1, 1, 1), new MeshStandardMaterial({ name: 'brick' }));
+        mesh.position.y = 3;
+        model.add(mesh);
+
+        const { obj, mtl } = exportObj(model, 'model');
+        const heights = obj.split('\n')
+            .filter(line => line.startsWith('v '))
+            .map(line => Number(line.split(' ')[2]));
+        expect(Math.min(...heights)).toBeCloseTo(2.5);
+        expect(Math.max(...heights)).toBeCloseTo(3.5);
+        expect(obj.startsWith('mtllib model.mtl\n')).toBe(true);
+        expect(mtl).toContain('newmtl brick');
+        disposeModel(model);
+    });
+});
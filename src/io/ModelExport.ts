@@ -0,0 +1,76 @@
+import { type Material, type Object3D, type Texture, Mesh, MeshStandardMaterial } from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+
+// 3D model export for visualisation tools. Both formats are Y up in
+// metres, matching the 3D view.
+
+export const GLB_FILE_EXTENSION = '.glb';
+export const OBJ_FILE_EXTENSION = '.obj';
+export const MTL_FILE_EXTENSION = '.mtl';
+
+// Binary glTF with textures embedded and userData written as extras
+export async function exportGlb(model: Object3D): Promise<ArrayBuffer> {
+    const result = await new GLTFExporter().parseAsync(model, { binary: true, embedImages: true });
+    return result as ArrayBuffer;
+}
+
+export interface ObjExport {
+    obj: string;
+    mtl: string;
+    textures: { fileName: string, url: string }[]; // image files the MTL refers to
+}
+
+function formatColor(value: number): string {
+    return String(Number(value.toFixed(4)));
+}
+
+function textureFileName(url: string): string {
+    return url.split(/[?#]/)[0].split('/').pop() || 'texture.png';
+}
+
+// Free the geometries, materials and textures of an exported model
+export function disposeModel(model: Object3D) {
+    model.traverse(child => {
+        if (!(child instanceof Mesh)) return;
+        child.geometry.dispose();
+        const materials: Material[] = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach(material => {
+            if (material instanceof MeshStandardMaterial) material.map?.dispose();
+            material.dispose();
+        });
+    });
+}
+
+// Wavefront OBJ with a material library; fileName is the name without extension.
+// OBJExporter writes world positions, so the model's matrices are updated first.
+export function exportObj(model: Object3D, fileName: string): ObjExport {
+    model.updateMatrixWorld(true);
+    const materials = new Map<string, MeshStandardMaterial>();
+    model.traverse(child => {
+        if (child instanceof Mesh && child.material instanceof MeshStandardMaterial) {
+            materials.set(child.material.name, child.material);
+        }
+    });
+
+    const textures = new Map<string, string>();
+    const mtl: string[] = [];
+    materials.forEach((material, name) => {
+        const { r, g, b } = material.color;
+        mtl.push(`newmtl ${name}`, `Kd ${formatColor(r)} ${formatColor(g)} ${formatColor(b)}`, 'Ka 0 0 0', 'illum 1');
+        const map: Texture | null = material.map;
+        const url: string | undefined = map?.image?.src;
+        if (map && url) {
+            const mapFile = textureFileName(url);
+            textures.set(mapFile, url);
+            mtl.push(`map_Kd -s ${map.repeat.x} ${map.repeat.y} 1 ${mapFile}`);
+        }
+        mtl.push('');
+    });
+
+    return {
+        obj: `mtllib ${fileName}${MTL_FILE_EXTENSION}\n` + new OBJExporter().parse(model),
+        mtl: mtl.join('\n'),
+        textures: [...textures].map(([mapFile, url]) => ({ fileName: mapFile, url }))
+    };
+}
@@ -0,0 +1,171 @@
+import { Vector3 } from 'three';
+import type { ModelSnapshot } from '../history/ModelSnapshot';
+import type { Room } from '../Viewer';
+import { resolveWallOutlines } from '../geometry/WallJoins';
+import { openingSymbol } from '../geometry/OpeningGeometry';
+import { subtractConvexPolygon } from '../geometry/Segment2D';
+import { readableAngle } from '../geometry/DimensionGeometry';
+import { openingSpan } from '../model/Opening';
+import { dimensionGraphics, formatDimensionValue } from '../model/Dimension';
+import { wallFaceOffsets } from '../model/WallProperties';
+import { DIMENSIONS_LAYER_ID, ROOMS_LAYER_ID } from '../model/Layer';
+import { formatArea, formatLength } from '../units/Units';
+
+// The plan as drawing primitives on named layers, shared by the vector
+// exporters. Coordinates are plan metres.
+
+export type PlanLayer = 'WALL-CENTER' | 'WALL-OUTLINE' | 'OPENINGS' | 'DIMENSIONS' | 'ROOMS';
+
+export const PLAN_LAYERS: PlanLayer[] = ['WALL-CENTER', 'WALL-OUTLINE', 'OPENINGS', 'DIMENSIONS', 'ROOMS'];
+
+// Overrides from the editor layer an element is on
+export interface PlanStyle {
+    color?: string;      // '#rrggbb'
+    lineWeight?: number; // pen width in mm
+}
+
+export interface PlanLine extends PlanStyle {
+    layer: PlanLayer;
+    start: Vector3;
+    end: Vector3;
+}
+
+export interface PlanText extends PlanStyle {
+    layer: PlanLayer;
+    position: Vector3;  // centre of the text
+    text: string;
+    height: number;
+    rotation: number;   // radians, counter-clockwise
+}
+
+export interface PlanDrawing {
+    lines: PlanLine[];
+    wallAreas: Vector3[][];   // joined wall outlines, for fills
+    openingGaps: Vector3[][]; // parts of the wall areas cut away by openings
+    texts: PlanText[];
+}
+
+// Same placement as the dimension lines in the 2D view
+const DIMENSION_OFFSET = 0.5;
+const DIMENSION_EXTENSION = 0.1;
+const DIMENSION_TEXT_HEIGHT = 0.15;
+const ROOM_NAME_HEIGHT = 0.25;
+const ROOM_AREA_HEIGHT = 0.18;
+
+// Elements on hidden editor layers are left out, the others carry their
+// layer's colour and line weight overrides
+export function buildPlanDrawing(model: ModelSnapshot, rooms: Room[] = []): PlanDrawing {
+    const drawing: PlanDrawing = { lines: [], wallAreas: [], openingGaps: [], texts: [] };
+    const visible = (layerId: string) => model.layers.find(layer => layer.id === layerId)?.visible ?? true;
+    const style = (layerId: string): PlanStyle => {
+        const layer = model.layers.find(l => l.id === layerId);
+        const result: PlanStyle = {};
+        if (layer?.color) result.color = layer.color;
+        if (layer?.lineWeight) result.lineWeight = layer.lineWeight;
+        return result;
+    };
+    const line = (layer: PlanLayer, start: Vector3, end: Vector3, planStyle: PlanStyle) =>
+        drawing.lines.push({ layer, start, end, ...planStyle });
+    const dimensionStyle = style(DIMENSIONS_LAYER_ID);
+    const roomStyle = style(ROOMS_LAYER_ID);
+
+    // Hidden walls still join with their neighbours, as in the editor
+    const outlines = resolveWallOutlines(model.walls.map(wall => ({
+        id: wall.id,
+        start: wall.start,
+        end: wall.end,
+        ...wallFaceOffsets(wall)
+    })));
+
+    model.walls.forEach(wall => {
+        if (!visible(wall.layerId)) return;
+        const wallStyle = style(wall.layerId);
+        const gaps = model.openings
+            .filter(opening => opening.hostId === wall.id && wall.length > 0)
+            .map(opening => {
+                const { from, to } = openingSpan(opening, wall.length);
+                const symbol = openingSymbol(wall, wallFaceOffsets(wall), from, to, opening.kind);
+                if (visible(opening.layerId)) {
+                    for (let i = 0; i + 1 < symbol.lines.length; i += 2) {
+                        line('OPENINGS', symbol.lines[i], symbol.lines[i + 1], style(opening.layerId));
+                    }
+                }
+                return symbol.mask;
+            });
+        drawing.openingGaps.push(...gaps);
+
+        // Centre line and outline, both broken at openings
+        const broken = (start: Vector3, end: Vector3) => gaps.reduce(
+            (parts, gap) => parts.flatMap(([a, b]) => subtractConvexPolygon(a, b, gap, 1e-6)),
+            [[start, end]] as [Vector3, Vector3][]
+        );
+        broken(wall.start, wall.end).forEach(([a, b]) => line('WALL-CENTER', a, b, wallStyle));
+        (outlines.get(wall.id) ?? []).forEach(polygon => {
+            drawing.wallAreas.push(polygon);
+            polygon.forEach((point, i) => {
+                broken(point, polygon[(i + 1) % polygon.length]).forEach(([a, b]) => line('WALL-OUTLINE', a, b, wallStyle));
+            });
+        });
+
+        // Dimension line on the wall's left, with extension lines and its length
+        if (wall.length === 0 || !visible(DIMENSIONS_LAYER_ID)) return;
+        const nx = -(wall.end.y - wall.start.y) / wall.length;
+        const ny = (wall.end.x - wall.start.x) / wall.length;
+        const offsetPoint = (point: Vector3, distance: number) =>
+            new Vector3(point.x + nx * distance, point.y + ny * distance, 0);
+        const dimensionStart = offsetPoint(wall.start, DIMENSION_OFFSET);
+        const dimensionEnd = offsetPoint(wall.end, DIMENSION_OFFSET);
+        line('DIMENSIONS', dimensionStart, dimensionEnd, dimensionStyle);
+        line('DIMENSIONS', offsetPoint(wall.start, 0), offsetPoint(wall.start, DIMENSION_OFFSET + DIMENSION_EXTENSION), dimensionStyle);
+        line('DIMENSIONS', offsetPoint(wall.end, 0), offsetPoint(wall.end, DIMENSION_OFFSET + DIMENSION_EXTENSION), dimensionStyle);
+        drawing.texts.push({
+            ...dimensionStyle,
+            layer: 'DIMENSIONS',
+            position: offsetPoint(new Vector3().addVectors(wall.start, wall.end).multiplyScalar(0.5),
+                DIMENSION_OFFSET + DIMENSION_TEXT_HEIGHT),
+            text: formatLength(wall.length, model.units),
+            height: DIMENSION_TEXT_HEIGHT,
+            rotation: readableAngle(new Vector3().subVectors(wall.end, wall.start))
+        });
+    });
+
+    // Placed dimensions, drawn from the current wall positions
+    model.dimensions.forEach(dimension => {
+        if (!visible(DIMENSIONS_LAYER_ID)) return;
+        const graphics = dimensionGraphics(dimension, model.walls);
+        if (!graphics) return;
+        for (let i = 0; i + 1 < graphics.lines.length; i += 2) {
+            line('DIMENSIONS', graphics.lines[i], graphics.lines[i + 1], dimensionStyle);
+        }
+        graphics.texts.forEach(text => drawing.texts.push({
+            ...dimensionStyle,
+            layer: 'DIMENSIONS',
+            position: text.position,
+            text: formatDimensionValue(dimension.kind, text.value, model.units),
+            height: DIMENSION_TEXT_HEIGHT,
+            rotation: text.rotation
+        }));
+    });
+
+    // Room name with the net area underneath
+    rooms.forEach(room => {
+        if (!visible(ROOMS_LAYER_ID)) return;
+        drawing.texts.push({
+            ...roomStyle,
+            layer: 'ROOMS',
+            position: new Vector3(room.position.x, room.position.y + ROOM_NAME_HEIGHT * 0.6, 0),
+            text: room.name,
+            height: ROOM_NAME_HEIGHT,
+            rotation: 0
+        }, {
+            ...roomStyle,
+            layer: 'ROOMS',
+            position: new Vector3(room.position.x, room.position.y - ROOM_AREA_HEIGHT * 0.8, 0),
+            text: formatArea(room.area, model.units),
+            height: ROOM_AREA_HEIGHT,
+            rotation: 0
+        });
+    });
+
+    return drawing;
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import projectV0 from './fixtures/project-v0.json?raw';
+import projectV1 from './fixtures/project-v1.json?raw';
+import projectV2 from './fixtures/project-v2.json?raw';
+import projectV3 from './fixtures/project-v3.json?raw';
+import projectV4 from './fixtures/project-v4.json?raw';
+import projectV5 from './fixtures/project-v5.json?raw';
+import projectV6 from './fixtures/project-v6.json?raw';
+import projectV7 from './fixtures/project-v7.json?raw';
+import planModel from './fixtures/plan-model.json?raw';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFileError, parseProject, serializeProject } from './ProjectFile';
+import { DEFAULT_WALL_PROPERTIES } from '../model/WallProperties';
+import { DEFAULT_UNIT_SETTINGS } from '../units/Units';
+import { BUILT_IN_LAYER_IDS, WALLS_LAYER_ID } from '../model/Layer';
+import { DEFAULT_LEVEL } from '../model/Level';
+
+// The current version fixture as a document to change for a test
+function document(): { [key: string]: any } {
+    return JSON.parse(planModel);
+}
+
+function parse(data: unknown) {
+    return parseProject(JSON.stringify(data));
+}
+
+describe('parseProject migrations', () => {
+    it('reads an untagged version 0 walls array', () => {
+        const model = parseProject(projectV0);
+        expect(model.walls.map(wall => wall.id)).toEqual(['wall_0', 'wall_1']);
+        expect(model.walls[1].end.toArray()).toEqual([4, 3, 0]);
+        expect(model.walls[1].length).toBeCloseTo(3);
+        expect(model.walls[1].angle).toBeCloseTo(Math.PI / 2);
+        expect(model.wallCounter).toBe(2);
+    });
+
+    it('reads a version 0 object with a walls array', () => {
+        const model = parse({ wallCounter: 7, walls: [{ id: 'wall_3', start: { x: 1, y: 2 }, end: { x: 3, y: 2 } }] });
+        expect(model.walls[0].start.toArray()).toEqual([1, 2, 0]);
+        expect(model.wallCounter).toBe(7);
+    });
+
+    it('gives version 1 walls the default properties, level and layer', () => {
+        const model = parseProject(projectV1);
+        const [wall] = model.walls;
+        expect(wall).toMatchObject({ ...DEFAULT_WALL_PROPERTIES, levelId: DEFAULT_LEVEL.id, layerId: WALLS_LAYER_ID });
+        expect(model.wallCounter).toBe(5);
+        expect(model.levels).toEqual([DEFAULT_LEVEL]);
+        expect(model.layers.map(layer => layer.id)).toEqual(BUILT_IN_LAYER_IDS);
+        expect(model.units).toEqual(DEFAULT_UNIT_SETTINGS);
+        expect(model.openings).toEqual([]);
+        expect(model.roomTags).toEqual([]);
+        expect(model.dimensions).toEqual([]);
+    });
+
+    it('keeps version 2 wall properties', () => {
+        const [wall] = parseProject(projectV2).walls;
+        expect(wall).toMatchObject({ thickness: 0.3, height: 2.7, baseOffset: 0.1, justification: 'left' });
+    });
+
+    it('puts version 3 openings on the Walls layer', () => {
+        const model = parseProject(projectV3);
+        expect(model.openings).toEqual([{
+            type: 'opening', id: 'opening_0', kind: 'door', hostId: 'wall_0', layerId: WALLS_LAYER_ID,
+            offset: 1, width: 0.9, height: 2.1, sillHeight: 0, selected: false
+        }]);
+        expect(model.openingCounter).toBe(1);
+    });
+
+    it('puts version 4 room tags on the ground floor', () => {
+        const model = parseProject(projectV4);
+        expect(model.roomTags).toHaveLength(1);
+        expect(model.roomTags[0]).toMatchObject({ id: 'room_0', name: 'Kitchen', levelId: DEFAULT_LEVEL.id });
+        expect(model.roomTags[0].position.toArray()).toEqual([2, 1.5, 0]);
+        expect(model.openings[0]).toMatchObject({ kind: 'window', sillHeight: 0.9 });
+    });
+
+    it('keeps version 5 levels and the level of each wall and room tag', () => {
+        const model = parseProject(projectV5);
+        expect(model.levels.map(level => [level.id, level.elevation])).toEqual([['level_0', 0], ['level_1', 3]]);
+        expect(model.levelCounter).toBe(2);
+        expect(model.walls.map(wall => wall.levelId)).toEqual(['level_0', 'level_1']);
+        expect(model.roomTags[0].levelId).toBe('level_1');
+    });
+
+    it('keeps version 6 layers and the layer of each wall and opening', () => {
+        const model = parseProject(projectV6);
+        expect(model.layers.find(layer => layer.id === 'layer_0')).toEqual({
+            type: 'layer', id: 'layer_0', name: 'Partitions', visible: false, locked: true, color: '#ff0000', lineWeight: 0.35
+        });
+        expect(model.layerCounter).toBe(1);
+        expect(model.walls[0].layerId).toBe('layer_0');
+        expect(model.openings[0].layerId).toBe(WALLS_LAYER_ID);
+        expect(model.units).toEqual(DEFAULT_UNIT_SETTINGS);
+    });
+
+    it('keeps version 7 units and adds no dimensions', () => {
+        const model = parseProject(projectV7);
+        expect(model.units).toEqual({ unit: 'ft-in', precision: 8 });
+        expect(model.dimensions).toEqual([]);
+        expect(model.dimensionCounter).toBe(0);
+    });
+});
+
+describe('serializeProject', () => {
+    it('writes the current version back as it was read', () => {
+        expect(serializeProject(parseProject(planModel))).toBe(planModel.trimEnd());
+    });
+
+    it('round-trips migrated projects and dimensions', () => {
+        const data = JSON.parse(serializeProject(parseProject(projectV5)));
+        expect(data).toMatchObject({ format: PROJECT_FORMAT, version: PROJECT_VERSION });
+        data.dimensions = [{
+            id: 'dimension_4',
+            levelId: 'level_0',
+            kind: 'horizontal',
+            anchors: [{ wallId: 'wall_0', end: 'start' }, { wallId: 'wall_0', end: 'end' }],
+            offset: -0.8
+        }];
+        const model = parse(data);
+        expect(model.dimensionCounter).toBe(5);
+        expect(parseProject(serializeProject(model))).toEqual(model);
+    });
+
+    it('keeps counters past every id in use', () => {
+        const data = document();
+        data.wallCounter = 1;
+        expect(parse(data).wallCounter).toBe(4);
+        data.wallCounter = 10;
+        expect(parse(data).wallCounter).toBe(10);
+    });
+});
+
+describe('parseProject rejections', () => {
+    const dimension = {
+        id: 'dimension_0',
+        levelId: 'level_0',
+        kind: 'aligned',
+        anchors: [{ wallId: 'wall_0', end: 'start' }, { wallId: 'wall_1', end: 'end' }],
+        offset: 1
+    };
+
+    it.each<[string, (data: { [key: string]: any }) => unknown, string]>([
+        ['a newer version', data => ({ ...data, version: PROJECT_VERSION + 1 }),
+            `Project version ${PROJECT_VERSION + 1} is newer than this editor supports (${PROJECT_VERSION})`],
+        ['an invalid version', data => ({ ...data, version: -1 }), 'Invalid project version "-1"'],
+        ['another format', data => ({ ...data, format: 'other' }), 'Unknown file format "other"'],
+        ['a scalar document', () => 42, 'Project file must contain a JSON object'],
+        ['a version 0 file without walls', () => ({ rooms: [] }), 'Version 0 file does not contain a walls array'],
+        ['a wall on an unknown level', data => {
+            data.walls[0].levelId = 'level_9';
+            return data;
+        }, 'Wall "wall_0" is on unknown level "level_9"'],
+        ['a wall on an unknown layer', data => {
+            data.walls[0].layerId = 'layer_9';
+            return data;
+        }, 'Wall "wall_0" is on unknown layer "layer_9"'],
+        ['a wall without a thickness', data => {
+            delete data.walls[1].thickness;
+            return data;
+        }, 'walls[1].thickness is missing'],
+        ['a wall that is not an object', data => {
+            data.walls[2] = null;
+            return data;
+        }, 'walls[2] must be an object'],
+        ['duplicate wall ids', data => {
+            data.walls[1].id = 'wall_0';
+            return data;
+        }, 'Duplicate wall id "wall_0"'],
+        ['an opening in an unknown wall', data => {
+            data.openings[0].hostId = 'wall_9';
+            return data;
+        }, 'Opening "opening_0" is hosted by unknown wall "wall_9"'],
+        ['a room tag on an unknown level', data => {
+            data.roomTags[0].levelId = 'level_9';
+            return data;
+        }, 'Room "room_0" is on unknown level "level_9"'],
+        ['a missing built-in layer', data => {
+            data.layers = data.layers.filter((layer: { id: string }) => layer.id !== 'layer_grid');
+            return data;
+        }, 'Built-in layer "layer_grid" is missing'],
+        ['a dimension of an unknown wall', data => {
+            data.dimensions = [{ ...dimension, anchors: [dimension.anchors[0], { wallId: 'wall_9', end: 'end' }] }];
+            return data;
+        }, 'Dimension "dimension_0" refers to unknown wall "wall_9"'],
+        ['a dimension of a wall on another level', data => {
+            data.levels.push({ id: 'level_1', name: 'First floor', elevation: 3 });
+            data.walls[1].levelId = 'level_1';
+            data.dimensions = [dimension];
+            return data;
+        }, 'Dimension "dimension_0" refers to unknown wall "wall_1"'],
+        ['a dimension on an unknown level', data => {
+            data.dimensions = [{ ...dimension, levelId: 'level_9' }];
+            return data;
+        }, 'Dimension "dimension_0" is on unknown level "level_9"'],
+        ['a dimension with one anchor', data => {
+            data.dimensions = [{ ...dimension, anchors: [dimension.anchors[0]] }];
+            return data;
+        }, 'dimensions[0].anchors of a linear dimension must be at least two wall ends'],
+        ['invalid units', data => ({ ...data, units: { unit: 'm', precision: 8 } }),
+            'units.precision must be one of 0, 1, 2, 3, 4'],
+        ['a negative counter', data => ({ ...data, openingCounter: -1 }), 'openingCounter must be a non-negative integer']
+    ])('rejects %s', (_, change, message) => {
+        expect(() => parse(change(document()))).toThrow(new ProjectFileError(message));
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(() => parseProject('{ "walls": [')).toThrow(ProjectFileError);
+        expect(() => parseProject('{ "walls": [')).toThrow(/^File is not valid JSON: /);
+    });
+});
@@ -0,0 +1,658 @@
+import { Vector3 } from 'three';
+import type { Wall } from '../Viewer';
+import type { ModelSnapshot } from '../history/ModelSnapshot';
+import { type WallJustification, DEFAULT_WALL_PROPERTIES, validateWallProperties } from '../model/WallProperties';
+import { type Opening, type OpeningKind, validateOpeningProperties } from '../model/Opening';
+import type { RoomTag } from '../model/Room';
+import { type Dimension, type DimensionAnchor, type DimensionKind, validateDimension } from '../model/Dimension';
+import { type Level, DEFAULT_LEVEL, validateLevel } from '../model/Level';
+import { type LengthUnit, type UnitSettings, DEFAULT_UNIT_SETTINGS, validateUnitSettings } from '../units/Units';
+import { type Layer, BUILT_IN_LAYER_IDS, WALLS_LAYER_ID, createDefaultLayers, validateLayer } from '../model/Layer';
+
+// Project file format
+//
+// A project is a UTF-8 JSON document:
+//
+// {
+//     "format": "aec-editor-project",
+//     "version": 8,
+//     "units": {                 // how lengths are shown and typed
+//         "unit": "m",                   // "mm" | "cm" | "m" | "ft-in"
+//         "precision": 2                 // decimals, or the inch fraction denominator for "ft-in"
+//     },
+//     "layerCounter": 1,         // next number used for generated layer ids
+//     "levelCounter": 2,         // next number used for generated level ids
+//     "wallCounter": 3,          // next number used for generated wall ids
+//     "openingCounter": 1,       // next number used for generated opening ids
+//     "roomCounter": 2,          // next number used for generated room ids
+//     "dimensionCounter": 1,     // next number used for generated dimension ids
+//     "layers": [
+//         {
+//             "id": "layer_walls",       // built-in layers are always present
+//             "name": "Walls",
+//             "visible": true,
+//             "locked": false,           // elements can't be selected or edited
+//             "color": null,             // "#rrggbb" override, or null
+//             "lineWeight": null         // pen width in mm, or null
+//         },
+//         ...
+//     ],
+//     "levels": [
+//         {
+//             "id": "level_0",
+//             "name": "Ground floor",
+//             "elevation": 0             // floor level above the project origin
+//         },
+//         ...
+//     ],
+//     "walls": [
+//         {
+//             "id": "wall_0",
+//             "levelId": "level_0",      // level the wall stands on
+//             "layerId": "layer_walls",
+//             "start": [x, y, z],
+//             "end": [x, y, z],
+//             "thickness": 0.2,
+//             "height": 3,
+//             "baseOffset": 0,
+//             "justification": "center"   // "left" | "center" | "right"
+//         },
+//         ...
+//     ],
+//     "openings": [
+//         {
+//             "id": "opening_0",
+//             "kind": "door",            // "door" | "window"
+//             "hostId": "wall_0",        // wall the opening is cut into
+//             "layerId": "layer_walls",
+//             "offset": 1.5,             // host start point to opening centre
+//             "width": 0.9,
+//             "height": 2.1,
+//             "sillHeight": 0            // above the host wall's base
+//         },
+//         ...
+//     ],
+//     "roomTags": [
+//         {
+//             "id": "room_0",
+//             "name": "Kitchen",
+//             "levelId": "level_0",
+//             "position": [x, y, z]      // inside the room the tag names
+//         },
+//         ...
+//     ],
+//     "dimensions": [
+//         {
+//             "id": "dimension_0",
+//             "levelId": "level_0",
+//             "kind": "aligned",         // "aligned" | "horizontal" | "vertical" | "angular"
+//             "anchors": [               // wall ends measured, two or more; angular: one per wall
+//                 { "wallId": "wall_0", "end": "start" },   // "start" | "end"
+//                 ...
+//             ],
+//             "offset": 0.8              // dimension line from the first point; angular: arc radius
+//         },
+//         ...
+//     ]
+// }
+//
+// Coordinates and sizes are in metres on the plan (XY) plane. Angle and
+// length are not stored, they are derived from start/end when the file is loaded.
+//
+// Version history:
+//   0 - untagged dump of the walls array, [{ id, start: {x,y,z}, end: {x,y,z}, ... }]
+//       or { walls: [...] } without format/version fields
+//   1 - tagged format with id, start and end per wall
+//   2 - adds thickness, height, baseOffset and justification per wall
+//   3 - adds door and window openings hosted in walls
+//   4 - adds room tags; rooms themselves are detected from the walls
+//   5 - adds levels; walls and room tags belong to one
+//   6 - adds layers; walls and openings belong to one
+//   7 - adds the project's display units
+//   8 - adds dimensions tied to wall ends
+//
+// When the format changes, bump PROJECT_VERSION and add a migration from the
+// previous version to the migrations table below.
+
+export const PROJECT_FORMAT = 'aec-editor-project';
+export const PROJECT_VERSION = 8;
+export const PROJECT_FILE_EXTENSION = '.aec.json';
+
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+type JsonObject = { [key: string]: unknown };
+
+function isObject(value: unknown): value is JsonObject {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Change each object of an array, leaving anything else for the readers to reject
+function mapObjects(value: unknown, change: (item: JsonObject) => JsonObject): unknown {
+    return Array.isArray(value)
+        ? value.map((item: unknown) => isObject(item) ? change(item) : item)
+        : value;
+}
+
+// Each migration upgrades a document from version N to version N + 1
+const migrations: Record<number, (data: JsonObject) => JsonObject> = {
+    0: (data) => {
+        if (!Array.isArray(data.walls)) {
+            throw new ProjectFileError('Version 0 file does not contain a walls array');
+        }
+        return {
+            format: PROJECT_FORMAT,
+            version: 1,
+            wallCounter: data.wallCounter,
+            walls: data.walls.map((wall: unknown) => isObject(wall)
+                ? { id: wall.id, start: toPointArray(wall.start), end: toPointArray(wall.end) }
+                : wall)
+        };
+    },
+    // Walls get the properties that used to be hardcoded in the renderer
+    1: (data) => ({
+        ...data,
+        version: 2,
+        walls: mapObjects(data.walls, wall => ({ ...DEFAULT_WALL_PROPERTIES, ...wall }))
+    }),
+    // Projects without openings
+    2: (data) => ({
+        ...data,
+        version: 3,
+        openings: []
+    }),
+    // Rooms found in older projects get default names when loaded
+    3: (data) => ({
+        ...data,
+        version: 4,
+        roomTags: []
+    }),
+    // Single-storey projects are on the ground floor
+    4: (data) => ({
+        ...data,
+        version: 5,
+        levelCounter: 1,
+        levels: [{ id: DEFAULT_LEVEL.id, name: DEFAULT_LEVEL.name, elevation: DEFAULT_LEVEL.elevation }],
+        walls: mapObjects(data.walls, wall => ({ ...wall, levelId: DEFAULT_LEVEL.id })),
+        roomTags: mapObjects(data.roomTags, tag => ({ ...tag, levelId: DEFAULT_LEVEL.id }))
+    }),
+    // Everything drawn so far is on the Walls layer
+    5: (data) => ({
+        ...data,
+        version: 6,
+        layerCounter: 0,
+        layers: createDefaultLayers().map(({ type: _type, ...layer }) => layer),
+        walls: mapObjects(data.walls, wall => ({ ...wall, layerId: WALLS_LAYER_ID })),
+        openings: mapObjects(data.openings, opening => ({ ...opening, layerId: WALLS_LAYER_ID }))
+    }),
+    // Lengths used to be shown in metres with two decimals
+    6: (data) => ({
+        ...data,
+        version: 7,
+        units: { ...DEFAULT_UNIT_SETTINGS }
+    }),
+    // Only the automatic wall length labels existed
+    7: (data) => ({
+        ...data,
+        version: 8,
+        dimensions: []
+    })
+};
+
+function toPointArray(point: unknown): unknown {
+    if (isObject(point)) {
+        return [point.x, point.y, point.z ?? 0];
+    }
+    return point;
+}
+
+function detectVersion(data: unknown): number {
+    if (Array.isArray(data)) return 0;
+    if (!isObject(data)) {
+        throw new ProjectFileError('Project file must contain a JSON object');
+    }
+    if (data.format === undefined && data.version === undefined) return 0;
+    if (data.format !== PROJECT_FORMAT) {
+        throw new ProjectFileError(`Unknown file format "${data.format}"`);
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 0) {
+        throw new ProjectFileError(`Invalid project version "${data.version}"`);
+    }
+    if (data.version > PROJECT_VERSION) {
+        throw new ProjectFileError(
+            `Project version ${data.version} is newer than this editor supports (${PROJECT_VERSION})`
+        );
+    }
+    return data.version;
+}
+
+// Bring any supported document up to the current version
+export function migrateProject(data: unknown): JsonObject {
+    let version = detectVersion(data);
+    // An untagged walls array reads like { walls: [...] }
+    let document: JsonObject = isObject(data) ? data : { walls: data };
+    while (version < PROJECT_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new ProjectFileError(`No migration available from version ${version}`);
+        }
+        document = migrate(document);
+        version++;
+    }
+    return document;
+}
+
+function readPoint(value: unknown, where: string): Vector3 {
+    if (!Array.isArray(value) || value.length < 2 || value.length > 3 ||
+        !value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+        throw new ProjectFileError(`${where} must be an array of 2 or 3 finite numbers`);
+    }
+    return new Vector3(value[0], value[1], value[2] ?? 0);
+}
+
+function readUnits(value: unknown): UnitSettings {
+    if (!isObject(value)) {
+        throw new ProjectFileError('units must be an object');
+    }
+    const units = { unit: value.unit as LengthUnit, precision: value.precision as number };
+    const errors = validateUnitSettings(units);
+    if (errors.length > 0) {
+        throw new ProjectFileError(`units.${errors[0]}`);
+    }
+    return units;
+}
+
+function readLayer(value: unknown, index: number): Layer {
+    const where = `layers[${index}]`;
+    if (!isObject(value)) {
+        throw new ProjectFileError(`${where} must be an object`);
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        throw new ProjectFileError(`${where}.id must be a non-empty string`);
+    }
+    if (typeof value.name !== 'string') {
+        throw new ProjectFileError(`${where}.name must be a string`);
+    }
+    const properties = {
+        name: value.name,
+        visible: value.visible as boolean,
+        locked: value.locked as boolean,
+        color: value.color as string | null,
+        lineWeight: value.lineWeight as number | null
+    };
+    const missing = Object.entries(properties).find(([, v]) => v === undefined);
+    if (missing) {
+        throw new ProjectFileError(`${where}.${missing[0]} is missing`);
+    }
+    const errors = validateLayer(properties);
+    if (errors.length > 0) {
+        throw new ProjectFileError(`${where}.${errors[0]}`);
+    }
+    return { type: 'layer', id: value.id, ...properties };
+}
+
+function readLevel(value: unknown, index: number): Level {
+    const where = `levels[${index}]`;
+    if (!isObject(value)) {
+        throw new ProjectFileError(`${where} must be an object`);
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        throw new ProjectFileError(`${where}.id must be a non-empty string`);
+    }
+    if (typeof value.name !== 'string') {
+        throw new ProjectFileError(`${where}.name must be a string`);
+    }
+    if (typeof value.elevation !== 'number') {
+        throw new ProjectFileError(`${where}.elevation must be a number`);
+    }
+    const errors = validateLevel({ name: value.name, elevation: value.elevation });
+    if (errors.length > 0) {
+        throw new ProjectFileError(`${where}.${errors[0]}`);
+    }
+    return { type: 'level', id: value.id, name: value.name, elevation: value.elevation };
+}
+
+function readWall(value: unknown, index: number): Wall {
+    const where = `walls[${index}]`;
+    if (!isObject(value)) {
+        throw new ProjectFileError(`${where} must be an object`);
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        throw new ProjectFileError(`${where}.id must be a non-empty string`);
+    }
+    if (typeof value.levelId !== 'string') {
+        throw new ProjectFileError(`${where}.levelId must be a string`);
+    }
+    if (typeof value.layerId !== 'string') {
+        throw new ProjectFileError(`${where}.layerId must be a string`);
+    }
+    const start = readPoint(value.start, `${where}.start`);
+    const end = readPoint(value.end, `${where}.end`);
+
+    const properties = {
+        thickness: value.thickness as number,
+        height: value.height as number,
+        baseOffset: value.baseOffset as number,
+        justification: value.justification as WallJustification
+    };
+    const missing = Object.entries(properties).find(([, v]) => v === undefined);
+    if (missing) {
+        throw new ProjectFileError(`${where}.${missing[0]} is missing`);
+    }
+    const errors = validateWallProperties(properties);
+    if (errors.length > 0) {
+        throw new ProjectFileError(`${where}.${errors[0]}`);
+    }
+
+    return {
+        type: 'wall',
+        ...properties,
+        id: value.id,
+        levelId: value.levelId,
+        layerId: value.layerId,
+        start,
+        end,
+        angle: Math.atan2(end.y - start.y, end.x - start.x),
+        length: start.distanceTo(end),
+        selected: false,
+        highlighted: false
+    };
+}
+
+function readOpening(value: unknown, index: number): Opening {
+    const where = `openings[${index}]`;
+    if (!isObject(value)) {
+        throw new ProjectFileError(`${where} must be an object`);
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        throw new ProjectFileError(`${where}.id must be a non-empty string`);
+    }
+    if (typeof value.hostId !== 'string') {
+        throw new ProjectFileError(`${where}.hostId must be a string`);
+    }
+    if (typeof value.layerId !== 'string') {
+        throw new ProjectFileError(`${where}.layerId must be a string`);
+    }
+    if (typeof value.offset !== 'number' || !Number.isFinite(value.offset)) {
+        throw new ProjectFileError(`${where}.offset must be a finite number`);
+    }
+
+    const properties = {
+        kind: value.kind as OpeningKind,
+        width: value.width as number,
+        height: value.height as number,
+        sillHeight: value.sillHeight as number
+    };
+    const missing = Object.entries(properties).find(([, v]) => v === undefined);
+    if (missing) {
+        throw new ProjectFileError(`${where}.${missing[0]} is missing`);
+    }
+    const errors = validateOpeningProperties(properties);
+    if (errors.length > 0) {
+        throw new ProjectFileError(`${where}.${errors[0]}`);
+    }
+
+    return {
+        type: 'opening',
+        ...properties,
+        id: value.id,
+        hostId: value.hostId,
+        layerId: value.layerId,
+        offset: value.offset,
+        selected: false
+    };
+}
+
+function readRoomTag(value: unknown, index: number): RoomTag {
+    const where = `roomTags[${index}]`;
+    if (!isObject(value)) {
+        throw new ProjectFileError(`${where} must be an object`);
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        throw new ProjectFileError(`${where}.id must be a non-empty string`);
+    }
+    if (typeof value.name !== 'string') {
+        throw new ProjectFileError(`${where}.name must be a string`);
+    }
+    if (typeof value.levelId !== 'string') {
+        throw new ProjectFileError(`${where}.levelId must be a string`);
+    }
+    return {
+        type: 'room',
+        id: value.id,
+        name: value.name,
+        levelId: value.levelId,
+        position: readPoint(value.position, `${where}.position`)
+    };
+}
+
+function readDimension(value: unknown, index: number): Dimension {
+    const where = `dimensions[${index}]`;
+    if (!isObject(value)) {
+        throw new ProjectFileError(`${where} must be an object`);
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        throw new ProjectFileError(`${where}.id must be a non-empty string`);
+    }
+    if (typeof value.levelId !== 'string') {
+        throw new ProjectFileError(`${where}.levelId must be a string`);
+    }
+    const properties = {
+        kind: value.kind as DimensionKind,
+        anchors: value.anchors as DimensionAnchor[],
+        offset: value.offset as number
+    };
+    const errors = validateDimension(properties);
+    if (errors.length > 0) {
+        throw new ProjectFileError(`${where}.${errors[0]}`);
+    }
+    return {
+        type: 'dimension',
+        id: value.id,
+        levelId: value.levelId,
+        ...properties,
+        anchors: properties.anchors.map(anchor => ({ wallId: anchor.wallId, end: anchor.end })),
+        selected: false
+    };
+}
+
+// Highest numeric suffix of generated ids ("wall_12" -> 12), or -1
+function maxIdNumber(items: { id: string }[]): number {
+    return items.reduce((max, item) => {
+        const match = /_(\d+)$/.exec(item.id);
+        return match ? Math.max(max, Number(match[1])) : max;
+    }, -1);
+}
+
+// Counter for new ids: past every id in use, and at least the stored value
+function readCounter(value: unknown, items: { id: string }[], name: string): number {
+    const counter = maxIdNumber(items) + 1;
+    if (value === undefined) return counter;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new ProjectFileError(`${name} must be a non-negative integer`);
+    }
+    return Math.max(counter, value);
+}
+
+function checkUniqueIds(items: { id: string }[], what: string) {
+    const ids = new Set<string>();
+    items.forEach(item => {
+        if (ids.has(item.id)) {
+            throw new ProjectFileError(`Duplicate ${what} id "${item.id}"`);
+        }
+        ids.add(item.id);
+    });
+}
+
+// Parse and validate a project file. Throws ProjectFileError without
+// returning anything partial if any part of the file is invalid.
+export function parseProject(text: string): ModelSnapshot {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        throw new ProjectFileError(`File is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const data = migrateProject(json);
+
+    const units = readUnits(data.units);
+
+    if (!Array.isArray(data.layers)) {
+        throw new ProjectFileError('layers must be an array');
+    }
+    const layers: Layer[] = data.layers.map(readLayer);
+    checkUniqueIds(layers, 'layer');
+    const layerIds = new Set(layers.map(layer => layer.id));
+    BUILT_IN_LAYER_IDS.forEach(id => {
+        if (!layerIds.has(id)) {
+            throw new ProjectFileError(`Built-in layer "${id}" is missing`);
+        }
+    });
+
+    if (!Array.isArray(data.levels) || data.levels.length === 0) {
+        throw new ProjectFileError('levels must be a non-empty array');
+    }
+    const levels: Level[] = data.levels.map(readLevel);
+    checkUniqueIds(levels, 'level');
+    const levelIds = new Set(levels.map(level => level.id));
+
+    if (!Array.isArray(data.walls)) {
+        throw new ProjectFileError('walls must be an array');
+    }
+    const walls: Wall[] = data.walls.map(readWall);
+    checkUniqueIds(walls, 'wall');
+    walls.forEach(wall => {
+        if (!levelIds.has(wall.levelId)) {
+            throw new ProjectFileError(`Wall "${wall.id}" is on unknown level "${wall.levelId}"`);
+        }
+        if (!layerIds.has(wall.layerId)) {
+            throw new ProjectFileError(`Wall "${wall.id}" is on unknown layer "${wall.layerId}"`);
+        }
+    });
+
+    if (!Array.isArray(data.openings)) {
+        throw new ProjectFileError('openings must be an array');
+    }
+    const openings: Opening[] = data.openings.map(readOpening);
+    checkUniqueIds(openings, 'opening');
+    const wallIds = new Set(walls.map(wall => wall.id));
+    openings.forEach(opening => {
+        if (!wallIds.has(opening.hostId)) {
+            throw new ProjectFileError(`Opening "${opening.id}" is hosted by unknown wall "${opening.hostId}"`);
+        }
+        if (!layerIds.has(opening.layerId)) {
+            throw new ProjectFileError(`Opening "${opening.id}" is on unknown layer "${opening.layerId}"`);
+        }
+    });
+
+    if (!Array.isArray(data.roomTags)) {
+        throw new ProjectFileError('roomTags must be an array');
+    }
+    const roomTags: RoomTag[] = data.roomTags.map(readRoomTag);
+    checkUniqueIds(roomTags, 'room');
+    roomTags.forEach(tag => {
+        if (!levelIds.has(tag.levelId)) {
+            throw new ProjectFileError(`Room "${tag.id}" is on unknown level "${tag.levelId}"`);
+        }
+    });
+
+    if (!Array.isArray(data.dimensions)) {
+        throw new ProjectFileError('dimensions must be an array');
+    }
+    const dimensions: Dimension[] = data.dimensions.map(readDimension);
+    checkUniqueIds(dimensions, 'dimension');
+    dimensions.forEach(dimension => {
+        if (!levelIds.has(dimension.levelId)) {
+            throw new ProjectFileError(`Dimension "${dimension.id}" is on unknown level "${dimension.levelId}"`);
+        }
+        dimension.anchors.forEach(anchor => {
+            const wall = walls.find(w => w.id === anchor.wallId);
+            if (!wall || wall.levelId !== dimension.levelId) {
+                throw new ProjectFileError(`Dimension "${dimension.id}" refers to unknown wall "${anchor.wallId}"`);
+            }
+        });
+    });
+
+    return {
+        units,
+        layers,
+        layerCounter: readCounter(data.layerCounter, layers, 'layerCounter'),
+        levels,
+        levelCounter: readCounter(data.levelCounter, levels, 'levelCounter'),
+        walls,
+        wallCounter: readCounter(data.wallCounter, walls, 'wallCounter'),
+        openings,
+        openingCounter: readCounter(data.openingCounter, openings, 'openingCounter'),
+        roomTags,
+        roomCounter: readCounter(data.roomCounter, roomTags, 'roomCounter'),
+        dimensions,
+        dimensionCounter: readCounter(data.dimensionCounter, dimensions, 'dimensionCounter')
+    };
+}
+
+export function serializeProject(snapshot: ModelSnapshot): string {
+    const document = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        units: { unit: snapshot.units.unit, precision: snapshot.units.precision },
+        layerCounter: snapshot.layerCounter,
+        levelCounter: snapshot.levelCounter,
+        wallCounter: snapshot.wallCounter,
+        openingCounter: snapshot.openingCounter,
+        roomCounter: snapshot.roomCounter,
+        dimensionCounter: snapshot.dimensionCounter,
+        layers: snapshot.layers.map(layer => ({
+            id: layer.id,
+            name: layer.name,
+            visible: layer.visible,
+            locked: layer.locked,
+            color: layer.color,
+            lineWeight: layer.lineWeight
+        })),
+        levels: snapshot.levels.map(level => ({
+            id: level.id,
+            name: level.name,
+            elevation: level.elevation
+        })),
+        walls: snapshot.walls.map(wall => ({
+            id: wall.id,
+            levelId: wall.levelId,
+            layerId: wall.layerId,
+            start: wall.start.toArray(),
+            end: wall.end.toArray(),
+            thickness: wall.thickness,
+            height: wall.height,
+            baseOffset: wall.baseOffset,
+            justification: wall.justification
+        })),
+        openings: snapshot.openings.map(opening => ({
+            id: opening.id,
+            kind: opening.kind,
+            hostId: opening.hostId,
+            layerId: opening.layerId,
+            offset: opening.offset,
+            width: opening.width,
+            height: opening.height,
+            sillHeight: opening.sillHeight
+        })),
+        roomTags: snapshot.roomTags.map(tag => ({
+            id: tag.id,
+            name: tag.name,
+            levelId: tag.levelId,
+            position: tag.position.toArray()
+        })),
+        dimensions: snapshot.dimensions.map(dimension => ({
+            id: dimension.id,
+            levelId: dimension.levelId,
+            kind: dimension.kind,
+            anchors: dimension.anchors.map(anchor => ({ wallId: anchor.wallId, end: anchor.end })),
+            offset: dimension.offset
+        }))
+    };
+    return JSON.stringify(document, null, 2);
+}
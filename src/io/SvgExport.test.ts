@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import type { PlanDrawing, PlanText } from './PlanDrawing';
+import { type SvgExportOptions, exportSvg, fitScale } from './SvgExport';
+
+// Drawing of one line from the origin, its extent in metres
+function lineDrawing(width: number, height: number): PlanDrawing {
+    return {
+        lines: [{ layer: 'WALL-CENTER', start: new Vector3(0, 0, 0), end: new Vector3(width, height, 0) }],
+        wallAreas: [],
+        openingGaps: [],
+        texts: []
+    };
+}
+
+function text(value: string): PlanText {
+    return { layer: 'ROOMS', position: new Vector3(0, 0, 0), text: value, height: 0.25, rotation: 0 };
+}
+
+const OPTIONS: SvgExportOptions = { paper: 'A3', scale: 50, title: 'Plan', date: '2024-01-01' };
+
+// Paper coordinates of the only wall centre line
+function centreLine(svg: string): { x1: number, y1: number, x2: number, y2: number } {
+    const match = /<g id="wall-center"[^>]*>\n<line x1="([\d.-]+)" y1="([\d.-]+)" x2="([\d.-]+)" y2="([\d.-]+)"/.exec(svg);
+    expect(match).not.toBeNull();
+    const [x1, y1, x2, y2] = match!.slice(1).map(Number);
+    return { x1, y1, x2, y2 };
+}
+
+describe('fitScale', () => {
+    it.each<[string, number, number, SvgExportOptions['paper'], number]>([
+        ['a small plan at the most detailed scale', 4, 3, 'A3', 20],
+        ['a plan that just fits the drawing area width', 20, 10, 'A3', 50],
+        ['the same plan on a smaller sheet', 20, 10, 'A4', 100],
+        ['a tall plan, leaving room for the title block', 1, 12, 'A4', 100],
+        ['a plan that fits no scale at the least detailed one', 1000, 1000, 'A4', 500]
+    ])('picks %s', (_, width, height, paper, scale) => {
+        expect(fitScale(lineDrawing(width, height), paper)).toBe(scale);
+    });
+});
+
+describe('exportSvg', () => {
+    it('draws on a sheet of the paper size in millimetres', () => {
+        const svg = exportSvg(lineDrawing(1, 0), OPTIONS);
+        expect(svg).toContain('width="420mm" height="297mm" viewBox="0 0 420 297"');
+    });
+
+    it.each([20, 50, 100, 200])('draws a 1 m wall 1000/%i mm long', scale => {
+        const { x1, y1, x2, y2 } = centreLine(exportSvg(lineDrawing(1, 0), { ...OPTIONS, scale }));
+        expect(x2 - x1).toBeCloseTo(1000 / scale, 3);
+        expect(y2 - y1).toBeCloseTo(0, 3);
+    });
+
+    it('points plan Y up the sheet', () => {
+        const { y1, y2 } = centreLine(exportSvg(lineDrawing(0, 1), OPTIONS));
+        expect(y1 - y2).toBeCloseTo(20, 3);
+    });
+
+    it('centres the plan in the area above the title block', () => {
+        const { x1, y1, x2, y2 } = centreLine(exportSvg(lineDrawing(2, 2), OPTIONS));
+        expect((x1 + x2) / 2).toBeCloseTo(210, 3);
+        expect((y1 + y2) / 2).toBeCloseTo(10 + (297 - 20 - 30) / 2, 3);
+    });
+
+    it('escapes XML in room names and the title block', () => {
+        const drawing = { ...lineDrawing(1, 1), texts: [text('Bed & <Bath>')] };
+        const svg = exportSvg(drawing, { ...OPTIONS, title: 'O\'Neil "House" & Co', date: '<today>' });
+        expect(svg).toContain('>Bed &amp; &lt;Bath&gt;</text>');
+        expect(svg).toContain('>O&apos;Neil &quot;House&quot; &amp; Co</text>');
+        expect(svg).toContain('>&lt;today&gt;</text>');
+        expect(svg).not.toContain('<Bath>');
+    });
+
+    it('writes the scale and paper in the title block', () => {
+        const svg = exportSvg(lineDrawing(1, 1), { ...OPTIONS, paper: 'A1', scale: 100 });
+        expect(svg).toContain('>Scale 1:100 on A1</text>');
+    });
+
+    it('keeps texts legible at small scales', () => {
+        const drawing = { ...lineDrawing(1, 1), texts: [text('Hall')] };
+        // 0.25 m is 0.5 mm at 1:500, raised to the minimum
+        expect(exportSvg(drawing, { ...OPTIONS, scale: 500 })).toContain('font-size="1.8"');
+        expect(exportSvg(drawing, { ...OPTIONS, scale: 50 })).toContain('font-size="5"');
+    });
+
+    it('applies layer colour and line weight overrides', () => {
+        const drawing = lineDrawing(1, 1);
+        drawing.lines[0] = { ...drawing.lines[0], color: '#ff0000', lineWeight: 0.7 };
+        expect(exportSvg(drawing, OPTIONS)).toContain(' stroke="#ff0000" stroke-width="0.7"/>');
+    });
+});
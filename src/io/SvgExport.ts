@@ -0,0 +1,175 @@
+import { Box2, Vector2, type Vector3 } from 'three';
+import type { PlanDrawing, PlanLayer, PlanStyle } from './PlanDrawing';
+
+// Vector plan sheet as SVG, drawn at a true scale on A-series paper. All
+// SVG user units are paper millimetres, so printing at 100% keeps the scale.
+
+export const SVG_FILE_EXTENSION = '.svg';
+
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0';
+
+// Landscape sheet sizes in millimetres
+export const PAPER_SIZES: Record<PaperSize, { width: number, height: number }> = {
+    A4: { width: 297, height: 210 },
+    A3: { width: 420, height: 297 },
+    A2: { width: 594, height: 420 },
+    A1: { width: 841, height: 594 },
+    A0: { width: 1189, height: 841 }
+};
+
+// Common architectural scales, as 1:n
+export const PLAN_SCALES = [20, 50, 100, 200, 500];
+
+export interface SvgExportOptions {
+    paper: PaperSize;
+    scale: number;   // 1:scale
+    title: string;
+    date: string;
+}
+
+// Pen widths on paper, in millimetres
+const LINE_WEIGHTS: Record<PlanLayer, number> = {
+    'WALL-OUTLINE': 0.5,
+    'OPENINGS': 0.25,
+    'DIMENSIONS': 0.18,
+    'WALL-CENTER': 0.13,
+    'ROOMS': 0.18
+};
+
+const MARGIN = 10;
+const TITLE_BLOCK = { width: 120, height: 30 };
+const MIN_TEXT_HEIGHT = 1.8;
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&'"]/g, char => ({
+        '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;'
+    }[char]!));
+}
+
+function round(value: number): string {
+    return String(Number(value.toFixed(3)));
+}
+
+// Attributes for an element's layer overrides, on top of its group's defaults
+function styleAttributes(style: PlanStyle, colorAttribute: 'stroke' | 'fill'): string {
+    let attributes = '';
+    if (style.color) attributes += ` ${colorAttribute}="${style.color}"`;
+    if (style.lineWeight && colorAttribute === 'stroke') attributes += ` stroke-width="${style.lineWeight}"`;
+    return attributes;
+}
+
+// Plan extent of everything in the drawing
+function drawingBounds(drawing: PlanDrawing): Box2 {
+    const box = new Box2();
+    const add = (p: Vector3) => box.expandByPoint(new Vector2(p.x, p.y));
+    drawing.lines.forEach(line => {
+        add(line.start);
+        add(line.end);
+    });
+    drawing.wallAreas.forEach(polygon => polygon.forEach(add));
+    drawing.texts.forEach(text => add(text.position));
+    return box;
+}
+
+// Area of the sheet available for the plan: inside the border, over its full
+// width, and above the title block
+function drawingArea(paper: PaperSize): { x: number, y: number, width: number, height: number } {
+    const { width, height } = PAPER_SIZES[paper];
+    return {
+        x: MARGIN,
+        y: MARGIN,
+        width: width - 2 * MARGIN,
+        height: height - 2 * MARGIN - TITLE_BLOCK.height
+    };
+}
+
+// Most detailed standard scale at which the drawing fits the sheet, or
+// the least detailed one if it fits none
+export function fitScale(drawing: PlanDrawing, paper: PaperSize): number {
+    const size = drawingBounds(drawing).getSize(new Vector2());
+    const area = drawingArea(paper);
+    return PLAN_SCALES.find(scale =>
+        size.x * 1000 / scale <= area.width && size.y * 1000 / scale <= area.height
+    ) ?? PLAN_SCALES[PLAN_SCALES.length - 1];
+}
+
+export function exportSvg(drawing: PlanDrawing, options: SvgExportOptions): string {
+    const { width, height } = PAPER_SIZES[options.paper];
+    const area = drawingArea(options.paper);
+    const bounds = drawingBounds(drawing);
+    const center = bounds.isEmpty() ? new Vector2() : bounds.getCenter(new Vector2());
+    const mmPerMetre = 1000 / options.scale;
+
+    // Plan metres to paper millimetres, centred in the drawing area, Y down
+    const x = (p: Vector3) => round(area.x + area.width / 2 + (p.x - center.x) * mmPerMetre);
+    const y = (p: Vector3) => round(area.y + area.height / 2 - (p.y - center.y) * mmPerMetre);
+    const points = (polygon: Vector3[]) => polygon.map(p => `${x(p)},${y(p)}`).join(' ');
+
+    const svg: string[] = [];
+    svg.push(
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+        '<defs>',
+        '<pattern id="wall-hatch" patternUnits="userSpaceOnUse" width="1.5" height="1.5" patternTransform="rotate(45)">',
+        '<rect width="1.5" height="1.5" fill="#e6e6e6"/>',
+        '<line x1="0" y1="0" x2="0" y2="1.5" stroke="#808080" stroke-width="0.1"/>',
+        '</pattern>',
+        `<clipPath id="drawing-area"><rect x="${area.x}" y="${area.y}" width="${area.width}" height="${area.height}"/></clipPath>`,
+        '</defs>',
+        `<rect width="${width}" height="${height}" fill="white"/>`,
+        `<g clip-path="url(#drawing-area)" stroke-linecap="round" font-family="Arial, sans-serif">`
+    );
+
+    // Hatched walls with the openings cut out of them
+    svg.push('<g id="wall-fills" stroke="none">');
+    drawing.wallAreas.forEach(polygon => svg.push(`<polygon points="${points(polygon)}" fill="url(#wall-hatch)"/>`));
+    drawing.openingGaps.forEach(polygon => svg.push(`<polygon points="${points(polygon)}" fill="white"/>`));
+    svg.push('</g>');
+
+    // Lines grouped per layer, thinnest first so heavy lines stay on top
+    const layers = Object.keys(LINE_WEIGHTS) as PlanLayer[];
+    layers.sort((a, b) => LINE_WEIGHTS[a] - LINE_WEIGHTS[b]).forEach(layer => {
+        const lines = drawing.lines.filter(line => line.layer === layer);
+        if (lines.length === 0) return;
+        const dash = layer === 'WALL-CENTER' ? ' stroke-dasharray="6 1.5 1 1.5"' : '';
+        svg.push(`<g id="${layer.toLowerCase()}" stroke="black" stroke-width="${LINE_WEIGHTS[layer]}"${dash}>`);
+        lines.forEach(line => svg.push(
+            `<line x1="${x(line.start)}" y1="${y(line.start)}" x2="${x(line.end)}" y2="${y(line.end)}"${styleAttributes(line, 'stroke')}/>`
+        ));
+        svg.push('</g>');
+    });
+
+    // Texts at their plan size, but never smaller than is legible
+    svg.push('<g id="texts" fill="black" text-anchor="middle" dominant-baseline="central">');
+    drawing.texts.forEach(text => {
+        const size = Math.max(text.height * mmPerMetre, MIN_TEXT_HEIGHT);
+        const angle = round(-text.rotation * 180 / Math.PI);
+        const tx = x(text.position);
+        const ty = y(text.position);
+        svg.push(
+            `<text x="${tx}" y="${ty}" font-size="${round(size)}" transform="rotate(${angle} ${tx} ${ty})"${styleAttributes(text, 'fill')}>` +
+            `${escapeXml(text.text)}</text>`
+        );
+    });
+    svg.push('</g>', '</g>');
+
+    // Border and title block in the bottom-right corner
+    const blockX = width - MARGIN - TITLE_BLOCK.width;
+    const blockY = height - MARGIN - TITLE_BLOCK.height;
+    const row = TITLE_BLOCK.height / 3;
+    svg.push(
+        `<g id="title-block" fill="none" stroke="black" font-family="Arial, sans-serif">`,
+        `<rect x="${MARGIN}" y="${MARGIN}" width="${width - 2 * MARGIN}" height="${height - 2 * MARGIN}" stroke-width="0.5"/>`,
+        `<rect x="${blockX}" y="${blockY}" width="${TITLE_BLOCK.width}" height="${TITLE_BLOCK.height}" stroke-width="0.35"/>`,
+        `<line x1="${blockX}" y1="${blockY + row}" x2="${blockX + TITLE_BLOCK.width}" y2="${blockY + row}" stroke-width="0.18"/>`,
+        `<line x1="${blockX}" y1="${blockY + 2 * row}" x2="${blockX + TITLE_BLOCK.width}" y2="${blockY + 2 * row}" stroke-width="0.18"/>`,
+        `<g stroke="none" fill="black" font-size="3.5">`,
+        `<text x="${blockX + 3}" y="${blockY + row - 3}" font-size="5">${escapeXml(options.title)}</text>`,
+        `<text x="${blockX + 3}" y="${blockY + 2 * row - 3}">Scale 1:${options.scale} on ${options.paper}</text>`,
+        `<text x="${blockX + 3}" y="${blockY + 3 * row - 3}">${escapeXml(options.date)}</text>`,
+        '</g>',
+        '</g>',
+        '</svg>'
+    );
+    return svg.join('\n') + '\n';
+}
@@ -1,4 +1,40 @@
 import { Viewer } from './Viewer';
+import { PROJECT_FILE_EXTENSION, parseProject, serializeProject } from './io/ProjectFile';
+import { Autosave } from './io/Autosave';
+import { buildPlanDrawing } from './io/PlanDrawing';
+import { DXF_FILE_EXTENSION, exportDxf } from './io/DxfExport';
+import { DxfImportError, parseDxf } from './io/DxfImport';
+import { DxfImportDialog } from './ui/DxfImportDialog';
+import { SVG_FILE_EXTENSION, exportSvg } from './io/SvgExport';
+import { SvgExportDialog } from './ui/SvgExportDialog';
+import { IFC_FILE_EXTENSION, exportIfc } from './io/IfcExport';
+import {
+    GLB_FILE_EXTENSION, MTL_FILE_EXTENSION, OBJ_FILE_EXTENSION, disposeModel, exportGlb, exportObj
+} from './io/ModelExport';
+import type { SnapType } from './snapping/SnapEngine';
+import type { TransformCommand } from './commands/TransformCommand';
+import { MoveCommand } from './commands/MoveCommand';
+import { CopyCommand } from './commands/CopyCommand';
+import { RotateCommand } from './commands/RotateCommand';
+import { MirrorCommand } from './commands/MirrorCommand';
+import type { WallPickCommand } from './commands/WallPickCommand';
+import { TrimCommand } from './commands/TrimCommand';
+import { ExtendCommand } from './commands/ExtendCommand';
+import { SplitCommand } from './commands/SplitCommand';
+import { JoinCommand } from './commands/JoinCommand';
+import { OffsetCommand } from './commands/OffsetCommand';
+import { PlaceOpeningCommand } from './commands/PlaceOpeningCommand';
+import { LinearDimensionCommand } from './commands/LinearDimensionCommand';
+import { AngularDimensionCommand } from './commands/AngularDimensionCommand';
+import type { LinearDimensionKind } from './geometry/DimensionGeometry';
+import type { OpeningKind } from './model/Opening';
+import { levelSnapshot } from './history/ModelSnapshot';
+import { LevelPanel } from './ui/LevelPanel';
+import { LayerPanel } from './ui/LayerPanel';
+import {
+    type LengthUnit, DEFAULT_PRECISIONS, DECIMAL_PRECISIONS, FRACTION_PRECISIONS, LENGTH_UNITS, LENGTH_UNIT_NAMES,
+    formatLength, parseLength
+} from './units/Units';
 
 // Get the container element
 const container = document.getElementById('viewer-container');
@@ -10,10 +46,73 @@ if (!container) {
 const viewer = new Viewer(container);
 console.log("Viewer instance created.");
 
+// Offer to restore the last autosaved session
+const autosave = new Autosave();
+const lastSession = autosave.loadSession();
+if (lastSession) {
+    try {
+        const model = autosave.restore(lastSession);
+        const savedAt = new Date(lastSession.savedAt).toLocaleString();
+        if (model.walls.length > 0 && confirm(`Restore the session autosaved on ${savedAt}?`)) {
+            viewer.loadModel(model);
+        } else if (model.walls.length > 0) {
+            // Keep the declined session browsable instead of overwriting it,
+            // and only offer it once
+            autosave.addStoredSnapshot({ ...lastSession, name: `Session ${savedAt}` });
+            autosave.clearSession();
+        }
+    } catch (error) {
+        console.warn('Could not restore the last session', error);
+    }
+}
+
+// Levels panel, kept in step with edits and undo
+const levelPanelElement = document.getElementById('level-panel');
+if (levelPanelElement) {
+    const levelPanel = new LevelPanel(levelPanelElement, viewer);
+    viewer.onChange(() => levelPanel.update());
+}
+
+// Layers panel, next to the wall list
+const layerPanelElement = document.getElementById('layer-panel');
+if (layerPanelElement) {
+    const layerPanel = new LayerPanel(layerPanelElement, viewer);
+    viewer.onChange(() => layerPanel.update());
+}
+
+// Plan drawing of the level shown in the 2D view
+function activeLevelDrawing() {
+    const level = viewer.getActiveLevel();
+    return buildPlanDrawing(levelSnapshot(viewer.getModel(), level.id), viewer.getRooms(level.id));
+}
+
+// Autosave on every change, and once more before the tab closes
+viewer.onChange(() => autosave.schedule(() => viewer.getModel()));
+window.addEventListener('beforeunload', () => autosave.flush());
+
 // Get UI elements
 const switchTo2DButton = document.getElementById('switch-to-2d');
 const switchTo3DButton = document.getElementById('switch-to-3d');
 const toggleModeButton = document.getElementById('toggle-mode');
+const undoButton = document.getElementById('undo');
+const redoButton = document.getElementById('redo');
+const saveButton = document.getElementById('save-project');
+const exportDxfButton = document.getElementById('export-dxf');
+const importDxfButton = document.getElementById('import-dxf');
+const dxfFileInput = document.getElementById('dxf-file-input') as HTMLInputElement | null;
+const dxfImportElement = document.getElementById('dxf-import-dialog');
+const clearUnderlayButton = document.getElementById('clear-underlay');
+const exportSvgButton = document.getElementById('export-svg');
+const svgExportElement = document.getElementById('svg-export-dialog');
+const exportIfcButton = document.getElementById('export-ifc');
+const exportGlbButton = document.getElementById('export-glb');
+const exportObjButton = document.getElementById('export-obj');
+const openButton = document.getElementById('open-project');
+const projectFileInput = document.getElementById('project-file-input') as HTMLInputElement | null;
+const snapshotsButton = document.getElementById('toggle-snapshots');
+const snapshotContainer = document.getElementById('snapshot-list-container');
+const snapshotList = document.getElementById('snapshot-list');
+const takeSnapshotButton = document.getElementById('take-snapshot');
 
 // Set initial button text to match default drawing mode
 if (toggleModeButton) {
@@ -50,8 +149,408 @@ if (toggleModeButton) {
     });
 }
 
+// Add undo/redo button listeners
+if (undoButton) {
+    undoButton.addEventListener('click', () => viewer.undo());
+}
+
+if (redoButton) {
+    redoButton.addEventListener('click', () => viewer.redo());
+}
+
+// Save the model as a project file download
+function downloadFile(fileName: string, content: BlobPart, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+if (saveButton) {
+    saveButton.addEventListener('click', () => {
+        downloadFile(`project${PROJECT_FILE_EXTENSION}`, serializeProject(viewer.getModel()), 'application/json');
+    });
+}
+
+// Plan as DXF for CAD users
+if (exportDxfButton) {
+    exportDxfButton.addEventListener('click', () => {
+        const drawing = activeLevelDrawing();
+        downloadFile(`plan${DXF_FILE_EXTENSION}`, exportDxf(drawing), 'application/dxf');
+    });
+}
+
+// Start from a consultant's DXF, as walls or as an underlay to trace over
+if (importDxfButton && dxfFileInput && dxfImportElement) {
+    const dxfImportDialog = new DxfImportDialog(dxfImportElement);
+    importDxfButton.addEventListener('click', () => dxfFileInput.click());
+    dxfFileInput.addEventListener('change', async () => {
+        const file = dxfFileInput.files?.[0];
+        dxfFileInput.value = ''; // Allow picking the same file again
+        if (!file) return;
+        try {
+            const dxf = parseDxf(await file.text());
+            const choice = await dxfImportDialog.open(dxf, file.name);
+            if (!choice) return;
+            viewer.setView(true);
+            if (choice.mode === 'walls') {
+                viewer.addWalls(choice.segments, {}, {}, 'Import DXF');
+            } else {
+                viewer.setUnderlay(choice.segments);
+            }
+            viewer.zoomExtend();
+        } catch (error) {
+            if (!(error instanceof DxfImportError)) throw error;
+            alert(`Could not import ${file.name}: ${error.message}`);
+        }
+    });
+}
+
+clearUnderlayButton?.addEventListener('click', () => viewer.clearUnderlay());
+
+// Printable vector plan at a true scale
+if (exportSvgButton && svgExportElement) {
+    const svgExportDialog = new SvgExportDialog(svgExportElement);
+    exportSvgButton.addEventListener('click', async () => {
+        const drawing = activeLevelDrawing();
+        const options = await svgExportDialog.open(drawing, viewer.getActiveLevel().name);
+        if (!options) return;
+        downloadFile(`plan${SVG_FILE_EXTENSION}`, exportSvg(drawing, options), 'image/svg+xml');
+    });
+}
+
+// BIM handoff to Revit, ArchiCAD and other IFC tools
+exportIfcButton?.addEventListener('click', () => {
+    downloadFile(`model${IFC_FILE_EXTENSION}`, exportIfc(viewer.getModel()), 'application/x-step');
+});
+
+// 3D model for visualisation tools such as Blender or game engines
+exportGlbButton?.addEventListener('click', async () => {
+    try {
+        const model = await viewer.createExportModel();
+        try {
+            downloadFile(`model${GLB_FILE_EXTENSION}`, await exportGlb(model), 'model/gltf-binary');
+        } finally {
+            disposeModel(model);
+        }
+    } catch (error) {
+        alert(`Could not export the model: ${(error as Error).message}`);
+    }
+});
+
+// OBJ keeps its material library and textures in separate files
+exportObjButton?.addEventListener('click', async () => {
+    try {
+        const model = await viewer.createExportModel();
+        try {
+            const { obj, mtl, textures } = exportObj(model, 'model');
+            downloadFile(`model${OBJ_FILE_EXTENSION}`, obj, 'model/obj');
+            downloadFile(`model${MTL_FILE_EXTENSION}`, mtl, 'model/mtl');
+            for (const texture of textures) {
+                const image = await (await fetch(texture.url)).blob();
+                downloadFile(texture.fileName, image, image.type);
+            }
+        } finally {
+            disposeModel(model);
+        }
+    } catch (error) {
+        alert(`Could not export the model: ${(error as Error).message}`);
+    }
+});
+
+// Open a project file through the hidden file picker
+if (openButton && projectFileInput) {
+    openButton.addEventListener('click', () => projectFileInput.click());
+    projectFileInput.addEventListener('change', async () => {
+        const file = projectFileInput.files?.[0];
+        projectFileInput.value = ''; // Allow picking the same file again
+        if (!file) return;
+        try {
+            viewer.loadModel(parseProject(await file.text()));
+        } catch (error) {
+            console.error(error);
+            alert(`Could not open "${file.name}": ${(error as Error).message}`);
+        }
+    });
+}
+
+// Snapshot history panel
+function updateSnapshotList() {
+    if (!snapshotList) return;
+    snapshotList.innerHTML = '';
+    const snapshots = autosave.listSnapshots();
+    if (snapshots.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'empty';
+        empty.textContent = 'No snapshots yet';
+        snapshotList.appendChild(empty);
+    }
+    snapshots.forEach((snapshot, index) => {
+        const listItem = document.createElement('li');
+        listItem.textContent = snapshot.name;
+        listItem.title = new Date(snapshot.savedAt).toLocaleString();
+        listItem.dataset.snapshotIndex = String(index);
+        snapshotList.appendChild(listItem);
+    });
+}
+
+if (snapshotsButton && snapshotContainer) {
+    snapshotsButton.addEventListener('click', () => {
+        snapshotContainer.hidden = !snapshotContainer.hidden;
+        updateSnapshotList();
+    });
+}
+
+if (takeSnapshotButton) {
+    takeSnapshotButton.addEventListener('click', () => {
+        const name = prompt('Snapshot name', `Snapshot ${new Date().toLocaleString()}`);
+        if (name) {
+            autosave.addSnapshot(name, viewer.getModel());
+            updateSnapshotList();
+        }
+    });
+}
+
+if (snapshotList) {
+    snapshotList.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.tagName !== 'LI' || !target.dataset.snapshotIndex) return;
+        const snapshot = autosave.listSnapshots()[Number(target.dataset.snapshotIndex)];
+        if (!snapshot || !confirm(`Restore "${snapshot.name}"? This can be undone.`)) return;
+        try {
+            viewer.loadModel(autosave.restore(snapshot));
+        } catch (error) {
+            console.error(error);
+            alert(`Could not restore "${snapshot.name}": ${(error as Error).message}`);
+        }
+    });
+}
+
+// Snap toggles, initialised from the viewer's current settings
+const snapSettings = viewer.getSnapSettings();
+document.querySelectorAll<HTMLInputElement>('#snap-settings input[data-snap-type]').forEach(checkbox => {
+    const type = checkbox.dataset.snapType as SnapType;
+    checkbox.checked = snapSettings.enabled[type];
+    checkbox.addEventListener('change', () => viewer.setSnapEnabled(type, checkbox.checked));
+});
+
+const snapToleranceInput = document.getElementById('snap-tolerance') as HTMLInputElement | null;
+if (snapToleranceInput) {
+    snapToleranceInput.value = String(snapSettings.tolerancePx);
+    snapToleranceInput.addEventListener('change', () => {
+        const pixels = Number(snapToleranceInput.value);
+        if (Number.isFinite(pixels)) {
+            viewer.setSnapTolerance(pixels);
+        }
+    });
+}
+
+// Ortho, polar tracking and alignment toggles
+const constraintSettings = viewer.getConstraintSettings();
+const orthoToggle = document.getElementById('ortho-toggle') as HTMLInputElement | null;
+const polarToggle = document.getElementById('polar-toggle') as HTMLInputElement | null;
+const polarIncrementSelect = document.getElementById('polar-increment') as HTMLSelectElement | null;
+const alignmentToggle = document.getElementById('alignment-toggle') as HTMLInputElement | null;
+
+if (orthoToggle) {
+    orthoToggle.checked = constraintSettings.ortho;
+    orthoToggle.addEventListener('change', () => viewer.setOrtho(orthoToggle.checked));
+}
+
+if (polarToggle && polarIncrementSelect) {
+    polarToggle.checked = constraintSettings.polar;
+    polarIncrementSelect.value = String(constraintSettings.polarIncrementDeg);
+    const updatePolar = () => viewer.setPolarTracking(polarToggle.checked, Number(polarIncrementSelect.value));
+    polarToggle.addEventListener('change', updatePolar);
+    polarIncrementSelect.addEventListener('change', updatePolar);
+}
+
+if (alignmentToggle) {
+    alignmentToggle.checked = constraintSettings.alignment;
+    alignmentToggle.addEventListener('change', () => viewer.setAlignmentTracking(alignmentToggle.checked));
+}
+
+// Project units. Undo can change them too, so the selects follow the model.
+const unitSelect = document.getElementById('length-unit') as HTMLSelectElement | null;
+const precisionSelect = document.getElementById('length-precision') as HTMLSelectElement | null;
+if (unitSelect && precisionSelect) {
+    LENGTH_UNITS.forEach(unit => unitSelect.add(new Option(LENGTH_UNIT_NAMES[unit], unit)));
+    const showUnits = () => {
+        const units = viewer.getUnits();
+        unitSelect.value = units.unit;
+        precisionSelect.innerHTML = '';
+        if (units.unit === 'ft-in') {
+            FRACTION_PRECISIONS.forEach(denominator =>
+                precisionSelect.add(new Option(denominator === 1 ? '1"' : `1/${denominator}"`, String(denominator))));
+        } else {
+            DECIMAL_PRECISIONS.forEach(decimals => precisionSelect.add(new Option((0).toFixed(decimals), String(decimals))));
+        }
+        precisionSelect.value = String(units.precision);
+    };
+    unitSelect.addEventListener('change', () => {
+        const unit = unitSelect.value as LengthUnit;
+        viewer.setUnits({ unit, precision: DEFAULT_PRECISIONS[unit] });
+    });
+    precisionSelect.addEventListener('change', () => {
+        viewer.setUnits({ unit: viewer.getUnits().unit, precision: Number(precisionSelect.value) });
+    });
+    viewer.onChange(showUnits);
+    showUnits();
+}
+
+// Move, copy, rotate and mirror tools work on the current selection
+const transformTools: Record<string, new (viewer: Viewer) => TransformCommand> = {
+    'move-tool': MoveCommand,
+    'copy-tool': CopyCommand,
+    'rotate-tool': RotateCommand,
+    'mirror-tool': MirrorCommand
+};
+
+Object.entries(transformTools).forEach(([buttonId, Command]) => {
+    const button = document.getElementById(buttonId);
+    if (!button) return;
+    button.addEventListener('click', () => {
+        if (viewer.getSelectedWalls().length === 0) {
+            alert('Select one or more walls first.');
+            return;
+        }
+        viewer.setView(true); // The tools work in the plan view
+        const command = new Command(viewer);
+        viewer.startCommand(command, command.basePointPrompt);
+    });
+});
+
+// Trim, extend, split and join pick the walls they edit
+const editTools: Record<string, new (viewer: Viewer) => WallPickCommand> = {
+    'trim-tool': TrimCommand,
+    'extend-tool': ExtendCommand,
+    'split-tool': SplitCommand,
+    'join-tool': JoinCommand
+};
+
+Object.entries(editTools).forEach(([buttonId, Command]) => {
+    const button = document.getElementById(buttonId);
+    if (!button) return;
+    button.addEventListener('click', () => {
+        viewer.setView(true);
+        const command = new Command(viewer);
+        viewer.startCommand(command, command.firstPrompt);
+    });
+});
+
+// Doors and windows are placed by clicking on a wall
+const openingTools: Record<string, OpeningKind> = {
+    'door-tool': 'door',
+    'window-tool': 'window'
+};
+
+Object.entries(openingTools).forEach(([buttonId, kind]) => {
+    document.getElementById(buttonId)?.addEventListener('click', () => {
+        viewer.setView(true);
+        const command = new PlaceOpeningCommand(viewer, kind);
+        viewer.startCommand(command, command.prompt);
+    });
+});
+
+// Dimensions pick wall ends, or two walls for an angle
+const dimensionTools: Record<string, { kind: LinearDimensionKind, chained: boolean }> = {
+    'aligned-dimension-tool': { kind: 'aligned', chained: false },
+    'horizontal-dimension-tool': { kind: 'horizontal', chained: false },
+    'vertical-dimension-tool': { kind: 'vertical', chained: false },
+    'chain-dimension-tool': { kind: 'aligned', chained: true }
+};
+
+Object.entries(dimensionTools).forEach(([buttonId, { kind, chained }]) => {
+    document.getElementById(buttonId)?.addEventListener('click', () => {
+        viewer.setView(true);
+        const command = new LinearDimensionCommand(viewer, kind, chained);
+        viewer.startCommand(command, command.prompt);
+    });
+});
+
+document.getElementById('angle-dimension-tool')?.addEventListener('click', () => {
+    viewer.setView(true);
+    const command = new AngularDimensionCommand(viewer);
+    viewer.startCommand(command, command.prompt);
+});
+
+// Offset asks for the distance first and reuses it next time
+let offsetDistance = 0.3;
+document.getElementById('offset-tool')?.addEventListener('click', () => {
+    const units = viewer.getUnits();
+    const input = prompt('Offset distance', formatLength(offsetDistance, units));
+    if (input === null) return;
+    let distance: number;
+    try {
+        distance = parseLength(input, units);
+    } catch (error) {
+        alert((error as Error).message);
+        return;
+    }
+    if (distance <= 0) {
+        alert('Offset distance must be positive.');
+        return;
+    }
+    offsetDistance = distance;
+    viewer.setView(true);
+    const command = new OffsetCommand(viewer, distance);
+    viewer.startCommand(command, command.firstPrompt);
+});
+
+const stretchToggle = document.getElementById('stretch-toggle') as HTMLInputElement | null;
+if (stretchToggle) {
+    stretchToggle.addEventListener('change', () => viewer.setStretchConnectedWalls(stretchToggle.checked));
+}
+
+// Flip a toggle checkbox from a function key and let its change handler apply it
+function toggleCheckbox(checkbox: HTMLInputElement | null) {
+    if (!checkbox) return;
+    checkbox.checked = !checkbox.checked;
+    checkbox.dispatchEvent(new Event('change'));
+}
+
 // Add keyboard shortcut for mode switching
 document.addEventListener('keydown', (e) => {
+    // Leave typing in form fields alone
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+    // Drawing aid toggles, as in most CAD tools
+    if (e.key === 'F8' || e.key === 'F10' || e.key === 'F11') {
+        e.preventDefault();
+        toggleCheckbox(e.key === 'F8' ? orthoToggle : e.key === 'F10' ? polarToggle : alignmentToggle);
+        return;
+    }
+
+    // Undo: Ctrl+Z, Redo: Ctrl+Shift+Z or Ctrl+Y
+    if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) {
+                viewer.redo();
+            } else {
+                viewer.undo();
+            }
+        } else if (key === 'y') {
+            e.preventDefault();
+            viewer.redo();
+        } else if (key === 'a') {
+            e.preventDefault();
+            viewer.selectAllWalls();
+        }
+        return;
+    }
+
+    // Delete every selected wall
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        viewer.deleteSelectedWalls();
+        return;
+    }
+
     if (e.key.toLowerCase() === 'd') {
         viewer.toggleDrawingMode();
         if (toggleModeButton) {
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { type Dimension, anchorPoint, dimensionGraphics, validateDimension } from './Dimension';
+
+const walls = [
+    { id: 'a', start: new Vector3(0, 0, 0), end: new Vector3(4, 0, 0) },
+    { id: 'b', start: new Vector3(4, 0, 0), end: new Vector3(4, 3, 0) }
+];
+
+function dimension(changes: Partial<Dimension>): Dimension {
+    return {
+        type: 'dimension',
+        id: 'dimension_0',
+        levelId: 'level_0',
+        kind: 'aligned',
+        anchors: [{ wallId: 'a', end: 'start' }, { wallId: 'b', end: 'end' }],
+        offset: 1,
+        ...changes
+    };
+}
+
+describe('anchorPoint', () => {
+    it('is the anchored end of the wall', () => {
+        expect(anchorPoint({ wallId: 'b', end: 'end' }, walls)).toBe(walls[1].end);
+        expect(anchorPoint({ wallId: 'b', end: 'start' }, walls)).toBe(walls[1].start);
+    });
+
+    it('is null once the wall is gone', () => {
+        expect(anchorPoint({ wallId: 'c', end: 'end' }, walls)).toBeNull();
+    });
+});
+
+describe('dimensionGraphics', () => {
+    it('measures between the anchored wall ends', () => {
+        expect(dimensionGraphics(dimension({}), walls)!.texts[0].value).toBeCloseTo(5);
+        expect(dimensionGraphics(dimension({ kind: 'horizontal' }), walls)!.texts[0].value).toBeCloseTo(4);
+    });
+
+    it('measures the angle between the anchored walls', () => {
+        const angle = dimension({ kind: 'angular', anchors: [{ wallId: 'a', end: 'start' }, { wallId: 'b', end: 'end' }] });
+        expect(dimensionGraphics(angle, walls)!.texts[0].value).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('draws nothing when an anchored wall is missing', () => {
+        expect(dimensionGraphics(dimension({ anchors: [{ wallId: 'a', end: 'start' }, { wallId: 'c', end: 'end' }] }), walls))
+            .toBeNull();
+    });
+});
+
+describe('validateDimension', () => {
+    const valid = dimension({});
+
+    it.each([
+        ['a linear dimension', {}],
+        ['a chained dimension', { anchors: [...valid.anchors, { wallId: 'b', end: 'start' as const }] }],
+        ['a negative offset', { offset: -1 }],
+        ['an angular dimension', { kind: 'angular' as const }]
+    ])('accepts %s', (_, changes) => {
+        expect(validateDimension({ ...valid, ...changes })).toEqual([]);
+    });
+
+    it.each([
+        ['an unknown kind', { kind: 'radial' }, 'kind must be one of aligned, horizontal, vertical, angular'],
+        ['anchors that are not wall ends', { anchors: [{ wallId: 'a', end: 'middle' }] }, 'anchors must be wall ends'],
+        ['a single anchor', { anchors: [{ wallId: 'a', end: 'start' }] },
+            'anchors of a linear dimension must be at least two wall ends'],
+        ['an angle on one wall', { kind: 'angular', anchors: [{ wallId: 'a', end: 'start' }, { wallId: 'a', end: 'end' }] },
+            'anchors of an angular dimension must be ends of two different walls'],
+        ['an infinite offset', { offset: Infinity }, 'offset must be a finite number'],
+        ['an angle without a radius', { kind: 'angular', offset: 0 },
+            'offset of an angular dimension is its arc radius and must be positive']
+    ])('rejects %s', (_, changes, error) => {
+        expect(validateDimension({ ...valid, ...changes } as Dimension)).toEqual([error]);
+    });
+});
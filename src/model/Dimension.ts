@@ -0,0 +1,93 @@
+import type { Vector3 } from 'three';
+import { type DimensionGraphics, angularDimensionGraphics, linearDimensionGraphics } from '../geometry/DimensionGeometry';
+import { type UnitSettings, formatLength } from '../units/Units';
+
+// User-placed dimension tied to wall ends. It has no points of its own:
+// whenever it is drawn the measured points are read from the walls, so it
+// follows the walls when they are moved or stretched.
+export type DimensionKind = 'aligned' | 'horizontal' | 'vertical' | 'angular';
+
+export const DIMENSION_KINDS: DimensionKind[] = ['aligned', 'horizontal', 'vertical', 'angular'];
+
+export type WallEnd = 'start' | 'end';
+
+export interface DimensionAnchor {
+    wallId: string;
+    end: WallEnd;
+}
+
+export interface Dimension {
+    type: 'dimension';
+    id: string;
+    levelId: string;
+    kind: DimensionKind;
+    // Linear kinds: the wall ends measured, in order; more than two make a
+    // chained string. Angular: one end of each of the two walls, on the
+    // side of their corner the angle is measured on.
+    anchors: DimensionAnchor[];
+    // Linear kinds: distance of the dimension line from the first point,
+    // positive to the left of the measuring direction. Angular: arc radius.
+    offset: number;
+    selected?: boolean;
+}
+
+interface DimensionWall {
+    id: string;
+    start: Vector3;
+    end: Vector3;
+}
+
+// Plan point of an anchor, or null if its wall is gone
+export function anchorPoint(anchor: DimensionAnchor, walls: DimensionWall[]): Vector3 | null {
+    const wall = walls.find(w => w.id === anchor.wallId);
+    if (!wall) return null;
+    return anchor.end === 'start' ? wall.start : wall.end;
+}
+
+// Lines and texts of a dimension at the walls' current positions, or null
+// if it can't be drawn, e.g. an angle between walls that became parallel
+export function dimensionGraphics(dimension: Dimension, walls: DimensionWall[]): DimensionGraphics | null {
+    const points = dimension.anchors.map(anchor => anchorPoint(anchor, walls));
+    if (points.some(point => point === null)) return null;
+    if (dimension.kind !== 'angular') {
+        return linearDimensionGraphics(points as Vector3[], dimension.kind, dimension.offset);
+    }
+    const [a, b] = dimension.anchors.map((anchor, i) => ({
+        ...walls.find(wall => wall.id === anchor.wallId)!,
+        point: points[i]!
+    }));
+    return angularDimensionGraphics(a, b, dimension.offset);
+}
+
+// Text of a measured value: a length in the project units or an angle in degrees
+export function formatDimensionValue(kind: DimensionKind, value: number, units: UnitSettings): string {
+    if (kind === 'angular') {
+        return `${(value * 180 / Math.PI).toFixed(1)}°`;
+    }
+    return formatLength(value, units);
+}
+
+// Problems with a dimension's values, empty when they are valid
+export function validateDimension(dimension: Pick<Dimension, 'kind' | 'anchors' | 'offset'>): string[] {
+    const errors: string[] = [];
+    const { kind, anchors, offset } = dimension;
+    if (!DIMENSION_KINDS.includes(kind)) {
+        errors.push(`kind must be one of ${DIMENSION_KINDS.join(', ')}`);
+    }
+    if (!Array.isArray(anchors) || !anchors.every(anchor =>
+        typeof anchor?.wallId === 'string' && (anchor.end === 'start' || anchor.end === 'end'))) {
+        errors.push('anchors must be wall ends');
+    } else if (kind === 'angular') {
+        if (anchors.length !== 2 || anchors[0].wallId === anchors[1].wallId) {
+            errors.push('anchors of an angular dimension must be ends of two different walls');
+        }
+    } else if (anchors.length < 2) {
+        errors.push('anchors of a linear dimension must be at least two wall ends');
+    }
+    if (!Number.isFinite(offset)) {
+        errors.push('offset must be a finite number');
+    } else if (kind === 'angular' && offset <= 0) {
+        errors.push('offset of an angular dimension is its arc radius and must be positive');
+    }
+    return errors;
+}
@@ -0,0 +1,66 @@
+// Named group of elements that can be hidden, locked against selection and
+// drawn in its own colour and pen width. Walls and openings are assigned to
+// a layer each; the other content of the views sits on built-in layers.
+export interface Layer {
+    type: 'layer';
+    id: string;
+    name: string;
+    visible: boolean;
+    locked: boolean;            // elements can't be picked, selected or grip-edited
+    color: string | null;       // '#rrggbb' drawn instead of the default colours
+    lineWeight: number | null;  // pen width in mm for plotted output
+}
+
+export const WALLS_LAYER_ID = 'layer_walls';
+export const DIMENSIONS_LAYER_ID = 'layer_dimensions';
+export const ROOMS_LAYER_ID = 'layer_rooms';
+export const UNDERLAY_LAYER_ID = 'layer_underlay';
+export const GRID_LAYER_ID = 'layer_grid';
+
+// Layers every model has. They can be restyled but not deleted.
+export const BUILT_IN_LAYER_IDS = [WALLS_LAYER_ID, DIMENSIONS_LAYER_ID, ROOMS_LAYER_ID, UNDERLAY_LAYER_ID, GRID_LAYER_ID];
+
+const BUILT_IN_LAYER_NAMES: Record<string, string> = {
+    [WALLS_LAYER_ID]: 'Walls',
+    [DIMENSIONS_LAYER_ID]: 'Dimensions',
+    [ROOMS_LAYER_ID]: 'Rooms',
+    [UNDERLAY_LAYER_ID]: 'Underlay',
+    [GRID_LAYER_ID]: 'Grid'
+};
+
+// Standard pen widths offered for layers, in mm
+export const LINE_WEIGHTS = [0.13, 0.18, 0.25, 0.35, 0.5, 0.7, 1];
+
+export function createDefaultLayers(): Layer[] {
+    return BUILT_IN_LAYER_IDS.map(id => ({
+        type: 'layer',
+        id,
+        name: BUILT_IN_LAYER_NAMES[id],
+        visible: true,
+        locked: false,
+        color: null,
+        lineWeight: null
+    }));
+}
+
+// Problems with a set of layer values, empty when they are valid
+export function validateLayer(layer: Partial<Omit<Layer, 'type' | 'id'>>): string[] {
+    const errors: string[] = [];
+    const { name, visible, locked, color, lineWeight } = layer;
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+        errors.push('name must not be empty');
+    }
+    if (visible !== undefined && typeof visible !== 'boolean') {
+        errors.push('visible must be true or false');
+    }
+    if (locked !== undefined && typeof locked !== 'boolean') {
+        errors.push('locked must be true or false');
+    }
+    if (color !== undefined && color !== null && !/^#[0-9a-f]{6}$/i.test(color)) {
+        errors.push('color must be a #rrggbb colour or null');
+    }
+    if (lineWeight !== undefined && lineWeight !== null && !(Number.isFinite(lineWeight) && lineWeight > 0)) {
+        errors.push('lineWeight must be a positive number or null');
+    }
+    return errors;
+}
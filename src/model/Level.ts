@@ -0,0 +1,37 @@
+// Storey of the building. Every wall belongs to one level and stands on
+// its elevation; the wall's baseOffset is measured from there.
+export interface Level {
+    type: 'level';
+    id: string;
+    name: string;
+    elevation: number; // floor level above the project origin, in metres
+}
+
+export const DEFAULT_LEVEL: Level = { type: 'level', id: 'level_0', name: 'Ground floor', elevation: 0 };
+
+// Storey height assumed when a level is added above the top one
+export const DEFAULT_LEVEL_HEIGHT = 3;
+
+// Problems with a set of level values, empty when they are valid
+export function validateLevel(level: Partial<Pick<Level, 'name' | 'elevation'>>): string[] {
+    const errors: string[] = [];
+    if (level.name !== undefined && level.name.trim() === '') {
+        errors.push('name must not be empty');
+    }
+    if (level.elevation !== undefined && !Number.isFinite(level.elevation)) {
+        errors.push('elevation must be a finite number');
+    }
+    return errors;
+}
+
+// Levels from the lowest to the highest
+export function sortLevels(levels: Level[]): Level[] {
+    return [...levels].sort((a, b) => a.elevation - b.elevation);
+}
+
+// The next level down from the given one, or null for the lowest
+export function levelBelow(levels: Level[], id: string): Level | null {
+    const sorted = sortLevels(levels);
+    const index = sorted.findIndex(level => level.id === id);
+    return index > 0 ? sorted[index - 1] : null;
+}
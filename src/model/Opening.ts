@@ -0,0 +1,53 @@
+// Door or window hosted in a wall
+export type OpeningKind = 'door' | 'window';
+
+export const OPENING_KINDS: OpeningKind[] = ['door', 'window'];
+
+// Size of an opening, in metres
+export interface OpeningProperties {
+    width: number;
+    height: number;
+    sillHeight: number; // bottom of the opening above the wall base
+}
+
+export interface Opening extends OpeningProperties {
+    type: 'opening';
+    kind: OpeningKind;
+    id: string;
+    hostId: string;   // id of the wall the opening is cut into
+    layerId: string;
+    offset: number;   // distance from the host's start point to the opening centre
+    selected?: boolean;
+}
+
+export const DEFAULT_OPENING_PROPERTIES: Record<OpeningKind, OpeningProperties> = {
+    door: { width: 0.9, height: 2.1, sillHeight: 0 },
+    window: { width: 1.2, height: 1.2, sillHeight: 0.9 }
+};
+
+// Start and end of the opening along its host, measured from the host's
+// start point. The opening is kept inside the wall if the wall got shorter.
+export function openingSpan(opening: Opening, hostLength: number): { from: number, to: number } {
+    const width = Math.min(opening.width, hostLength);
+    const center = Math.min(Math.max(opening.offset, width / 2), hostLength - width / 2);
+    return { from: center - width / 2, to: center + width / 2 };
+}
+
+// Problems with a set of property values, empty when they are valid
+export function validateOpeningProperties(properties: Partial<OpeningProperties & { kind: OpeningKind }>): string[] {
+    const errors: string[] = [];
+    const { width, height, sillHeight, kind } = properties;
+    if (width !== undefined && !(Number.isFinite(width) && width > 0)) {
+        errors.push('width must be a positive number');
+    }
+    if (height !== undefined && !(Number.isFinite(height) && height > 0)) {
+        errors.push('height must be a positive number');
+    }
+    if (sillHeight !== undefined && !(Number.isFinite(sillHeight) && sillHeight >= 0)) {
+        errors.push('sillHeight must be a non-negative number');
+    }
+    if (kind !== undefined && !OPENING_KINDS.includes(kind)) {
+        errors.push(`kind must be one of ${OPENING_KINDS.join(', ')}`);
+    }
+    return errors;
+}
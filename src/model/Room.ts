@@ -0,0 +1,11 @@
+import type { Vector3 } from 'three';
+
+// Rooms are detected from the walls and not stored. What the user adds to a
+// room is kept on a tag, which belongs to the room it lies inside.
+export interface RoomTag {
+    type: 'room';
+    id: string;
+    name: string;
+    levelId: string;   // level whose walls enclose the room
+    position: Vector3; // plan point inside the room, where the label is shown
+}
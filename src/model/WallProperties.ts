@@ -0,0 +1,50 @@
+// Side of the drawn line the wall body sits on
+export type WallJustification = 'left' | 'center' | 'right';
+
+export const WALL_JUSTIFICATIONS: WallJustification[] = ['left', 'center', 'right'];
+
+// Physical properties of a wall, in metres
+export interface WallProperties {
+    thickness: number;
+    height: number;
+    baseOffset: number; // elevation of the wall base above its level
+    justification: WallJustification;
+}
+
+export const DEFAULT_WALL_PROPERTIES: WallProperties = {
+    thickness: 0.2,
+    height: 3,
+    baseOffset: 0,
+    justification: 'center'
+};
+
+// Distance from the drawn line to the wall's left and right faces
+export function wallFaceOffsets(properties: WallProperties): { left: number, right: number } {
+    switch (properties.justification) {
+        case 'left':
+            return { left: properties.thickness, right: 0 };
+        case 'right':
+            return { left: 0, right: properties.thickness };
+        default:
+            return { left: properties.thickness / 2, right: properties.thickness / 2 };
+    }
+}
+
+// Problems with a set of property values, empty when they are valid
+export function validateWallProperties(properties: Partial<WallProperties>): string[] {
+    const errors: string[] = [];
+    const { thickness, height, baseOffset, justification } = properties;
+    if (thickness !== undefined && !(Number.isFinite(thickness) && thickness > 0)) {
+        errors.push('thickness must be a positive number');
+    }
+    if (height !== undefined && !(Number.isFinite(height) && height > 0)) {
+        errors.push('height must be a positive number');
+    }
+    if (baseOffset !== undefined && !Number.isFinite(baseOffset)) {
+        errors.push('baseOffset must be a finite number');
+    }
+    if (justification !== undefined && !WALL_JUSTIFICATIONS.includes(justification)) {
+        errors.push(`justification must be one of ${WALL_JUSTIFICATIONS.join(', ')}`);
+    }
+    return errors;
+}
@@ -0,0 +1,32 @@
+import { Box2, Vector2, Vector3 } from 'three';
+import type { Wall } from '../Viewer';
+import { segmentIntersection } from '../geometry/Segment2D';
+
+// CAD convention: dragging left-to-right is a window selection (only walls
+// fully inside), right-to-left is a crossing selection (anything touching)
+export type BoxSelectionMode = 'window' | 'crossing';
+
+export function boxSelectionMode(startX: number, endX: number): BoxSelectionMode {
+    return endX >= startX ? 'window' : 'crossing';
+}
+
+function segmentTouchesBox(a: Vector3, b: Vector3, box: Box2): boolean {
+    if (box.containsPoint(new Vector2(a.x, a.y)) || box.containsPoint(new Vector2(b.x, b.y))) {
+        return true;
+    }
+    const corners = [
+        new Vector3(box.min.x, box.min.y, 0),
+        new Vector3(box.max.x, box.min.y, 0),
+        new Vector3(box.max.x, box.max.y, 0),
+        new Vector3(box.min.x, box.max.y, 0)
+    ];
+    return corners.some((corner, i) => segmentIntersection(a, b, corner, corners[(i + 1) % 4]) !== null);
+}
+
+// Walls picked by a selection box given in plan coordinates
+export function wallsInBox(walls: Wall[], box: Box2, mode: BoxSelectionMode): Wall[] {
+    return walls.filter(wall => mode === 'window'
+        ? box.containsPoint(new Vector2(wall.start.x, wall.start.y)) && box.containsPoint(new Vector2(wall.end.x, wall.end.y))
+        : segmentTouchesBox(wall.start, wall.end, box)
+    );
+}
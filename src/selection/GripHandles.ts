@@ -0,0 +1,78 @@
+import { Group, Mesh, MeshBasicMaterial, PlaneGeometry, Vector3 } from 'three';
+import type { Wall } from '../Viewer';
+
+export type GripKind = 'start' | 'end' | 'mid';
+
+export interface Grip {
+    wallId: string;
+    kind: GripKind;
+    point: Vector3;
+}
+
+const GRIP_SIZE_PX = 8;
+
+// Grips at the start, end and midpoint of each wall
+export function gripsForWalls(walls: Wall[]): Grip[] {
+    return walls.flatMap(wall => [
+        { wallId: wall.id, kind: 'start' as GripKind, point: wall.start.clone() },
+        { wallId: wall.id, kind: 'end' as GripKind, point: wall.end.clone() },
+        {
+            wallId: wall.id,
+            kind: 'mid' as GripKind,
+            point: new Vector3().addVectors(wall.start, wall.end).multiplyScalar(0.5)
+        }
+    ]);
+}
+
+// Grip closest to point within tolerance (world units), or null
+export function findGrip(grips: Grip[], point: Vector3, tolerance: number): Grip | null {
+    let best: Grip | null = null;
+    let bestDistance = tolerance;
+    for (const grip of grips) {
+        const distance = Math.hypot(grip.point.x - point.x, grip.point.y - point.y);
+        if (distance <= bestDistance) {
+            best = grip;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+// Square grip handles drawn on top of the 2D scene at a constant screen size
+export class GripHandles {
+    public readonly object: Group = new Group();
+    private grips: Grip[] = [];
+    private geometry: PlaneGeometry = new PlaneGeometry(1, 1);
+    private endMaterial = new MeshBasicMaterial({ color: 0x0066ff, depthTest: false });
+    private midMaterial = new MeshBasicMaterial({ color: 0x00aaff, depthTest: false });
+
+    constructor() {
+        this.object.renderOrder = 11;
+    }
+
+    public getGrips(): Grip[] {
+        return this.grips;
+    }
+
+    public setGrips(grips: Grip[]) {
+        this.grips = grips;
+        this.object.clear();
+        grips.forEach(grip => {
+            const handle = new Mesh(this.geometry, grip.kind === 'mid' ? this.midMaterial : this.endMaterial);
+            handle.position.set(grip.point.x, grip.point.y, 0.06);
+            handle.renderOrder = 11;
+            this.object.add(handle);
+        });
+    }
+
+    // Keep handles the same size on screen at any zoom
+    public setScale(worldPerPixel: number) {
+        const size = GRIP_SIZE_PX * worldPerPixel;
+        this.object.children.forEach(handle => handle.scale.set(size, size, 1));
+    }
+
+    // Pick tolerance matching the drawn handle size
+    public hitTolerance(worldPerPixel: number): number {
+        return GRIP_SIZE_PX * worldPerPixel;
+    }
+}
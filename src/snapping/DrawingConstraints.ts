@@ -0,0 +1,127 @@
+import { Vector3 } from 'three';
+import type { SnapSegment } from './SnapEngine';
+
+export interface ConstraintSettings {
+    ortho: boolean;             // lock to 0/90/180/270 degrees
+    polar: boolean;             // track multiples of polarIncrementDeg
+    polarIncrementDeg: number;
+    polarToleranceDeg: number;  // how close to a polar angle the cursor must be
+    alignment: boolean;         // track the X/Y of existing endpoints
+    tolerancePx: number;        // alignment capture distance in screen pixels
+}
+
+// A dashed construction line shown while a constraint is active
+export interface Guide {
+    from: Vector3;
+    to: Vector3;
+}
+
+export interface ConstrainedPoint {
+    point: Vector3;
+    guides: Guide[];
+}
+
+export const POLAR_INCREMENTS_DEG = [15, 30, 45, 90];
+
+export function defaultConstraintSettings(): ConstraintSettings {
+    return {
+        ortho: false,
+        polar: true,
+        polarIncrementDeg: 45,
+        polarToleranceDeg: 4,
+        alignment: true,
+        tolerancePx: 8
+    };
+}
+
+// Direction of the constrained ray from start, or null if the cursor is free
+function constrainedDirection(start: Vector3, cursor: Vector3, settings: ConstraintSettings): Vector3 | null {
+    const angle = Math.atan2(cursor.y - start.y, cursor.x - start.x);
+    let step: number;
+    if (settings.ortho) {
+        step = Math.PI / 2;
+    } else if (settings.polar && settings.polarIncrementDeg > 0) {
+        step = settings.polarIncrementDeg * Math.PI / 180;
+    } else {
+        return null;
+    }
+
+    const snapped = Math.round(angle / step) * step;
+    if (!settings.ortho && Math.abs(angle - snapped) > settings.polarToleranceDeg * Math.PI / 180) {
+        return null;
+    }
+    return new Vector3(Math.cos(snapped), Math.sin(snapped), 0);
+}
+
+// Apply ortho, polar tracking and endpoint alignment to a cursor position.
+// start is the first point of the wall being drawn, or null before the first click.
+export function constrainPoint(
+    start: Vector3 | null, cursor: Vector3, walls: SnapSegment[],
+    worldPerPixel: number, settings: ConstraintSettings
+): ConstrainedPoint {
+    const tolerance = settings.tolerancePx * worldPerPixel;
+    const guides: Guide[] = [];
+    let point = new Vector3(cursor.x, cursor.y, 0);
+
+    const direction = start ? constrainedDirection(start, cursor, settings) : null;
+    if (start && direction) {
+        const distance = (cursor.x - start.x) * direction.x + (cursor.y - start.y) * direction.y;
+        point = new Vector3(start.x + direction.x * distance, start.y + direction.y * distance, 0);
+    }
+
+    if (settings.alignment) {
+        const endpoints = walls
+            .flatMap(wall => [wall.start, wall.end])
+            .filter(p => !start || p.x !== start.x || p.y !== start.y);
+
+        // Closest endpoint sharing (roughly) the cursor's X, and the one sharing its Y
+        let alignX: Vector3 | null = null;
+        let alignY: Vector3 | null = null;
+        for (const p of endpoints) {
+            if (Math.abs(p.x - cursor.x) <= tolerance &&
+                (!alignX || Math.abs(p.x - cursor.x) < Math.abs(alignX.x - cursor.x))) {
+                alignX = p;
+            }
+            if (Math.abs(p.y - cursor.y) <= tolerance &&
+                (!alignY || Math.abs(p.y - cursor.y) < Math.abs(alignY.y - cursor.y))) {
+                alignY = p;
+            }
+        }
+
+        if (start && direction) {
+            // Slide along the constrained ray to where it crosses an alignment line
+            let best: { point: Vector3, source: Vector3 } | null = null;
+            if (alignX && Math.abs(direction.x) > 1e-9) {
+                const t = (alignX.x - start.x) / direction.x;
+                best = { point: new Vector3(alignX.x, start.y + direction.y * t, 0), source: alignX };
+            }
+            if (alignY && Math.abs(direction.y) > 1e-9) {
+                const t = (alignY.y - start.y) / direction.y;
+                const candidate = new Vector3(start.x + direction.x * t, alignY.y, 0);
+                if (!best || candidate.distanceTo(cursor) < best.point.distanceTo(cursor)) {
+                    best = { point: candidate, source: alignY };
+                }
+            }
+            if (best && best.point.distanceTo(point) <= tolerance) {
+                point = best.point;
+                guides.push({ from: best.source.clone(), to: point.clone() });
+            }
+        } else {
+            if (alignX) point.x = alignX.x;
+            if (alignY) point.y = alignY.y;
+            if (alignX) guides.push({ from: alignX.clone(), to: point.clone() });
+            if (alignY) guides.push({ from: alignY.clone(), to: point.clone() });
+        }
+    }
+
+    if (start && direction) {
+        // Extend the tracking ray a little past the cursor so it reads as a guide
+        const reach = start.distanceTo(point) + 50 * worldPerPixel;
+        guides.push({
+            from: new Vector3(start.x, start.y, 0),
+            to: new Vector3(start.x + direction.x * reach, start.y + direction.y * reach, 0)
+        });
+    }
+
+    return { point, guides };
+}
@@ -0,0 +1,38 @@
+import { BufferGeometry, LineDashedMaterial, LineSegments, Vector3 } from 'three';
+import type { Guide } from './DrawingConstraints';
+
+// Dashed tracking/alignment lines in the 2D scene
+export class GuideLines {
+    public readonly object: LineSegments;
+    private material: LineDashedMaterial;
+
+    constructor() {
+        this.material = new LineDashedMaterial({ color: 0x00aa88, dashSize: 1, gapSize: 1, depthTest: false });
+        this.object = new LineSegments(new BufferGeometry(), this.material);
+        this.object.renderOrder = 10;
+        this.object.visible = false;
+    }
+
+    public update(guides: Guide[], worldPerPixel: number) {
+        if (guides.length === 0) {
+            this.hide();
+            return;
+        }
+        const points: Vector3[] = [];
+        guides.forEach(guide => {
+            points.push(new Vector3(guide.from.x, guide.from.y, 0.04), new Vector3(guide.to.x, guide.to.y, 0.04));
+        });
+        this.object.geometry.dispose();
+        this.object.geometry = new BufferGeometry().setFromPoints(points);
+        this.object.computeLineDistances();
+
+        // Keep dashes a constant size on screen
+        this.material.dashSize = 6 * worldPerPixel;
+        this.material.gapSize = 4 * worldPerPixel;
+        this.object.visible = true;
+    }
+
+    public hide() {
+        this.object.visible = false;
+    }
+}
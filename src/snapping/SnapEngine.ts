@@ -0,0 +1,89 @@
+import { Vector3 } from 'three';
+import type { Wall } from '../Viewer';
+import { closestPointOnSegment, distance2D, segmentIntersection } from '../geometry/Segment2D';
+
+// Anything with a start and end point can be snapped to: walls, underlay lines
+export type SnapSegment = Pick<Wall, 'start' | 'end'>;
+
+export type SnapType = 'endpoint' | 'midpoint' | 'intersection' | 'nearest' | 'grid';
+
+// Earlier entries win when several snaps are within tolerance
+export const SNAP_PRIORITY: SnapType[] = ['endpoint', 'intersection', 'midpoint', 'nearest', 'grid'];
+
+export interface SnapSettings {
+    enabled: Record<SnapType, boolean>;
+    tolerancePx: number; // snap radius in screen pixels
+    gridSize: number;    // grid spacing in world units
+}
+
+export interface SnapResult {
+    point: Vector3;
+    type: SnapType;
+}
+
+export function defaultSnapSettings(): SnapSettings {
+    return {
+        enabled: {
+            endpoint: true,
+            intersection: true,
+            midpoint: true,
+            nearest: true,
+            grid: false
+        },
+        tolerancePx: 10,
+        gridSize: 1
+    };
+}
+
+// Candidate snap points of one type for a cursor position
+function candidates(type: SnapType, cursor: Vector3, walls: SnapSegment[], settings: SnapSettings): Vector3[] {
+    switch (type) {
+        case 'endpoint':
+            return walls.flatMap(wall => [wall.start, wall.end]);
+        case 'midpoint':
+            return walls.map(wall => new Vector3().addVectors(wall.start, wall.end).multiplyScalar(0.5));
+        case 'nearest':
+            return walls.map(wall => closestPointOnSegment(cursor, wall.start, wall.end));
+        case 'intersection': {
+            const points: Vector3[] = [];
+            for (let i = 0; i < walls.length; i++) {
+                for (let j = i + 1; j < walls.length; j++) {
+                    const point = segmentIntersection(walls[i].start, walls[i].end, walls[j].start, walls[j].end);
+                    if (point) points.push(point);
+                }
+            }
+            return points;
+        }
+        case 'grid': {
+            const size = settings.gridSize;
+            return [new Vector3(Math.round(cursor.x / size) * size, Math.round(cursor.y / size) * size, 0)];
+        }
+    }
+}
+
+// Find the best snap for a cursor on the plan. worldPerPixel converts the
+// pixel tolerance into world units for the current zoom level.
+export function findSnap(
+    cursor: Vector3, walls: SnapSegment[], worldPerPixel: number, settings: SnapSettings
+): SnapResult | null {
+    const tolerance = settings.tolerancePx * worldPerPixel;
+
+    for (const type of SNAP_PRIORITY) {
+        if (!settings.enabled[type]) continue;
+
+        let best: Vector3 | null = null;
+        let bestDistance = tolerance;
+        for (const point of candidates(type, cursor, walls, settings)) {
+            const distance = distance2D(cursor, point);
+            if (distance <= bestDistance) {
+                best = point;
+                bestDistance = distance;
+            }
+        }
+
+        if (best) {
+            return { point: new Vector3(best.x, best.y, 0), type };
+        }
+    }
+    return null;
+}
@@ -0,0 +1,53 @@
+import { BufferGeometry, Group, LineBasicMaterial, LineSegments, Vector3 } from 'three';
+import type { SnapResult, SnapType } from './SnapEngine';
+
+// Outline of each marker as line segment pairs, in a unit box around the snap point
+const MARKER_SHAPES: Record<SnapType, number[][]> = {
+    // Square
+    endpoint: [[-1, -1], [1, -1], [1, -1], [1, 1], [1, 1], [-1, 1], [-1, 1], [-1, -1]],
+    // Triangle
+    midpoint: [[-1, -1], [1, -1], [1, -1], [0, 1], [0, 1], [-1, -1]],
+    // X
+    intersection: [[-1, -1], [1, 1], [-1, 1], [1, -1]],
+    // Hourglass
+    nearest: [[-1, 1], [1, 1], [1, 1], [-1, -1], [-1, -1], [1, -1], [1, -1], [-1, 1]],
+    // Plus
+    grid: [[-1, 0], [1, 0], [0, -1], [0, 1]]
+};
+
+const MARKER_SIZE_PX = 6;
+
+// Visual marker for the active snap in the 2D scene
+export class SnapMarker {
+    public readonly object: Group = new Group();
+    private shapes: Map<SnapType, LineSegments> = new Map();
+
+    constructor() {
+        const material = new LineBasicMaterial({ color: 0xff8800, depthTest: false });
+        (Object.keys(MARKER_SHAPES) as SnapType[]).forEach(type => {
+            const points = MARKER_SHAPES[type].map(([x, y]) => new Vector3(x, y, 0));
+            const shape = new LineSegments(new BufferGeometry().setFromPoints(points), material);
+            shape.visible = false;
+            this.shapes.set(type, shape);
+            this.object.add(shape);
+        });
+        this.object.renderOrder = 10; // Draw on top of walls
+        this.object.visible = false;
+    }
+
+    // Show the marker for a snap result, or hide it when there is none
+    public update(snap: SnapResult | null, worldPerPixel: number) {
+        if (!snap) {
+            this.object.visible = false;
+            return;
+        }
+        this.shapes.forEach((shape, type) => shape.visible = type === snap.type);
+        this.object.position.set(snap.point.x, snap.point.y, 0.05);
+        this.object.scale.setScalar(MARKER_SIZE_PX * worldPerPixel);
+        this.object.visible = true;
+    }
+
+    public hide() {
+        this.object.visible = false;
+    }
+}
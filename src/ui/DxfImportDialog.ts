@@ -0,0 +1,100 @@
+import { type DxfDocument, type DxfSegment, DXF_UNITS, segmentsInMetres } from '../io/DxfImport';
+
+// Convert lines to walls, or keep them as a locked underlay to trace over
+export type DxfImportMode = 'walls' | 'underlay';
+
+export interface DxfImportChoice {
+    mode: DxfImportMode;
+    segments: DxfSegment[]; // on the chosen layers, in metres
+}
+
+// Dialog shown after a DXF file is read: what was found and skipped, which
+// layers to import, the drawing units and how to import the lines
+export class DxfImportDialog {
+    private element: HTMLElement;
+
+    constructor(element: HTMLElement) {
+        this.element = element;
+        this.element.hidden = true;
+    }
+
+    // Resolves with the user's choice, or null if the dialog was cancelled
+    public open(document: DxfDocument, fileName: string): Promise<DxfImportChoice | null> {
+        this.element.innerHTML = '';
+
+        const title = window.document.createElement('h3');
+        title.textContent = `Import ${fileName}`;
+
+        const summary = window.document.createElement('p');
+        const skipped = [...document.skipped].map(([type, count]) => `${count} ${type}`).join(', ');
+        summary.textContent = `${document.segments.length} line segments on ${document.layers.length} layers.` +
+            (skipped ? ` Skipped: ${skipped}.` : '');
+
+        // Layer filter
+        const layerBox = window.document.createElement('fieldset');
+        const legend = window.document.createElement('legend');
+        legend.textContent = 'Layers';
+        layerBox.appendChild(legend);
+        const layerInputs = document.layers.map(layer => {
+            const label = window.document.createElement('label');
+            const input = window.document.createElement('input');
+            input.type = 'checkbox';
+            input.checked = true;
+            input.value = layer;
+            const count = document.segments.filter(segment => segment.layer === layer).length;
+            label.append(input, ` ${layer} (${count})`);
+            layerBox.appendChild(label);
+            return input;
+        });
+
+        // Units, preset from $INSUNITS when the file has them
+        const unitsLabel = window.document.createElement('label');
+        const unitsSelect = window.document.createElement('select');
+        Object.entries(DXF_UNITS).forEach(([code, unit]) => {
+            const option = window.document.createElement('option');
+            option.value = code;
+            option.textContent = unit.name;
+            unitsSelect.appendChild(option);
+        });
+        const detected = document.insUnits !== null && DXF_UNITS[document.insUnits] !== undefined;
+        unitsSelect.value = detected ? String(document.insUnits) : '6';
+        unitsLabel.append(detected ? 'Units (from file) ' : 'Units (not set in file) ', unitsSelect);
+
+        const modeBox = window.document.createElement('div');
+        const modeInputs = (['walls', 'underlay'] as DxfImportMode[]).map(mode => {
+            const label = window.document.createElement('label');
+            const input = window.document.createElement('input');
+            input.type = 'radio';
+            input.name = 'dxf-import-mode';
+            input.value = mode;
+            input.checked = mode === 'underlay';
+            label.append(input, mode === 'walls' ? ' Convert to walls' : ' Underlay to trace over');
+            modeBox.appendChild(label);
+            return input;
+        });
+
+        const buttons = window.document.createElement('div');
+        const importButton = window.document.createElement('button');
+        importButton.textContent = 'Import';
+        const cancelButton = window.document.createElement('button');
+        cancelButton.textContent = 'Cancel';
+        buttons.append(importButton, cancelButton);
+
+        this.element.append(title, summary, layerBox, unitsLabel, modeBox, buttons);
+        this.element.hidden = false;
+
+        return new Promise(resolve => {
+            const close = (choice: DxfImportChoice | null) => {
+                this.element.hidden = true;
+                resolve(choice);
+            };
+            cancelButton.addEventListener('click', () => close(null));
+            importButton.addEventListener('click', () => {
+                const layers = new Set(layerInputs.filter(input => input.checked).map(input => input.value));
+                const metresPerUnit = DXF_UNITS[Number(unitsSelect.value)].metres;
+                const mode = modeInputs.find(input => input.checked)!.value as DxfImportMode;
+                close({ mode, segments: segmentsInMetres(document, layers, metresPerUnit) });
+            });
+        });
+    }
+}
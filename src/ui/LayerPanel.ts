@@ -0,0 +1,148 @@
+import type { Viewer } from '../Viewer';
+import { type Layer, BUILT_IN_LAYER_IDS, LINE_WEIGHTS, WALLS_LAYER_ID } from '../model/Layer';
+
+// Side panel listing the layers. Clicking a wall layer makes new walls go
+// on it; each row shows or hides, locks and restyles its layer. The buttons
+// add and delete layers and move the selection to the current layer.
+export class LayerPanel {
+    private element: HTMLElement;
+    private viewer: Viewer;
+    private list: HTMLUListElement;
+
+    constructor(element: HTMLElement, viewer: Viewer) {
+        this.element = element;
+        this.viewer = viewer;
+
+        this.list = document.createElement('ul');
+        this.list.className = 'layer-list';
+
+        const actions = document.createElement('div');
+        actions.className = 'level-actions';
+        actions.append(
+            this.createButton('Add', () => this.addLayer()),
+            this.createButton('Rename', () => this.renameLayer()),
+            this.createButton('Delete', () => this.deleteLayer()),
+            this.createButton('Assign selection', () => this.assignSelection())
+        );
+
+        this.element.append(this.list, actions);
+        this.update();
+    }
+
+    // Runs an action, showing its error instead of throwing from the event handler
+    private run(action: () => void) {
+        try {
+            action();
+        } catch (error) {
+            alert((error as Error).message);
+        }
+        this.update();
+    }
+
+    private createButton(text: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.addEventListener('click', () => this.run(onClick));
+        return button;
+    }
+
+    private addLayer() {
+        const name = prompt('Layer name', `Layer ${this.viewer.getLayers().length - BUILT_IN_LAYER_IDS.length + 1}`);
+        if (name === null) return;
+        const layer = this.viewer.addLayer(name);
+        this.viewer.setCurrentLayer(layer.id);
+    }
+
+    private renameLayer() {
+        const layer = this.viewer.getCurrentLayer();
+        const name = prompt('Layer name', layer.name);
+        if (name === null) return;
+        this.viewer.updateLayer(layer.id, { name });
+    }
+
+    private deleteLayer() {
+        const layer = this.viewer.getCurrentLayer();
+        if (!confirm(`Delete "${layer.name}"? Its walls and openings move to the Walls layer.`)) return;
+        this.viewer.removeLayer(layer.id);
+    }
+
+    private assignSelection() {
+        const walls = this.viewer.getSelectedWalls();
+        const openings = this.viewer.getSelectedOpenings();
+        if (walls.length === 0 && openings.length === 0) {
+            throw new Error('Select the walls or openings to assign first');
+        }
+        this.viewer.assignLayer(
+            walls.map(wall => wall.id),
+            openings.map(opening => opening.id),
+            this.viewer.getCurrentLayer().id
+        );
+    }
+
+    private createRow(layer: Layer, current: boolean): HTMLLIElement {
+        const item = document.createElement('li');
+        item.dataset.layerId = layer.id;
+        if (current) {
+            item.classList.add('selected');
+        }
+
+        // Only wall layers can take new walls
+        const name = document.createElement('span');
+        name.className = 'layer-name';
+        name.textContent = layer.name;
+        if (layer.id === WALLS_LAYER_ID || !BUILT_IN_LAYER_IDS.includes(layer.id)) {
+            name.classList.add('pickable');
+            name.addEventListener('click', () => this.run(() => this.viewer.setCurrentLayer(layer.id)));
+        }
+
+        const visible = this.createCheckbox('Visible', layer.visible,
+            checked => this.viewer.updateLayer(layer.id, { visible: checked }));
+        const locked = this.createCheckbox('Locked', layer.locked,
+            checked => this.viewer.updateLayer(layer.id, { locked: checked }));
+
+        const color = document.createElement('input');
+        color.type = 'color';
+        color.title = 'Colour';
+        color.value = layer.color ?? '#000000';
+        color.classList.toggle('unset', layer.color === null);
+        color.addEventListener('change', () => this.run(() => this.viewer.updateLayer(layer.id, { color: color.value })));
+
+        const resetColor = document.createElement('button');
+        resetColor.textContent = '×';
+        resetColor.title = 'Default colours';
+        resetColor.disabled = layer.color === null;
+        resetColor.addEventListener('click', () => this.run(() => this.viewer.updateLayer(layer.id, { color: null })));
+
+        const lineWeight = document.createElement('select');
+        lineWeight.title = 'Line weight';
+        [null, ...LINE_WEIGHTS].forEach(weight => {
+            const option = document.createElement('option');
+            option.value = weight === null ? '' : String(weight);
+            option.textContent = weight === null ? 'Default' : `${weight} mm`;
+            lineWeight.appendChild(option);
+        });
+        lineWeight.value = layer.lineWeight === null ? '' : String(layer.lineWeight);
+        lineWeight.addEventListener('change', () => this.run(() => this.viewer.updateLayer(layer.id, {
+            lineWeight: lineWeight.value === '' ? null : Number(lineWeight.value)
+        })));
+
+        item.append(name, visible, locked, color, resetColor, lineWeight);
+        return item;
+    }
+
+    private createCheckbox(title: string, checked: boolean, onChange: (checked: boolean) => void): HTMLInputElement {
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.title = title;
+        checkbox.checked = checked;
+        checkbox.addEventListener('change', () => this.run(() => onChange(checkbox.checked)));
+        return checkbox;
+    }
+
+    // Redraw the list, e.g. after an edit or undo
+    public update() {
+        const current = this.viewer.getCurrentLayer();
+        this.list.innerHTML = '';
+        this.viewer.getLayers().forEach(layer => this.list.appendChild(this.createRow(layer, layer.id === current.id)));
+    }
+}
@@ -0,0 +1,130 @@
+import type { Viewer } from '../Viewer';
+import { type UnitSettings, formatLength, parseLength } from '../units/Units';
+
+function formatElevation(elevation: number, units: UnitSettings): string {
+    return `${elevation >= 0 ? '+' : ''}${formatLength(elevation, units)}`;
+}
+
+// Side panel listing the levels, highest first. Clicking a level shows it
+// in the plan; the buttons add, edit and delete levels and copy the
+// selected walls to another level.
+export class LevelPanel {
+    private element: HTMLElement;
+    private viewer: Viewer;
+    private list: HTMLUListElement;
+    private copyTarget: HTMLSelectElement;
+
+    constructor(element: HTMLElement, viewer: Viewer) {
+        this.element = element;
+        this.viewer = viewer;
+
+        this.list = document.createElement('ul');
+        this.list.className = 'level-list';
+        this.list.addEventListener('click', (e) => {
+            const target = (e.target as HTMLElement).closest('li');
+            if (target?.dataset.levelId) {
+                this.viewer.setActiveLevel(target.dataset.levelId);
+                this.update();
+            }
+        });
+
+        const actions = document.createElement('div');
+        actions.className = 'level-actions';
+        actions.append(
+            this.createButton('Add', () => this.addLevel()),
+            this.createButton('Rename', () => this.renameLevel()),
+            this.createButton('Elevation', () => this.editElevation()),
+            this.createButton('Delete', () => this.deleteLevel())
+        );
+
+        const copy = document.createElement('div');
+        copy.className = 'level-actions';
+        this.copyTarget = document.createElement('select');
+        copy.append(this.createButton('Copy selection to', () => this.copySelection()), this.copyTarget);
+
+        this.element.append(this.list, actions, copy);
+        this.update();
+    }
+
+    private createButton(text: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.addEventListener('click', () => {
+            try {
+                onClick();
+            } catch (error) {
+                alert((error as Error).message);
+            }
+            this.update();
+        });
+        return button;
+    }
+
+    private addLevel() {
+        const name = prompt('Level name', `Level ${this.viewer.getLevels().length}`);
+        if (name === null) return;
+        const level = this.viewer.addLevel(name);
+        this.viewer.setActiveLevel(level.id);
+    }
+
+    private renameLevel() {
+        const level = this.viewer.getActiveLevel();
+        const name = prompt('Level name', level.name);
+        if (name === null) return;
+        this.viewer.updateLevel(level.id, { name });
+    }
+
+    private editElevation() {
+        const level = this.viewer.getActiveLevel();
+        const units = this.viewer.getUnits();
+        const value = prompt('Elevation', formatLength(level.elevation, units));
+        if (value === null) return;
+        this.viewer.updateLevel(level.id, { elevation: parseLength(value, units) });
+    }
+
+    private deleteLevel() {
+        const level = this.viewer.getActiveLevel();
+        const wallCount = this.viewer.getWalls().length;
+        if (!confirm(`Delete "${level.name}" and its ${wallCount} walls? This can be undone.`)) return;
+        this.viewer.removeLevel(level.id);
+    }
+
+    private copySelection() {
+        const walls = this.viewer.getSelectedWalls();
+        if (walls.length === 0) {
+            throw new Error('Select the walls to copy first');
+        }
+        this.viewer.copyWallsToLevel(walls.map(wall => wall.id), this.copyTarget.value);
+    }
+
+    // Redraw the list, e.g. after an edit or undo
+    public update() {
+        const levels = this.viewer.getLevels();
+        const active = this.viewer.getActiveLevel();
+        const units = this.viewer.getUnits();
+
+        this.list.innerHTML = '';
+        [...levels].reverse().forEach(level => {
+            const item = document.createElement('li');
+            item.textContent = `${level.name} (${formatElevation(level.elevation, units)})`;
+            item.dataset.levelId = level.id;
+            if (level.id === active.id) {
+                item.classList.add('selected');
+            }
+            this.list.appendChild(item);
+        });
+
+        const previous = this.copyTarget.value;
+        this.copyTarget.innerHTML = '';
+        levels.filter(level => level.id !== active.id).forEach(level => {
+            const option = document.createElement('option');
+            option.value = level.id;
+            option.textContent = level.name;
+            this.copyTarget.appendChild(option);
+        });
+        if (levels.some(level => level.id === previous && level.id !== active.id)) {
+            this.copyTarget.value = previous;
+        }
+        this.copyTarget.disabled = levels.length < 2;
+    }
+}
@@ -0,0 +1,187 @@
+import { Vector3 } from 'three';
+import type { Wall, WallChanges } from '../Viewer';
+import { WALL_JUSTIFICATIONS } from '../model/WallProperties';
+import { type UnitSettings, DEFAULT_UNIT_SETTINGS, formatLength, parseLength } from '../units/Units';
+
+type FieldName = 'id' | 'startX' | 'startY' | 'endX' | 'endY' | 'length' | 'angle' |
+    'thickness' | 'height' | 'baseOffset' | 'justification';
+
+interface FieldDefinition {
+    name: FieldName;
+    label: string;
+    length?: boolean; // shown and typed in the project units
+    read: (wall: Wall, units: UnitSettings) => string;
+    // Turn the typed value into wall changes, or throw with a message
+    write: (value: string, wall: Wall, units: UnitSettings) => WallChanges;
+}
+
+function formatNumber(value: number): string {
+    return String(Number(value.toFixed(4)));
+}
+
+function parseNumber(value: string, label: string): number {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new Error(`${label} must be a number`);
+    }
+    return number;
+}
+
+// Lengths are shown finer than the project precision, so that small
+// offsets stay visible. Metric values drop trailing zeros.
+function formatLengthField(value: number, units: UnitSettings): string {
+    if (units.unit === 'ft-in') {
+        return formatLength(value, { unit: 'ft-in', precision: 64 });
+    }
+    return formatLength(value, { ...units, precision: 4 }).replace(/\.?0+(?=[a-z]+$)/, '');
+}
+
+const FIELDS: FieldDefinition[] = [
+    {
+        name: 'id', label: 'Id',
+        read: wall => wall.id,
+        write: value => ({ id: value.trim() })
+    },
+    {
+        name: 'startX', label: 'Start X', length: true,
+        read: (wall, units) => formatLengthField(wall.start.x, units),
+        write: (value, wall, units) => ({ start: new Vector3(parseLength(value, units), wall.start.y, wall.start.z) })
+    },
+    {
+        name: 'startY', label: 'Start Y', length: true,
+        read: (wall, units) => formatLengthField(wall.start.y, units),
+        write: (value, wall, units) => ({ start: new Vector3(wall.start.x, parseLength(value, units), wall.start.z) })
+    },
+    {
+        name: 'endX', label: 'End X', length: true,
+        read: (wall, units) => formatLengthField(wall.end.x, units),
+        write: (value, wall, units) => ({ end: new Vector3(parseLength(value, units), wall.end.y, wall.end.z) })
+    },
+    {
+        name: 'endY', label: 'End Y', length: true,
+        read: (wall, units) => formatLengthField(wall.end.y, units),
+        write: (value, wall, units) => ({ end: new Vector3(wall.end.x, parseLength(value, units), wall.end.z) })
+    },
+    {
+        name: 'length', label: 'Length', length: true,
+        read: (wall, units) => formatLengthField(wall.length, units),
+        write: (value, _wall, units) => ({ length: parseLength(value, units) })
+    },
+    {
+        name: 'angle', label: 'Angle (°)',
+        read: wall => formatNumber(wall.angle * 180 / Math.PI),
+        write: value => ({ angle: parseNumber(value, 'Angle') * Math.PI / 180 })
+    },
+    {
+        name: 'thickness', label: 'Thickness', length: true,
+        read: (wall, units) => formatLengthField(wall.thickness, units),
+        write: (value, _wall, units) => ({ thickness: parseLength(value, units) })
+    },
+    {
+        name: 'height', label: 'Height', length: true,
+        read: (wall, units) => formatLengthField(wall.height, units),
+        write: (value, _wall, units) => ({ height: parseLength(value, units) })
+    },
+    {
+        name: 'baseOffset', label: 'Base offset', length: true,
+        read: (wall, units) => formatLengthField(wall.baseOffset, units),
+        write: (value, _wall, units) => ({ baseOffset: parseLength(value, units) })
+    },
+    {
+        name: 'justification', label: 'Justification',
+        read: wall => wall.justification,
+        write: value => ({ justification: value as Wall['justification'] })
+    }
+];
+
+// Side panel listing the selected wall's geometry and properties as editable
+// fields. Edits are handed to onEdit, which applies them to the model.
+export class PropertiesPanel {
+    private element: HTMLElement;
+    private emptyMessage: HTMLParagraphElement;
+    private form: HTMLFormElement;
+    private inputs: Map<FieldName, HTMLInputElement | HTMLSelectElement> = new Map();
+    private wall: Wall | null = null;
+    private units: UnitSettings = DEFAULT_UNIT_SETTINGS;
+    private onEdit: (wallId: string, changes: WallChanges) => void;
+
+    constructor(element: HTMLElement, onEdit: (wallId: string, changes: WallChanges) => void) {
+        this.element = element;
+        this.onEdit = onEdit;
+
+        this.emptyMessage = document.createElement('p');
+        this.emptyMessage.className = 'properties-empty';
+
+        this.form = document.createElement('form');
+        this.form.className = 'properties-form';
+        this.form.addEventListener('submit', (e) => e.preventDefault());
+        FIELDS.forEach(field => this.form.appendChild(this.createField(field)));
+
+        this.element.appendChild(this.emptyMessage);
+        this.element.appendChild(this.form);
+        this.show([]);
+    }
+
+    private createField(field: FieldDefinition): HTMLLabelElement {
+        const label = document.createElement('label');
+        const text = document.createElement('span');
+        text.textContent = field.label;
+        label.appendChild(text);
+
+        let input: HTMLInputElement | HTMLSelectElement;
+        if (field.name === 'justification') {
+            input = document.createElement('select');
+            WALL_JUSTIFICATIONS.forEach(justification => {
+                const option = document.createElement('option');
+                option.value = justification;
+                option.textContent = justification;
+                input.appendChild(option);
+            });
+        } else {
+            input = document.createElement('input');
+            // Lengths are text so that units like 12'6" can be typed
+            input.type = field.name === 'id' || field.length ? 'text' : 'number';
+            if (input.type === 'number') input.step = 'any';
+        }
+        input.name = field.name;
+        input.addEventListener('change', () => this.applyField(field, input));
+        label.appendChild(input);
+        this.inputs.set(field.name, input);
+        return label;
+    }
+
+    private applyField(field: FieldDefinition, input: HTMLInputElement | HTMLSelectElement) {
+        if (!this.wall) return;
+        try {
+            this.onEdit(this.wall.id, field.write(input.value, this.wall, this.units));
+            input.classList.remove('invalid');
+            input.title = '';
+        } catch (error) {
+            input.classList.add('invalid');
+            input.title = (error as Error).message;
+        }
+    }
+
+    // Show the values of a single selected wall, otherwise a short message.
+    // The field being typed into is left alone.
+    public show(selection: Wall[], units: UnitSettings = this.units) {
+        const wall = selection.length === 1 ? selection[0] : null;
+        const changedWall = wall?.id !== this.wall?.id;
+        this.wall = wall;
+        this.units = units;
+        this.emptyMessage.hidden = wall !== null;
+        this.emptyMessage.textContent = selection.length === 0
+            ? 'No wall selected'
+            : `${selection.length} walls selected`;
+        this.form.hidden = wall === null;
+        if (!wall) return;
+
+        FIELDS.forEach(field => {
+            const input = this.inputs.get(field.name)!;
+            if (input === document.activeElement && !changedWall) return;
+            input.value = field.read(wall, units);
+            input.classList.remove('invalid');
+            input.title = '';
+        });
+    }
+}
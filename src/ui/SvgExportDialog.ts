@@ -0,0 +1,82 @@
+import type { PlanDrawing } from '../io/PlanDrawing';
+import { type PaperSize, type SvgExportOptions, PAPER_SIZES, PLAN_SCALES, fitScale } from '../io/SvgExport';
+
+// Dialog asking for the sheet size, scale and title of a plan export. The
+// scale follows the paper size to the best fit until the user picks one.
+export class SvgExportDialog {
+    private element: HTMLElement;
+
+    constructor(element: HTMLElement) {
+        this.element = element;
+        this.element.hidden = true;
+    }
+
+    // Resolves with the chosen options, or null if the dialog was cancelled
+    public open(drawing: PlanDrawing, defaultTitle: string): Promise<SvgExportOptions | null> {
+        this.element.innerHTML = '';
+
+        const title = document.createElement('h3');
+        title.textContent = 'Export plan';
+
+        const titleLabel = document.createElement('label');
+        const titleInput = document.createElement('input');
+        titleInput.type = 'text';
+        titleInput.value = defaultTitle;
+        titleLabel.append('Title ', titleInput);
+
+        const paperLabel = document.createElement('label');
+        const paperSelect = document.createElement('select');
+        (Object.keys(PAPER_SIZES) as PaperSize[]).forEach(paper => {
+            const option = document.createElement('option');
+            option.value = paper;
+            option.textContent = `${paper} landscape`;
+            paperSelect.appendChild(option);
+        });
+        paperSelect.value = 'A3';
+        paperLabel.append('Paper ', paperSelect);
+
+        const scaleLabel = document.createElement('label');
+        const scaleSelect = document.createElement('select');
+        PLAN_SCALES.forEach(scale => {
+            const option = document.createElement('option');
+            option.value = String(scale);
+            option.textContent = `1:${scale}`;
+            scaleSelect.appendChild(option);
+        });
+        scaleLabel.append('Scale ', scaleSelect);
+
+        let scaleChosen = false;
+        const fitToPaper = () => {
+            if (!scaleChosen) {
+                scaleSelect.value = String(fitScale(drawing, paperSelect.value as PaperSize));
+            }
+        };
+        fitToPaper();
+        paperSelect.addEventListener('change', fitToPaper);
+        scaleSelect.addEventListener('change', () => scaleChosen = true);
+
+        const buttons = document.createElement('div');
+        const exportButton = document.createElement('button');
+        exportButton.textContent = 'Export SVG';
+        const cancelButton = document.createElement('button');
+        cancelButton.textContent = 'Cancel';
+        buttons.append(exportButton, cancelButton);
+
+        this.element.append(title, titleLabel, paperLabel, scaleLabel, buttons);
+        this.element.hidden = false;
+
+        return new Promise(resolve => {
+            const close = (options: SvgExportOptions | null) => {
+                this.element.hidden = true;
+                resolve(options);
+            };
+            cancelButton.addEventListener('click', () => close(null));
+            exportButton.addEventListener('click', () => close({
+                paper: paperSelect.value as PaperSize,
+                scale: Number(scaleSelect.value),
+                title: titleInput.value,
+                date: new Date().toLocaleDateString()
+            }));
+        });
+    }
+}
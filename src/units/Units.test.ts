@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+    type UnitSettings, UnitParseError, formatArea, formatLength, parseLength, validateUnitSettings
+} from './Units';
+
+const METRES: UnitSettings = { unit: 'm', precision: 2 };
+const MILLIMETRES: UnitSettings = { unit: 'mm', precision: 0 };
+const CENTIMETRES: UnitSettings = { unit: 'cm', precision: 1 };
+const FEET_INCHES: UnitSettings = { unit: 'ft-in', precision: 16 };
+
+const INCH = 0.0254;
+const FOOT = 0.3048;
+
+describe('parseLength', () => {
+    it.each<[string, UnitSettings, number]>([
+        // Metric, with or without a unit
+        ['3.75', METRES, 3.75],
+        ['3750mm', METRES, 3.75],
+        ['375cm', METRES, 3.75],
+        ['3.75m', MILLIMETRES, 3.75],
+        ['3750', MILLIMETRES, 3.75],
+        ['375', CENTIMETRES, 3.75],
+        ['.5', METRES, 0.5],
+        ['  2 m ', METRES, 2],
+        ['3750 MM', METRES, 3.75],
+        // Feet and inches
+        ['12\'6"', METRES, 12 * FOOT + 6 * INCH],
+        ['12\'-6 1/2"', METRES, 12 * FOOT + 6.5 * INCH],
+        ['12\' 6"', METRES, 12 * FOOT + 6 * INCH],
+        ['12ft 6in', METRES, 12 * FOOT + 6 * INCH],
+        ['12\'6', METRES, 12 * FOOT + 6 * INCH],
+        ['6 1/2"', METRES, 6.5 * INCH],
+        ['1-1/2"', METRES, 1.5 * INCH],
+        ['3/4"', METRES, 0.75 * INCH],
+        ['18in', METRES, 18 * INCH],
+        ['4\'', METRES, 4 * FOOT],
+        ['2 feet', METRES, 2 * FOOT],
+        // A bare number is in inches with feet-inches as the project unit
+        ['18', FEET_INCHES, 18 * INCH],
+        ['6 1/2', FEET_INCHES, 6.5 * INCH],
+        ['1.2m', FEET_INCHES, 1.2],
+        // Signs
+        ['-2.5', METRES, -2.5],
+        ['+2.5', METRES, 2.5],
+        ['-12\'-6"', METRES, -(12 * FOOT + 6 * INCH)],
+        ['- 300mm', METRES, -0.3]
+    ])('reads "%s" in %o', (text, settings, metres) => {
+        expect(parseLength(text, settings)).toBeCloseTo(metres, 9);
+    });
+
+    it.each(['', 'abc', '3.75 km', '12\'6"7', '1/0"', '--2', '2m3', '6 1/2 1/2"'])('rejects "%s"', text => {
+        expect(() => parseLength(text, METRES)).toThrow(UnitParseError);
+    });
+
+    it('names the text it could not read', () => {
+        expect(() => parseLength(' abc ', METRES)).toThrow('Invalid length "abc"');
+    });
+
+    it('uses metres when no settings are given', () => {
+        expect(parseLength('1.5')).toBeCloseTo(1.5);
+    });
+});
+
+describe('formatLength', () => {
+    it.each<[number, UnitSettings, string]>([
+        [4.25, METRES, '4.25m'],
+        [4.256, METRES, '4.26m'],
+        [3.75, MILLIMETRES, '3750mm'],
+        [3.75, CENTIMETRES, '375.0cm'],
+        [1.23456, { unit: 'm', precision: 4 }, '1.2346m'],
+        [2, { unit: 'm', precision: 0 }, '2m'],
+        [-1.5, METRES, '-1.50m'],
+        // No negative zero
+        [-0.001, METRES, '0.00m'],
+        [-0.0004, MILLIMETRES, '0mm'],
+        [0, METRES, '0.00m']
+    ])('writes %d in %o as %s', (metres, settings, text) => {
+        expect(formatLength(metres, settings)).toBe(text);
+    });
+
+    it.each<[number, number, string]>([
+        [12 * FOOT + 6.5 * INCH, 16, '12\'-6 1/2"'],
+        [12 * FOOT + 6 * INCH, 16, '12\'-6"'],
+        [6.5 * INCH, 16, '0\'-6 1/2"'],
+        [0.25 * INCH, 16, '0\'-1/4"'],
+        [10 * FOOT, 16, '10\'-0"'],
+        // Rounded to the nearest 1/denominator inch
+        [6.3 * INCH, 2, '0\'-6 1/2"'],
+        [6.2 * INCH, 2, '0\'-6"'],
+        [6.3 * INCH, 1, '0\'-6"'],
+        [(1 + 1 / 64) * INCH, 64, '0\'-1 1/64"'],
+        [(1 + 1 / 64) * INCH, 32, '0\'-1 1/32"'],
+        // Fractions reduce, and rounding up carries into inches and feet
+        [(3 + 8 / 16) * INCH, 16, '0\'-3 1/2"'],
+        [(11 + 63 / 64) * INCH, 16, '1\'-0"'],
+        [-(2 * FOOT + 3 * INCH), 16, '-2\'-3"'],
+        // No negative zero
+        [-0.001 * INCH, 16, '0\'-0"']
+    ])('writes %d m at 1/%d" as %s', (metres, precision, text) => {
+        expect(formatLength(metres, { unit: 'ft-in', precision })).toBe(text);
+    });
+
+    it('reads back what it writes', () => {
+        [0.1234, 3.75, 12.5].forEach(metres => {
+            expect(parseLength(formatLength(metres, FEET_INCHES), FEET_INCHES)).toBeCloseTo(metres, 3);
+            expect(parseLength(formatLength(metres, MILLIMETRES), MILLIMETRES)).toBeCloseTo(metres, 3);
+        });
+    });
+});
+
+describe('formatArea', () => {
+    it('writes square metres for metric units', () => {
+        expect(formatArea(10.64, METRES)).toBe('10.64 m²');
+        expect(formatArea(10.64, MILLIMETRES)).toBe('10.64 m²');
+        expect(formatArea(10.6451)).toBe('10.65 m²');
+    });
+
+    it('writes whole square feet for feet-inches', () => {
+        expect(formatArea(FOOT * FOOT * 120.4, FEET_INCHES)).toBe('120 ft²');
+        expect(formatArea(FOOT * FOOT * 120.6, FEET_INCHES)).toBe('121 ft²');
+    });
+});
+
+describe('validateUnitSettings', () => {
+    it.each<[UnitSettings]>([
+        [{ unit: 'm', precision: 2 }],
+        [{ unit: 'mm', precision: 0 }],
+        [{ unit: 'cm', precision: 4 }],
+        [{ unit: 'ft-in', precision: 1 }],
+        [{ unit: 'ft-in', precision: 64 }]
+    ])('accepts %o', settings => {
+        expect(validateUnitSettings(settings)).toEqual([]);
+    });
+
+    it.each<[UnitSettings, string]>([
+        [{ unit: 'km' as UnitSettings['unit'], precision: 2 }, 'unit must be one of'],
+        [{ unit: 'm', precision: 5 }, 'precision must be one of 0, 1'],
+        [{ unit: 'm', precision: 1.5 }, 'precision must be one of'],
+        [{ unit: 'ft-in', precision: 3 }, 'precision must be one of 1, 2, 4'],
+        [{ unit: 'ft-in', precision: 0 }, 'precision must be one of']
+    ])('rejects %o', (settings, message) => {
+        const errors = validateUnitSettings(settings);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain(message);
+    });
+});
@@ -0,0 +1,166 @@
+// Length units for showing and typing lengths. The model is always in
+// metres; the project's unit settings only change how lengths are written
+// and how typed values are read.
+//
+// Typed lengths may name their unit, otherwise the project unit is used:
+//
+//   "3750mm", "375cm", "3.75m", "3.75"   metric, with or without the unit
+//   "12'6\"", "12'-6 1/2\"", "12ft 6in"  feet and inches
+//   "6 1/2\"", "1-1/2\"", "18in", "4'"   inches or feet alone
+//
+// With feet-inches as the project unit a bare number is in inches, as in
+// most imperial CAD tools.
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'ft-in';
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'm', 'ft-in'];
+
+export const LENGTH_UNIT_NAMES: Record<LengthUnit, string> = {
+    mm: 'Millimetres',
+    cm: 'Centimetres',
+    m: 'Metres',
+    'ft-in': 'Feet and inches'
+};
+
+export interface UnitSettings {
+    unit: LengthUnit;
+    // Decimal places for metric units. For feet-inches the denominator of
+    // the smallest inch fraction shown, e.g. 16 for 1/16".
+    precision: number;
+}
+
+export const DECIMAL_PRECISIONS = [0, 1, 2, 3, 4];
+export const FRACTION_PRECISIONS = [1, 2, 4, 8, 16, 32, 64];
+
+// Precision used when switching to a unit
+export const DEFAULT_PRECISIONS: Record<LengthUnit, number> = { mm: 0, cm: 1, m: 2, 'ft-in': 16 };
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = { unit: 'm', precision: 2 };
+
+export class UnitParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnitParseError';
+    }
+}
+
+const METRES_PER_INCH = 0.0254;
+const METRES_PER_FOOT = 0.3048;
+
+const METRES_PER_UNIT: Record<string, number> = {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    in: METRES_PER_INCH,
+    '"': METRES_PER_INCH,
+    inch: METRES_PER_INCH,
+    inches: METRES_PER_INCH,
+    ft: METRES_PER_FOOT,
+    '\'': METRES_PER_FOOT,
+    foot: METRES_PER_FOOT,
+    feet: METRES_PER_FOOT
+};
+
+// Decimal, whole number with a fraction ("6 1/2", "1-1/2") or a fraction alone
+const AMOUNT = String.raw`(?:\d+(?:\.\d*)?(?:(?:\s+|-)\d+\/\d+)?|\.\d+|\d+\/\d+)`;
+const FEET_MARK = String.raw`(?:'|ft|feet|foot)`;
+const INCH_MARK = String.raw`(?:"|in|inch|inches)`;
+
+const PLAIN = new RegExp(`^(${AMOUNT})$`);
+const WITH_UNIT = new RegExp(String.raw`^(${AMOUNT})\s*(mm|cm|m|${INCH_MARK}|${FEET_MARK})$`);
+// Feet followed by inches, with an optional hyphen or space between them
+const FEET_INCHES = new RegExp(String.raw`^(${AMOUNT})\s*${FEET_MARK}\s*-?\s*(${AMOUNT})\s*${INCH_MARK}?$`);
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+function parseAmount(text: string): number {
+    const mixed = /^(\d+)(?:\s+|-)(\d+)\/(\d+)$/.exec(text);
+    const fraction = /^(\d+)\/(\d+)$/.exec(text);
+    let value: number;
+    if (mixed) {
+        value = Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+    } else if (fraction) {
+        value = Number(fraction[1]) / Number(fraction[2]);
+    } else {
+        value = Number(text);
+    }
+    if (!Number.isFinite(value)) {
+        throw new UnitParseError(`Invalid number "${text}"`);
+    }
+    return value;
+}
+
+// Read a typed length, in metres. Throws UnitParseError if it isn't one.
+export function parseLength(text: string, settings: UnitSettings = DEFAULT_UNIT_SETTINGS): number {
+    let trimmed = text.trim().toLowerCase();
+    let sign = 1;
+    if (trimmed.startsWith('-') || trimmed.startsWith('+')) {
+        sign = trimmed.startsWith('-') ? -1 : 1;
+        trimmed = trimmed.slice(1).trim();
+    }
+
+    const plain = PLAIN.exec(trimmed);
+    if (plain) {
+        const metresPerUnit = settings.unit === 'ft-in' ? METRES_PER_INCH : METRES_PER_UNIT[settings.unit];
+        return sign * parseAmount(plain[1]) * metresPerUnit;
+    }
+    const withUnit = WITH_UNIT.exec(trimmed);
+    if (withUnit) {
+        return sign * parseAmount(withUnit[1]) * METRES_PER_UNIT[withUnit[2]];
+    }
+    const feetInches = FEET_INCHES.exec(trimmed);
+    if (feetInches) {
+        return sign * (parseAmount(feetInches[1]) * METRES_PER_FOOT + parseAmount(feetInches[2]) * METRES_PER_INCH);
+    }
+    throw new UnitParseError(`Invalid length "${text.trim()}"`);
+}
+
+// Feet and inches rounded to the nearest 1/denominator inch, e.g. 12'-6 1/2"
+function formatFeetInches(metres: number, denominator: number): string {
+    const steps = Math.round(Math.abs(metres) / METRES_PER_INCH * denominator);
+    const feet = Math.floor(steps / (12 * denominator));
+    const rest = steps - feet * 12 * denominator;
+    const inches = Math.floor(rest / denominator);
+    const numerator = rest % denominator;
+
+    let inchText = String(inches);
+    if (numerator > 0) {
+        const divisor = gcd(numerator, denominator);
+        const fraction = `${numerator / divisor}/${denominator / divisor}`;
+        inchText = inches > 0 ? `${inches} ${fraction}` : fraction;
+    }
+    const sign = metres < 0 && steps > 0 ? '-' : '';
+    return `${sign}${feet}'-${inchText}"`;
+}
+
+export function formatLength(metres: number, settings: UnitSettings = DEFAULT_UNIT_SETTINGS): string {
+    if (settings.unit === 'ft-in') {
+        return formatFeetInches(metres, settings.precision);
+    }
+    const value = metres / METRES_PER_UNIT[settings.unit];
+    let text = value.toFixed(settings.precision);
+    if (Number(text) === 0) text = (0).toFixed(settings.precision); // No "-0.00"
+    return `${text}${settings.unit}`;
+}
+
+// Areas are in square metres for metric units and whole square feet for imperial
+export function formatArea(squareMetres: number, settings: UnitSettings = DEFAULT_UNIT_SETTINGS): string {
+    if (settings.unit === 'ft-in') {
+        return `${Math.round(squareMetres / (METRES_PER_FOOT * METRES_PER_FOOT))} ft²`;
+    }
+    return `${squareMetres.toFixed(2)} m²`;
+}
+
+// Problems with a set of unit settings, empty when they are valid
+export function validateUnitSettings({ unit, precision }: UnitSettings): string[] {
+    if (!LENGTH_UNITS.includes(unit)) {
+        return [`unit must be one of ${LENGTH_UNITS.join(', ')}`];
+    }
+    const choices = unit === 'ft-in' ? FRACTION_PRECISIONS : DECIMAL_PRECISIONS;
+    if (!choices.includes(precision)) {
+        return [`precision must be one of ${choices.join(', ')}`];
+    }
+    return [];
+}